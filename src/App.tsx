@@ -10,6 +10,8 @@ const TransportPage = lazy(() => import('./pages/TransportPage'));
 const RestaurantsPage = lazy(() => import('./pages/RestaurantsPage'));
 const BusPage = lazy(() => import('./pages/BusPage'));
 const AssistantPage = lazy(() => import('./pages/AssistantPage'));
+const OfflineRegionsPage = lazy(() => import('./pages/OfflineRegionsPage'));
+const SavedPlacesPage = lazy(() => import('./pages/SavedPlacesPage'));
 
 // Components
 import LoadingSpinner from './components/ui/LoadingSpinner';
@@ -36,6 +38,8 @@ function App() {
               <Route path="bus" element={<BusPage />} />
               <Route path="emergency" element={<EmergencyPage />} />
               <Route path="assistant" element={<AssistantPage />} />
+              <Route path="offline" element={<OfflineRegionsPage />} />
+              <Route path="saved" element={<SavedPlacesPage />} />
               <Route path="profile" element={<Navigate to="/assistant" replace />} />
               <Route path="*" element={<Navigate to="/" replace />} />
             </Route>
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { FiCrosshair, FiRotateCcw, FiX } from 'react-icons/fi';
+import { getLocationProvider, onLocationProviderChange, setLocationProvider } from '../../utils/location';
+import type { LocationProviderId } from '../../utils/location';
+import {
+  clearSimulatedTrace,
+  getSimulationStatus,
+  loadSimulatedTrace,
+  restartSimulation,
+  setSimulationLoop,
+  setSimulationSpeed,
+  subscribeSimulation,
+} from '../../utils/location/simulatedProvider';
+import { parseTrace } from '../../utils/location/trace';
+import { formatDuration } from '../../utils/format';
+
+const SPEEDS = [1, 2, 5, 10, 30];
+
+const LocationDevPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [providerId, setProviderId] = useState<LocationProviderId>(() => getLocationProvider().id);
+  const [sim, setSim] = useState(getSimulationStatus);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => onLocationProviderChange(setProviderId), []);
+  useEffect(() => subscribeSimulation(setSim), []);
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setError(null);
+      loadSimulatedTrace(parseTrace(await file.text(), file.name));
+      setLocationProvider('simulated');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read track');
+    }
+  };
+
+  return (
+    <div className="fixed left-3 bottom-20 z-50 text-sm">
+      {open ? (
+        <div className="w-72 bg-secondary border border-primary-800 rounded-xl shadow-2xl p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold">Location source</span>
+            <button type="button" onClick={() => setOpen(false)} aria-label="Close location dev panel">
+              <FiX />
+            </button>
+          </div>
+
+          <div className="flex gap-2">
+            {(['browser', 'simulated'] as LocationProviderId[]).map((id) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setLocationProvider(id)}
+                className={`flex-1 py-1.5 rounded-lg ${
+                  providerId === id ? 'bg-accent-600 text-black font-semibold' : 'bg-primary-800 hover:bg-primary-700'
+                }`}
+              >
+                {id === 'browser' ? 'Device' : 'Simulated'}
+              </button>
+            ))}
+          </div>
+
+          <label className="block">
+            <span className="text-gray-300">Replay GPX / GeoJSON</span>
+            <input type="file" accept=".gpx,.geojson,.json" onChange={onFile} className="mt-1 block w-full text-xs" />
+          </label>
+
+          {sim.trace && (
+            <div className="space-y-2">
+              <div className="text-gray-300 truncate">
+                {sim.trace.name} · {sim.trace.points.length} pts · {formatDuration(sim.durationSeconds)}
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={sim.speed}
+                  onChange={(e) => setSimulationSpeed(Number(e.target.value))}
+                  className="bg-primary-800 rounded-lg px-2 py-1"
+                  aria-label="Playback speed"
+                >
+                  {SPEEDS.map((s) => (
+                    <option key={s} value={s}>
+                      {s}×
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={sim.loop} onChange={(e) => setSimulationLoop(e.target.checked)} />
+                  Loop
+                </label>
+                <button
+                  type="button"
+                  onClick={restartSimulation}
+                  className="ml-auto p-1.5 rounded-lg bg-primary-800 hover:bg-primary-700"
+                  aria-label="Restart replay"
+                >
+                  <FiRotateCcw />
+                </button>
+                <button type="button" onClick={clearSimulatedTrace} className="text-gray-300 hover:text-white">
+                  Clear
+                </button>
+              </div>
+            </div>
+          )}
+
+          {error && <div className="text-red-300">{error}</div>}
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setOpen(true)}
+          className={`p-2 rounded-full shadow-lg ${providerId === 'simulated' ? 'bg-accent-600 text-black' : 'bg-secondary'}`}
+          aria-label="Location dev panel"
+        >
+          <FiCrosshair />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LocationDevPanel;
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { MapContainer, Marker, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { AnimatePresence, motion } from 'framer-motion';
+import { FiSearch, FiX } from 'react-icons/fi';
+import { coloredMarkerIcon } from '../map/markerIcons';
+import type { LatLng } from '../../utils/geo';
+import { suggestPlaces } from '../../utils/geocoding';
+
+type Picked = LatLng & { label: string };
+
+type LocationPickerProps = {
+  open: boolean;
+  initial: LatLng | null;
+  onClose: () => void;
+  onPick: (picked: Picked) => void;
+};
+
+// Bengaluru, when there's nothing better to start from.
+const FALLBACK_CENTER: [number, number] = [12.9716, 77.5946];
+
+const TapToPick = ({ onTap }: { onTap: (p: LatLng) => void }) => {
+  useMapEvents({
+    click: (e) => onTap({ lat: e.latlng.lat, lng: e.latlng.lng }),
+  });
+  return null;
+};
+
+const PanTo = ({ target }: { target: LatLng | null }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (target) map.setView([target.lat, target.lng], Math.max(map.getZoom(), 15));
+  }, [map, target]);
+  return null;
+};
+
+const droppedPinLabel = (p: LatLng) => `Dropped pin (${p.lat.toFixed(4)}, ${p.lng.toFixed(4)})`;
+
+// Mounted only while open, so closing the picker throws its search and pin away.
+const PickerDialog: React.FC<Omit<LocationPickerProps, 'open'>> = ({ initial, onClose, onPick }) => {
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<Picked[]>([]);
+  const [picked, setPicked] = useState<Picked | null>(null);
+  const suggestions = query.trim().length >= 3 ? matches : [];
+
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < 3) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const results = await suggestPlaces(q, { limit: 5, signal: controller.signal });
+        setMatches(results.map(({ lat, lng, label }) => ({ lat, lng, label })));
+      } catch {
+        // ignore
+      }
+    }, 350);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const center: [number, number] = initial ? [initial.lat, initial.lng] : FALLBACK_CENTER;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center bg-black/60 p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 20 }}
+        role="dialog"
+        aria-label="Set my location"
+        className="w-full max-w-lg bg-secondary border border-primary-800 rounded-2xl p-4 text-white"
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold">Set my location</h2>
+          <button type="button" onClick={onClose} aria-label="Close">
+            <FiX />
+          </button>
+        </div>
+
+        <div className="relative">
+          <div className="flex items-center bg-primary-900 rounded-xl px-3">
+            <FiSearch className="text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search for an area, street or landmark"
+              className="flex-1 bg-transparent outline-none px-2 py-3"
+            />
+          </div>
+          {suggestions.length > 0 && (
+            <div className="absolute left-0 right-0 mt-1 bg-primary-900 border border-primary-800 rounded-xl overflow-hidden z-[1000]">
+              {suggestions.map((s) => (
+                <button
+                  key={`${s.lat},${s.lng}`}
+                  type="button"
+                  onClick={() => {
+                    setPicked(s);
+                    setMatches([]);
+                    setQuery('');
+                  }}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-primary-800 border-b border-primary-800 last:border-b-0"
+                >
+                  {s.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-3 h-64 rounded-xl overflow-hidden">
+          <MapContainer center={center} zoom={13} style={{ height: '100%', width: '100%' }}>
+            <TileLayer
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+              crossOrigin="anonymous"
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            />
+            <TapToPick onTap={(p) => setPicked({ ...p, label: droppedPinLabel(p) })} />
+            <PanTo target={picked} />
+            {picked && <Marker position={[picked.lat, picked.lng]} icon={coloredMarkerIcon('violet')} />}
+          </MapContainer>
+        </div>
+        <div className="text-xs text-gray-400 mt-2">Search above or tap the map to drop a pin.</div>
+
+        <div className="mt-3 text-sm text-gray-200 truncate">{picked ? picked.label : 'No location picked yet'}</div>
+
+        <button
+          type="button"
+          disabled={!picked}
+          onClick={() => picked && onPick(picked)}
+          className="mt-3 w-full px-4 py-3 rounded-xl bg-accent-600 hover:bg-accent-500 text-black font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Use this location
+        </button>
+      </motion.div>
+    </div>
+  );
+};
+
+const LocationPicker: React.FC<LocationPickerProps> = ({ open, ...dialog }) => (
+  <AnimatePresence>{open && <PickerDialog {...dialog} />}</AnimatePresence>
+);
+
+export default LocationPicker;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { FiCrosshair, FiEdit2, FiMapPin } from 'react-icons/fi';
+import { useGeolocation } from '../../hooks/useGeolocation';
+import { useReverseGeocode } from '../../hooks/useReverseGeocode';
+import LocationPicker from './LocationPicker';
+
+/**
+ * Where the page thinks the user is, with a way to set it by hand when GPS is
+ * denied or wrong and to switch back to GPS afterwards
+ */
+const LocationStatus: React.FC = () => {
+  const {
+    location,
+    loading,
+    error,
+    source,
+    manualLocation,
+    accuracy,
+    setManualLocation,
+    clearManualLocation,
+    refreshLocation,
+  } = useGeolocation();
+  const [pickerOpen, setPickerOpen] = useState(false);
+  // Manual locations already carry a label.
+  const { label: address } = useReverseGeocode(source === 'gps' ? location : null, { precision: 3 });
+
+  const useGps = () => {
+    clearManualLocation();
+    refreshLocation().catch(() => {
+      // surfaced through `error`
+    });
+  };
+
+  return (
+    <>
+      {loading && <div className="text-gray-300">Getting your location…</div>}
+
+      {!loading && error && (
+        <div className="bg-destructive/20 border border-destructive/40 rounded-xl p-4">
+          <div className="font-semibold">Location error</div>
+          <div className="text-gray-200 mt-1">{error}</div>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => refreshLocation().catch(() => {})}
+              className="px-4 py-2 rounded-lg bg-primary-800 hover:bg-primary-700"
+            >
+              Try again
+            </button>
+            <button
+              type="button"
+              onClick={() => setPickerOpen(true)}
+              className="px-4 py-2 rounded-lg bg-accent-600 hover:bg-accent-500 text-black font-semibold"
+            >
+              Set location manually
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!loading && location && (
+        <div className="text-sm text-gray-400 flex flex-wrap items-center gap-2">
+          <FiMapPin />
+          {source === 'manual' && manualLocation ? (
+            <>
+              <span className="px-2 py-0.5 rounded-full bg-accent-600 text-black text-xs font-semibold">Manual</span>
+              <span className="truncate max-w-[16rem]" title={manualLocation.label}>
+                {manualLocation.label}
+              </span>
+            </>
+          ) : (
+            <span className="truncate max-w-[20rem]" title={`${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}`}>
+              {address ?? `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`}
+              {accuracy != null && ` · ±${Math.round(accuracy)} m`}
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={() => setPickerOpen(true)}
+            className="inline-flex items-center gap-1 text-accent-400 hover:underline"
+          >
+            <FiEdit2 size={12} />
+            Change
+          </button>
+          {source === 'manual' && (
+            <button type="button" onClick={useGps} className="inline-flex items-center gap-1 text-accent-400 hover:underline">
+              <FiCrosshair size={12} />
+              Use GPS
+            </button>
+          )}
+        </div>
+      )}
+
+      <LocationPicker
+        open={pickerOpen}
+        initial={location}
+        onClose={() => setPickerOpen(false)}
+        onPick={(p) => {
+          setManualLocation(p);
+          setPickerOpen(false);
+        }}
+      />
+    </>
+  );
+};
+
+export default LocationStatus;
@@ -0,0 +1,81 @@
+import React, { useMemo, useState } from 'react';
+import { Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
+import type L from 'leaflet';
+import { clusterPoints } from '../../utils/markerCluster';
+import type { LatLng, LatLngBounds } from '../../utils/geo';
+import { clusterIcon } from './markerIcons';
+
+type ClusterLayerProps<T extends LatLng> = {
+  items: T[];
+  getKey: (item: T) => string;
+  getIcon: (item: T) => L.Icon | L.DivIcon;
+  renderPopup?: (item: T) => React.ReactNode;
+  onSelect?: (item: T) => void;
+};
+
+const readViewport = (map: L.Map): { zoom: number; bounds: LatLngBounds } => {
+  const b = map.getBounds();
+  return {
+    zoom: map.getZoom(),
+    bounds: { south: b.getSouth(), west: b.getWest(), north: b.getNorth(), east: b.getEast() },
+  };
+};
+
+/**
+ * Renders only the markers near the viewport, grouped into count bubbles
+ * that zoom in on click
+ */
+const ClusterLayer = <T extends LatLng>({ items, getKey, getIcon, renderPopup, onSelect }: ClusterLayerProps<T>) => {
+  const map = useMap();
+  const [viewport, setViewport] = useState(() => readViewport(map));
+
+  useMapEvents({
+    moveend: () => setViewport(readViewport(map)),
+  });
+
+  const groups = useMemo(
+    () => clusterPoints(items, { zoom: viewport.zoom, viewport: viewport.bounds, maxClusterZoom: Math.min(map.getMaxZoom(), 18) }),
+    [items, viewport, map]
+  );
+
+  const expand = (bounds: LatLngBounds) => {
+    const sameSpot = bounds.south === bounds.north && bounds.west === bounds.east;
+    if (sameSpot) {
+      map.setView([bounds.south, bounds.west], Math.min(map.getZoom() + 2, map.getMaxZoom()));
+      return;
+    }
+    map.fitBounds(
+      [
+        [bounds.south, bounds.west],
+        [bounds.north, bounds.east],
+      ],
+      { padding: [48, 48] }
+    );
+  };
+
+  return (
+    <>
+      {groups.map((g) =>
+        g.type === 'cluster' ? (
+          <Marker
+            key={g.key}
+            position={[g.lat, g.lng]}
+            icon={clusterIcon(g.count)}
+            eventHandlers={{ click: () => expand(g.bounds) }}
+          />
+        ) : (
+          <Marker
+            key={getKey(g.item)}
+            position={[g.lat, g.lng]}
+            icon={getIcon(g.item)}
+            eventHandlers={onSelect ? { click: () => onSelect(g.item) } : undefined}
+          >
+            {renderPopup && <Popup>{renderPopup(g.item)}</Popup>}
+          </Marker>
+        )
+      )}
+    </>
+  );
+};
+
+export default ClusterLayer;
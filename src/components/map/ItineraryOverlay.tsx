@@ -0,0 +1,55 @@
+import React, { useEffect } from 'react';
+import { Marker, Polyline, Popup, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import type { ItineraryStop } from '../../utils/itinerary';
+import type { Route } from '../../utils/routing';
+import { legColor } from './legColors';
+import { numberedStopIcon } from './markerIcons';
+
+type ItineraryOverlayProps = {
+  stops: ItineraryStop[];
+  legs: (Route | null)[];
+};
+
+const ItineraryOverlay: React.FC<ItineraryOverlayProps> = ({ stops, legs }) => {
+  const map = useMap();
+  const stopsKey = stops.map((s) => s.id).join('|');
+
+  // Frame the whole trip whenever the set of stops changes.
+  useEffect(() => {
+    if (stops.length === 0) return;
+    try {
+      const bounds = L.latLngBounds(stops.map((s) => [s.lat, s.lng] as [number, number]));
+      map.fitBounds(bounds.pad(0.2), { animate: false, maxZoom: 16 });
+    } catch {
+      // ignore
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [map, stopsKey]);
+
+  return (
+    <>
+      {legs.map((leg, i) =>
+        leg ? (
+          <Polyline key={i} positions={leg.geometry} pathOptions={{ color: legColor(i), weight: 5, opacity: 0.9 }} />
+        ) : (
+          <Polyline
+            key={i}
+            positions={[
+              [stops[i].lat, stops[i].lng],
+              [stops[i + 1].lat, stops[i + 1].lng],
+            ]}
+            pathOptions={{ color: legColor(i), weight: 3, opacity: 0.6, dashArray: '6 8' }}
+          />
+        )
+      )}
+      {stops.map((stop, i) => (
+        <Marker key={stop.id} position={[stop.lat, stop.lng]} icon={numberedStopIcon(i + 1)}>
+          <Popup>{stop.name}</Popup>
+        </Marker>
+      ))}
+    </>
+  );
+};
+
+export default ItineraryOverlay;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Reorder, useDragControls } from 'framer-motion';
+import { FiLoader, FiMenu, FiShuffle, FiX } from 'react-icons/fi';
+import type { ItineraryStop } from '../../utils/itinerary';
+import type { Route } from '../../utils/routing';
+import { formatDistance, formatDuration } from '../../utils/format';
+import { legColor } from './legColors';
+
+type ItineraryPanelProps = {
+  stops: ItineraryStop[];
+  legs: (Route | null)[];
+  loading: boolean;
+  optimizing: boolean;
+  onReorder: (stops: ItineraryStop[]) => void;
+  onRemove: (id: string) => void;
+  onOptimize: () => void;
+  onClear: () => void;
+  // Rendered above the stop list, e.g. the travel mode switcher.
+  children?: React.ReactNode;
+};
+
+const StopRow = ({
+  stop,
+  index,
+  leg,
+  onCommit,
+  onRemove,
+}: {
+  stop: ItineraryStop;
+  index: number;
+  leg: Route | null | undefined;
+  onCommit: () => void;
+  onRemove: () => void;
+}) => {
+  const controls = useDragControls();
+  return (
+    <Reorder.Item
+      value={stop}
+      dragListener={false}
+      dragControls={controls}
+      onDragEnd={onCommit}
+      className="bg-white"
+    >
+      <div className="flex items-center gap-3 py-2">
+        <button
+          type="button"
+          onPointerDown={(e) => controls.start(e)}
+          className="text-gray-400 cursor-grab touch-none p-1"
+          aria-label={`Reorder ${stop.name}`}
+        >
+          <FiMenu />
+        </button>
+        <span className="w-6 h-6 rounded-full bg-primary-900 text-white text-xs font-bold flex items-center justify-center">
+          {index + 1}
+        </span>
+        <span className="flex-1 text-sm text-gray-800 truncate">{stop.name}</span>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-gray-400 hover:text-gray-600 p-1"
+          aria-label={`Remove ${stop.name}`}
+        >
+          <FiX />
+        </button>
+      </div>
+      {leg && (
+        <div className="ml-12 pl-3 border-l-4 text-xs text-gray-500 py-1" style={{ borderColor: legColor(index) }}>
+          {formatDuration(leg.durationSeconds)} · {formatDistance(leg.distanceMeters)}
+        </div>
+      )}
+    </Reorder.Item>
+  );
+};
+
+const ItineraryPanel: React.FC<ItineraryPanelProps> = ({
+  stops,
+  legs,
+  loading,
+  optimizing,
+  onReorder,
+  onRemove,
+  onOptimize,
+  onClear,
+  children,
+}) => {
+  // Dragging only reorders locally; the URL (and leg routing) updates on drop.
+  // A drag made against older stops is dropped once new ones arrive.
+  const [dragged, setDragged] = useState<{ stops: ItineraryStop[]; order: ItineraryStop[] } | null>(null);
+  const order = dragged?.stops === stops ? dragged.order : stops;
+  const setOrder = (next: ItineraryStop[]) => setDragged({ stops, order: next });
+
+  const commit = () => {
+    if (order.some((s, i) => s.id !== stops[i]?.id)) onReorder(order);
+  };
+
+  const totals = legs.reduce(
+    (acc, leg) => (leg ? { d: acc.d + leg.distanceMeters, t: acc.t + leg.durationSeconds } : acc),
+    { d: 0, t: 0 }
+  );
+
+  return (
+    <div className="bg-white bg-opacity-95 rounded-2xl shadow-2xl p-4 pointer-events-auto max-w-xl mx-auto">
+      {children}
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div>
+          <div className="font-semibold text-gray-900">Trip · {stops.length} stops</div>
+          <div className="text-sm text-gray-600 flex items-center gap-2">
+            {loading ? (
+              <>
+                <FiLoader className="animate-spin" />
+                Routing legs…
+              </>
+            ) : totals.t > 0 ? (
+              `${formatDuration(totals.t)} · ${formatDistance(totals.d)}`
+            ) : (
+              'Add at least two stops'
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onOptimize}
+            disabled={stops.length < 3 || optimizing}
+            className="px-3 py-2 rounded-lg bg-accent-500 hover:bg-accent-600 text-white text-sm font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {optimizing ? <FiLoader className="animate-spin" /> : <FiShuffle />}
+            Optimize
+          </button>
+          <button
+            type="button"
+            onClick={onClear}
+            className="px-3 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <Reorder.Group axis="y" values={order} onReorder={setOrder} className="max-h-[35vh] overflow-y-auto">
+        {order.map((stop, i) => (
+          <StopRow
+            key={stop.id}
+            stop={stop}
+            index={i}
+            // Leg timings only make sense for the committed order.
+            leg={order === stops && i < order.length - 1 ? legs[i] : undefined}
+            onCommit={commit}
+            onRemove={() => onRemove(stop.id)}
+          />
+        ))}
+      </Reorder.Group>
+    </div>
+  );
+};
+
+export default ItineraryPanel;
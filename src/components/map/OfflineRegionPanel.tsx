@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FiDownload, FiX } from 'react-icons/fi';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { useReverseGeocode } from '../../hooks/useReverseGeocode';
+import { boundsCenter } from '../../utils/geo';
+import type { LatLngBounds } from '../../utils/geo';
+import { formatBytes } from '../../utils/format';
+import { describeProgress, downloadOfflineRegion, estimateOfflineRegion } from '../../utils/offlineRegions';
+import type { DownloadProgress } from '../../utils/offlineRegions';
+
+type Detail = 'overview' | 'streets';
+
+const DETAIL_MAX_ZOOM: Record<Detail, number> = { overview: 14, streets: 16 };
+
+type OfflineRegionPanelProps = {
+  bounds: LatLngBounds;
+  zoom: number;
+  onClose: () => void;
+};
+
+/**
+ * Download the visible map area (tiles plus key POIs) for offline use
+ */
+const OfflineRegionPanel: React.FC<OfflineRegionPanelProps> = ({ bounds, zoom, onClose }) => {
+  const { result: area } = useReverseGeocode(boundsCenter(bounds), { precision: 2 });
+  const [name, setName] = useState('');
+  const [detail, setDetail] = useState<Detail>('streets');
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Lower zooms cover the area with a handful of tiles, so include a few for zooming out.
+  const minZoom = Math.max(3, Math.min(Math.floor(zoom), DETAIL_MAX_ZOOM[detail]) - 4);
+  const maxZoom = DETAIL_MAX_ZOOM[detail];
+  const estimate = estimateOfflineRegion(bounds, minZoom, maxZoom);
+  const suggestedName = area?.address.suburb ?? area?.address.city ?? area?.name ?? 'Offline area';
+
+  const start = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setProgress({ phase: 'tiles', done: 0, total: estimate.tileCount });
+    try {
+      const region = await downloadOfflineRegion(
+        { name: name.trim() || suggestedName, bounds, minZoom, maxZoom },
+        { onProgress: setProgress, signal: controller.signal }
+      );
+      toast.success(
+        region.partialKinds.length
+          ? `${region.name} is available offline, but some place lists are partial`
+          : `${region.name} is available offline`
+      );
+      onClose();
+    } catch (e) {
+      if (!controller.signal.aborted) setError(e instanceof Error ? e.message : 'Download failed');
+      setProgress(null);
+    }
+  };
+
+  const cancel = () => {
+    controllerRef.current?.abort();
+    setProgress(null);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-4 text-gray-800 w-full max-w-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold">Download this area</h2>
+        <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+          <FiX />
+        </button>
+      </div>
+
+      <label className="block text-sm text-gray-600 mb-1" htmlFor="offline-region-name">
+        Name
+      </label>
+      <input
+        id="offline-region-name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder={suggestedName}
+        disabled={!!progress}
+        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm mb-3"
+      />
+
+      <div className="flex gap-2 mb-3">
+        {(['overview', 'streets'] as const).map((d) => (
+          <button
+            key={d}
+            type="button"
+            onClick={() => setDetail(d)}
+            disabled={!!progress}
+            className={`flex-1 py-2 rounded-lg text-sm border ${
+              detail === d ? 'bg-accent-500 border-accent-500 text-white' : 'border-gray-300 text-gray-700'
+            }`}
+          >
+            {d === 'overview' ? 'Overview' : 'Street level'}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500 mb-3">
+        {estimate.tileCount} map tiles (about {formatBytes(estimate.approxBytes)}) plus hospitals, police, restaurants,
+        attractions and bus stations.
+      </p>
+      {estimate.tooLarge && (
+        <p className="text-xs text-red-600 mb-3">This area is too large. Zoom in or choose Overview.</p>
+      )}
+      {error && <p className="text-xs text-red-600 mb-3">{error}</p>}
+
+      {progress ? (
+        <div>
+          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-accent-500 transition-all"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <div className="flex items-center justify-between mt-2 text-xs text-gray-600">
+            <span>{describeProgress(progress)}</span>
+            <button type="button" onClick={cancel} className="text-red-600 hover:underline">
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={start}
+          disabled={estimate.tooLarge}
+          className="w-full bg-accent-500 hover:bg-accent-600 text-white py-2.5 rounded-lg font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FiDownload />
+          Download
+        </button>
+      )}
+
+      <Link to="/offline" className="block text-center text-sm text-accent-600 hover:underline mt-3">
+        Manage downloaded areas
+      </Link>
+    </div>
+  );
+};
+
+export default OfflineRegionPanel;
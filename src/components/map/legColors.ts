@@ -0,0 +1,3 @@
+const LEG_COLORS = ['#22c55e', '#3b82f6', '#f97316', '#a855f7', '#ec4899'];
+
+export const legColor = (index: number) => LEG_COLORS[index % LEG_COLORS.length];
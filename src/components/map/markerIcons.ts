@@ -0,0 +1,77 @@
+import L from 'leaflet';
+import blueMarker from '../../assets/markers/marker-blue.svg';
+import greenMarker from '../../assets/markers/marker-green.svg';
+import greyMarker from '../../assets/markers/marker-grey.svg';
+import orangeMarker from '../../assets/markers/marker-orange.svg';
+import redMarker from '../../assets/markers/marker-red.svg';
+import markerShadow from '../../assets/markers/marker-shadow.png';
+import violetMarker from '../../assets/markers/marker-violet.svg';
+
+export type MarkerColor = 'blue' | 'red' | 'green' | 'orange' | 'violet' | 'grey';
+
+// Bundled rather than hotlinked so markers still show in downloaded offline regions.
+const MARKER_URLS: Record<MarkerColor, string> = {
+  blue: blueMarker,
+  red: redMarker,
+  green: greenMarker,
+  orange: orangeMarker,
+  violet: violetMarker,
+  grey: greyMarker,
+};
+
+const iconCache = new Map<string, L.Icon | L.DivIcon>();
+
+const cached = <I extends L.Icon | L.DivIcon>(key: string, create: () => I): I => {
+  let icon = iconCache.get(key) as I | undefined;
+  if (!icon) {
+    icon = create();
+    iconCache.set(key, icon);
+  }
+  return icon;
+};
+
+/**
+ * Shared pin icon per color, so markers don't allocate a new L.Icon on every render
+ */
+export const coloredMarkerIcon = (color: MarkerColor) =>
+  cached(`pin:${color}`, () =>
+    new L.Icon({
+      iconUrl: MARKER_URLS[color],
+      shadowUrl: markerShadow,
+      iconSize: [25, 41],
+      iconAnchor: [12, 41],
+      popupAnchor: [1, -34],
+      shadowSize: [41, 41],
+    })
+  );
+
+const clusterSize = (count: number) => (count < 10 ? 34 : count < 100 ? 42 : 50);
+
+/**
+ * Count bubble for a marker cluster
+ */
+export const clusterIcon = (count: number) =>
+  cached(`cluster:${count}`, () => {
+    const size = clusterSize(count);
+    return L.divIcon({
+      html: `<span>${count > 999 ? '999+' : count}</span>`,
+      className:
+        'flex items-center justify-center rounded-full bg-accent-500 text-white text-sm font-semibold border-2 border-white shadow-lg',
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2],
+    });
+  });
+
+/**
+ * Numbered badge for itinerary stops
+ */
+export const numberedStopIcon = (n: number) =>
+  cached(`stop:${n}`, () =>
+    L.divIcon({
+      html: `<span>${n}</span>`,
+      className:
+        'flex items-center justify-center rounded-full bg-primary-900 text-white text-sm font-bold border-2 border-white shadow-lg',
+      iconSize: [30, 30],
+      iconAnchor: [15, 15],
+    })
+  );
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { FiX } from 'react-icons/fi';
+import { distanceMeters } from '../../utils/geo';
+import type { ImportConflict, ImportPlan, ImportResolution } from '../../utils/placeExchange';
+
+type ImportReviewProps = {
+  fileName: string;
+  plan: ImportPlan;
+  onCancel: () => void;
+  onConfirm: (resolutions: ImportResolution[]) => void;
+};
+
+const describeConflict = (c: ImportConflict) => {
+  switch (c.reason) {
+    case 'details':
+      return `Already saved, but the file has different ${c.fields.join(', ')}.`;
+    case 'name':
+      return `“${c.existing.name}” is saved at this spot.`;
+    case 'location':
+      return `Saved ${Math.round(distanceMeters(c.existing, c.incoming))} m away from the imported spot.`;
+  }
+};
+
+const RESOLUTION_LABELS: Record<ImportResolution, string> = {
+  skip: 'Keep mine',
+  replace: 'Use imported',
+  both: 'Keep both',
+};
+
+const ImportReview: React.FC<ImportReviewProps> = ({ fileName, plan, onCancel, onConfirm }) => {
+  const [resolutions, setResolutions] = useState<ImportResolution[]>(() => plan.conflicts.map(() => 'skip'));
+
+  const total = plan.added.length + plan.duplicates.length + plan.conflicts.length;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center bg-black/60 p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        role="dialog"
+        aria-label="Review import"
+        className="w-full max-w-lg max-h-[85vh] overflow-y-auto bg-secondary border border-primary-800 rounded-2xl p-4 text-white"
+      >
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-lg font-semibold">Import places</h2>
+          <button type="button" onClick={onCancel} aria-label="Close">
+            <FiX />
+          </button>
+        </div>
+        <div className="text-sm text-gray-400 truncate">{fileName}</div>
+
+        <div className="grid grid-cols-3 gap-2 mt-4 text-center">
+          <div className="bg-primary-900 rounded-xl p-2">
+            <div className="text-xl font-bold">{plan.added.length}</div>
+            <div className="text-xs text-gray-400">new</div>
+          </div>
+          <div className="bg-primary-900 rounded-xl p-2">
+            <div className="text-xl font-bold">{plan.duplicates.length}</div>
+            <div className="text-xs text-gray-400">already saved</div>
+          </div>
+          <div className="bg-primary-900 rounded-xl p-2">
+            <div className="text-xl font-bold text-accent-400">{plan.conflicts.length}</div>
+            <div className="text-xs text-gray-400">to review</div>
+          </div>
+        </div>
+
+        {total === 0 && <div className="text-sm text-gray-300 mt-4">No places found in this file.</div>}
+
+        {plan.conflicts.length > 0 && (
+          <div className="mt-4 space-y-2">
+            {plan.conflicts.map((c, i) => (
+              <div key={i} className="bg-primary-900/60 border border-primary-800 rounded-xl p-3">
+                <div className="font-semibold text-sm truncate">{c.incoming.name}</div>
+                <div className="text-xs text-gray-300 mt-0.5">{describeConflict(c)}</div>
+                <div className="flex gap-2 mt-2">
+                  {(Object.keys(RESOLUTION_LABELS) as ImportResolution[]).map((r) => (
+                    <button
+                      key={r}
+                      type="button"
+                      onClick={() => setResolutions((prev) => prev.map((v, j) => (j === i ? r : v)))}
+                      className={`px-3 py-1 rounded-full text-xs border ${
+                        resolutions[i] === r ? 'bg-accent-600 border-accent-600 text-black' : 'border-primary-700 text-gray-200'
+                      }`}
+                    >
+                      {RESOLUTION_LABELS[r]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          type="button"
+          disabled={plan.added.length === 0 && plan.conflicts.length === 0}
+          onClick={() => onConfirm(resolutions)}
+          className="mt-4 w-full px-4 py-3 rounded-xl bg-accent-600 hover:bg-accent-500 text-black font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Import
+        </button>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ImportReview;
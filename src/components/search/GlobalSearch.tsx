@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { FiBookmark, FiClock, FiCompass, FiLoader, FiMapPin, FiSearch } from 'react-icons/fi';
+import { useNavigate } from 'react-router-dom';
+import { useGeolocation } from '../../hooks/useGeolocation';
+import { useSearchHistory } from '../../hooks/useSearchHistory';
+import { useUnifiedSearch } from '../../hooks/useUnifiedSearch';
+import { mapSearchUrl } from '../../utils/mapLinks';
+import type { UnifiedResult, UnifiedResultGroup } from '../../utils/search';
+
+const GROUP_ICONS: Record<UnifiedResultGroup, React.ReactNode> = {
+  category: <FiCompass />,
+  saved: <FiBookmark />,
+  recent: <FiClock />,
+  place: <FiMapPin />,
+};
+
+const GlobalSearch: React.FC = () => {
+  const navigate = useNavigate();
+  const { location } = useGeolocation();
+  const { record } = useSearchHistory();
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+
+  const { sections, loading } = useUnifiedSearch(query, { near: location });
+  const flat = sections.flatMap((s) => s.results);
+  // Position of each section's first result in `flat`, which the highlight indexes into.
+  const offsets = sections.map((_, n) => sections.slice(0, n).reduce((sum, s) => sum + s.results.length, 0));
+
+  const pick = (r: UnifiedResult) => {
+    if (r.group === 'place') {
+      const { label, lat, lng, provider } = r.place;
+      record(query, { label, lat, lng, provider }, location ?? undefined);
+    }
+    setOpen(false);
+    navigate(r.to);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setOpen(true);
+      if (flat.length) setHighlight((h) => (h + (e.key === 'ArrowDown' ? 1 : flat.length - 1)) % flat.length);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = query.trim();
+    if (!q) return;
+    const chosen = flat[highlight];
+    if (chosen) pick(chosen);
+    else navigate(mapSearchUrl(q, location ?? undefined));
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="relative" role="search">
+      <input
+        type="text"
+        placeholder="Search for places, restaurants, or landmarks..."
+        className="w-full bg-black/80 text-white placeholder-gray-400 rounded-lg py-3 pl-12 pr-10 focus:outline-none focus:ring-2 focus:ring-accent-500"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setHighlight(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 120)}
+        onKeyDown={onKeyDown}
+        aria-autocomplete="list"
+        aria-expanded={open && flat.length > 0}
+      />
+      <FiSearch className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400" />
+      {loading && <FiLoader className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 animate-spin" />}
+
+      {open && query.trim() && flat.length > 0 && (
+        <div className="absolute left-0 right-0 mt-1 bg-primary-900 border border-primary-800 rounded-xl overflow-hidden z-50 max-h-[60vh] overflow-y-auto">
+          {sections.map((section, n) => (
+            <div key={section.group} className="border-b border-primary-800 last:border-b-0">
+              <div className="px-3 pt-2 pb-1 text-xs uppercase tracking-wide text-gray-400">{section.label}</div>
+              {section.results.map((r, j) => {
+                const i = offsets[n] + j;
+                return (
+                  <button
+                    key={r.id}
+                    type="button"
+                    onMouseDown={(e) => e.preventDefault()}
+                    onMouseEnter={() => setHighlight(i)}
+                    onClick={() => pick(r)}
+                    className={`w-full flex items-center gap-3 text-left px-3 py-2 ${
+                      i === highlight ? 'bg-primary-800' : ''
+                    }`}
+                  >
+                    <span className="text-accent-400 shrink-0">{GROUP_ICONS[r.group]}</span>
+                    <span className="min-w-0">
+                      <span className="block text-sm text-white truncate">{r.title}</span>
+                      {r.subtitle && <span className="block text-xs text-gray-400 truncate">{r.subtitle}</span>}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default GlobalSearch;
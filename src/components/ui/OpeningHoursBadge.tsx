@@ -0,0 +1,30 @@
+import React from 'react';
+import type { EnrichedPlace } from '../../utils/placeEnrichment';
+
+type OpeningHoursBadgeProps = {
+  hours: EnrichedPlace['openingHours'];
+  icon?: React.ReactNode;
+  className?: string;
+};
+
+const stateClasses = {
+  open: 'text-green-400',
+  closed: 'text-red-300',
+  unknown: 'text-gray-400',
+};
+
+/**
+ * Open/closed label for a place, with the raw opening_hours value as a tooltip
+ */
+const OpeningHoursBadge: React.FC<OpeningHoursBadgeProps> = ({ hours, icon, className = '' }) => {
+  if (!hours) return null;
+
+  return (
+    <div className={`${stateClasses[hours.status.state]} ${className}`} title={hours.raw}>
+      {icon}
+      {hours.label}
+    </div>
+  );
+};
+
+export default OpeningHoursBadge;
@@ -1,5 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
-import { getNearbyPlaces, calculateDistance, Location, Place } from '../utils/googleMaps';
+import { useGeolocation } from './useGeolocation';
+import { calculateDistance } from '../utils/googleMaps';
+import type { Location } from '../utils/googleMaps';
+import { searchNearbyPlaces } from '../utils/places';
+import type { NormalizedPlace } from '../utils/places';
 
 type PlaceType = 'hospital' | 'police' | 'pharmacy';
 
@@ -11,47 +15,29 @@ interface UseEmergencyLocationsProps {
 export const useEmergencyLocations = ({ 
   initialLocation = null, 
   radius = 5000 
-} = {}) => {
-  const [location, setLocation] = useState<Location | null>(initialLocation);
-  const [places, setPlaces] = useState<Record<PlaceType, Place[]>>({
+}: UseEmergencyLocationsProps = {}) => {
+  const { location: sharedLocation, getCurrentLocation: ensureLocation, refreshLocation } = useGeolocation();
+  const location = initialLocation ?? sharedLocation;
+  const [places, setPlaces] = useState<Record<PlaceType, NormalizedPlace[]>>({
     hospital: [],
     police: [],
     pharmacy: []
   });
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedPlace, setSelectedPlace] = useState<Place | null>(null);
+  const [selectedPlace, setSelectedPlace] = useState<NormalizedPlace | null>(null);
 
-  // Get user's current location
+  // Get user's current location (a precise fix, unlike the shared default)
   const getCurrentLocation = useCallback((): Promise<Location> => {
-    return new Promise((resolve, reject) => {
-      if (!navigator.geolocation) {
-        reject(new Error('Geolocation is not supported by your browser'));
-        return;
+    return refreshLocation({ highAccuracy: true, timeoutMs: 5000, maxAgeMs: 0 }).then(
+      (fix) => ({ lat: fix.lat, lng: fix.lng }),
+      (err: Error) => {
+        const errorMessage = `Unable to retrieve your location: ${err.message}`;
+        setError(errorMessage);
+        throw new Error(errorMessage);
       }
-
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const newLocation = {
-            lat: position.coords.latitude,
-            lng: position.coords.longitude
-          };
-          setLocation(newLocation);
-          resolve(newLocation);
-        },
-        (err) => {
-          const errorMessage = `Unable to retrieve your location: ${err.message}`;
-          setError(errorMessage);
-          reject(new Error(errorMessage));
-        },
-        {
-          enableHighAccuracy: true,
-          timeout: 5000,
-          maximumAge: 0
-        }
-      );
-    });
-  }, []);
+    );
+  }, [refreshLocation]);
 
   // Load nearby places of a specific type
   const loadNearbyPlaces = useCallback(async (type: PlaceType) => {
@@ -61,7 +47,7 @@ export const useEmergencyLocations = ({
     setError(null);
     
     try {
-      const results = await getNearbyPlaces(location, type, radius);
+      const results = await searchNearbyPlaces(location, { radiusMeters: radius, kinds: [type] });
       setPlaces(prev => ({
         ...prev,
         [type]: results
@@ -83,8 +69,8 @@ export const useEmergencyLocations = ({
     
     try {
       const [hospitals, policeStations] = await Promise.all([
-        getNearbyPlaces(location, 'hospital', radius),
-        getNearbyPlaces(location, 'police', radius)
+        searchNearbyPlaces(location, { radiusMeters: radius, kinds: ['hospital'] }),
+        searchNearbyPlaces(location, { radiusMeters: radius, kinds: ['police'] })
       ]);
       
       setPlaces({
@@ -101,22 +87,20 @@ export const useEmergencyLocations = ({
   }, [location, radius]);
 
   // Get distance to a place from current location
-  const getDistanceToPlace = useCallback((place: Place): string => {
+  const getDistanceToPlace = useCallback((place: NormalizedPlace): string => {
     if (!location) return 'N/A';
     return calculateDistance(
       location.lat,
       location.lng,
-      place.geometry.location.lat,
-      place.geometry.location.lng
+      place.lat,
+      place.lng
     );
   }, [location]);
 
-  // Initialize with current location
+  // Initialize with the shared location, fetching one if it's missing or stale
   useEffect(() => {
-    if (!location) {
-      getCurrentLocation().catch(console.error);
-    }
-  }, [getCurrentLocation, location]);
+    if (!initialLocation) ensureLocation();
+  }, [ensureLocation, initialLocation]);
 
   // Load initial data when location changes
   useEffect(() => {
@@ -1,58 +1,102 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useMemo } from 'react';
+import { useRecoilCallback, useRecoilState, useRecoilValue } from 'recoil';
 import type { Location } from '../utils/googleMaps';
+import { getCurrentFix } from '../utils/location';
+import type { LocationFix, LocationRequestOptions } from '../utils/location';
+import {
+  LOCATION_STALE_MS,
+  gpsLocationState,
+  locationPermissionState,
+  manualLocationState,
+} from '../state/location';
+import type { ManualLocation } from '../state/location';
+
+// Shared across every hook instance so pages mounting together ask the device once.
+let inFlight: Promise<LocationFix> | null = null;
+
+const DEFAULT_OPTIONS: LocationRequestOptions = {
+  // Faster first fix: don't force GPS, allow cached location.
+  highAccuracy: false,
+  timeoutMs: 8000,
+  maxAgeMs: 60_000,
+};
 
 export const useGeolocation = () => {
-  const [location, setLocation] = useState<Location | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(false);
-
-  const getCurrentLocation = useCallback(() => {
-    setLoading(true);
-    setError(null);
-
-    if (!navigator.geolocation) {
-      setError('Geolocation is not supported by your browser');
-      setLoading(false);
-      return;
-    }
-
-    navigator.geolocation.getCurrentPosition(
-      (position) => {
-        setLocation({
-          lat: position.coords.latitude,
-          lng: position.coords.longitude,
+  const [gps, setGps] = useRecoilState(gpsLocationState);
+  const [manual, setManual] = useRecoilState(manualLocationState);
+  const permission = useRecoilValue(locationPermissionState);
+
+  /**
+   * Ask the location provider for a new fix, regardless of the cached one
+   */
+  const refreshLocation = useCallback(
+    (options?: LocationRequestOptions): Promise<LocationFix> => {
+      if (!inFlight) {
+        setGps((s) => ({ ...s, loading: true, error: null }));
+        inFlight = getCurrentFix({ ...DEFAULT_OPTIONS, ...options }).then(
+          (fix) => {
+            setGps({ fix, error: null, loading: false });
+            return fix;
+          },
+          (e: Error) => {
+            setGps((s) => ({ ...s, error: e.message || 'Failed to get location.', loading: false }));
+            throw e;
+          }
+        );
+        const clear = () => {
+          inFlight = null;
+        };
+        inFlight.then(clear, clear);
+      }
+      return inFlight;
+    },
+    [setGps]
+  );
+
+  /**
+   * Make sure a reasonably fresh location exists; no-op while a manual location
+   * is set or the last fix is recent
+   */
+  const getCurrentLocation = useRecoilCallback(
+    ({ snapshot }) =>
+      () => {
+        if (snapshot.getLoadable(manualLocationState).getValue()) return;
+        const { fix } = snapshot.getLoadable(gpsLocationState).getValue();
+        if (fix && Date.now() - fix.timestamp < LOCATION_STALE_MS) return;
+        refreshLocation().catch(() => {
+          // surfaced through `error`
         });
-        setLoading(false);
       },
-      (error) => {
-        let errorMessage = 'Failed to get location.';
-        switch (error.code) {
-          case error.PERMISSION_DENIED:
-            errorMessage = 'Location permission denied.';
-            break;
-          case error.POSITION_UNAVAILABLE:
-            errorMessage = 'Location position unavailable.';
-            break;
-          case error.TIMEOUT:
-            errorMessage = 'Location request timed out.';
-            break;
-        }
-        setError(errorMessage);
-        setLoading(false);
-      },
-      {
-        // Faster first fix: don't force GPS, allow cached location.
-        enableHighAccuracy: false,
-        timeout: 8000,
-        maximumAge: 60_000,
-      }
-    );
-  }, []);
+    [refreshLocation]
+  );
+
+  const setManualLocation = useCallback(
+    (loc: Omit<ManualLocation, 'setAt'>) => setManual({ ...loc, setAt: Date.now() }),
+    [setManual]
+  );
+
+  const clearManualLocation = useCallback(() => setManual(null), [setManual]);
+
+  const lat = manual?.lat ?? gps.fix?.lat;
+  const lng = manual?.lng ?? gps.fix?.lng;
+  const location = useMemo<Location | null>(
+    () => (lat != null && lng != null ? { lat, lng } : null),
+    [lat, lng]
+  );
 
   return {
     location,
-    error,
-    loading,
+    error: manual ? null : gps.error,
+    loading: manual ? false : gps.loading,
+    source: manual ? ('manual' as const) : gps.fix ? ('gps' as const) : null,
+    manualLocation: manual,
+    accuracy: manual ? null : gps.fix?.accuracy ?? null,
+    heading: manual ? null : gps.fix?.heading ?? null,
+    timestamp: manual ? manual.setAt : gps.fix?.timestamp ?? null,
+    permission,
     getCurrentLocation,
+    refreshLocation,
+    setManualLocation,
+    clearManualLocation,
   };
 };
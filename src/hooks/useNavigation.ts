@@ -0,0 +1,67 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { watchFix } from '../utils/location';
+import { indexRoute, shouldReroute, updateNavigation } from '../utils/navigation';
+import type { NavigationState, PositionFix, RouteIndex } from '../utils/navigation';
+import type { Route } from '../utils/routing';
+
+type Tracked = {
+  // Route the state was computed against; a new route starts from scratch.
+  index: RouteIndex;
+  state: NavigationState | null;
+  error: string | null;
+};
+
+export const useNavigation = ({
+  route,
+  active,
+  onUpdate,
+  onReroute,
+}: {
+  route: Route | null;
+  active: boolean;
+  onUpdate?: (state: NavigationState) => void;
+  onReroute: (from: PositionFix) => void;
+}) => {
+  const [tracked, setTracked] = useState<Tracked | null>(null);
+  const index = useMemo(() => (route ? indexRoute(route) : null), [route]);
+
+  const callbacksRef = useRef({ onUpdate, onReroute });
+  useEffect(() => {
+    callbacksRef.current = { onUpdate, onReroute };
+  });
+  const lastRerouteRef = useRef(0);
+
+  useEffect(() => {
+    if (!active || !index) return;
+
+    let prev: NavigationState | null = null;
+    const stop = watchFix(
+      (fix) => {
+        const next = updateNavigation(index, prev, fix);
+        prev = next;
+        setTracked({ index, state: next, error: null });
+        callbacksRef.current.onUpdate?.(next);
+
+        const now = Date.now();
+        if (shouldReroute(next, lastRerouteRef.current, now)) {
+          lastRerouteRef.current = now;
+          callbacksRef.current.onReroute(next.fix);
+        }
+      },
+      (e) =>
+        setTracked({
+          index,
+          state: prev,
+          error: e.code === 'denied' || e.code === 'unsupported' ? e.message : 'Lost GPS signal.',
+        }),
+      { highAccuracy: true, maxAgeMs: 2000, timeoutMs: 15_000 }
+    );
+    return () => {
+      stop();
+      setTracked(null);
+    };
+  }, [active, index]);
+
+  const current = active && tracked?.index === index ? tracked : null;
+  return { state: current?.state ?? null, error: current?.error ?? null };
+};
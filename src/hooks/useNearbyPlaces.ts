@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
-import { Location, Place, getNearbyPlaces } from '../utils/googleMaps';
+import { searchNearbyPlaces } from '../utils/places';
+import type { NormalizedPlace, PlaceKind } from '../utils/places';
 import { useGeolocation } from './useGeolocation';
 
-export const useNearbyPlaces = (type: string, keyword?: string) => {
-  const [places, setPlaces] = useState<Place[]>([]);
+export const useNearbyPlaces = (kind: PlaceKind, keyword?: string) => {
+  const [places, setPlaces] = useState<NormalizedPlace[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { location, error: locationError, loading: locationLoading, getCurrentLocation } = useGeolocation();
@@ -18,7 +19,7 @@ export const useNearbyPlaces = (type: string, keyword?: string) => {
     setError(null);
 
     try {
-      const nearbyPlaces = await getNearbyPlaces(location, type, 5000, keyword);
+      const nearbyPlaces = await searchNearbyPlaces(location, { radiusMeters: 5000, kinds: [kind], query: keyword });
       setPlaces(nearbyPlaces);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch nearby places');
@@ -31,7 +32,7 @@ export const useNearbyPlaces = (type: string, keyword?: string) => {
     if (location) {
       fetchNearbyPlaces();
     }
-  }, [location, type, keyword]);
+  }, [location, kind, keyword]);
 
   const refreshPlaces = () => {
     if (!location) {
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { listOfflineRegions, onOfflineRegionsChange } from '../utils/offlineRegions';
+import type { OfflineRegion } from '../utils/offlineRegions';
+
+export const useOfflineRegions = () => {
+  const [regions, setRegions] = useState<OfflineRegion[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      listOfflineRegions().then((list) => {
+        if (cancelled) return;
+        setRegions(list);
+        setLoading(false);
+      });
+    load();
+    const unsubscribe = onOfflineRegionsChange(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { regions, loading };
+};
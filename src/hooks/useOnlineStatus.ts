@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+/**
+ * navigator.onLine as state. It can report "online" on a captive or dead
+ * network, but "offline" is reliable.
+ */
+export const useOnlineStatus = () => useSyncExternalStore(subscribe, () => navigator.onLine, () => true);
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import type { LatLng } from '../utils/geo';
+import { formatAreaLabel, reverseGeocode } from '../utils/geocoding';
+import type { GeocodeResult } from '../utils/geocoding';
+
+/**
+ * Human-readable address for a point. `precision` is the number of decimals
+ * the point is rounded to before looking it up, so a moving GPS fix doesn't
+ * trigger a request on every update (3 ≈ 100 m).
+ */
+export const useReverseGeocode = (point: LatLng | null, { precision = 4 }: { precision?: number } = {}) => {
+  const lat = point ? Number(point.lat.toFixed(precision)) : null;
+  const lng = point ? Number(point.lng.toFixed(precision)) : null;
+  const key = lat != null && lng != null ? `${lat},${lng}` : null;
+  // Tagged with the point it answers, so a new point reads as loading until its own lookup settles.
+  const [lookup, setLookup] = useState<{ key: string; result: GeocodeResult | null } | null>(null);
+
+  useEffect(() => {
+    if (lat == null || lng == null) return;
+
+    const controller = new AbortController();
+    const settle = (result: GeocodeResult | null) => {
+      if (!controller.signal.aborted) setLookup({ key: `${lat},${lng}`, result });
+    };
+    reverseGeocode({ lat, lng }, { signal: controller.signal })
+      .then(settle)
+      // Callers fall back to coordinates.
+      .catch(() => settle(null));
+
+    return () => controller.abort();
+  }, [lat, lng]);
+
+  const current = key != null && lookup?.key === key ? lookup : null;
+  const result = current?.result ?? null;
+  return { result, label: result ? formatAreaLabel(result) : null, loading: key != null && !current };
+};
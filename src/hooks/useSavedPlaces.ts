@@ -0,0 +1,117 @@
+import { useCallback } from 'react';
+import { useRecoilState } from 'recoil';
+import { placeCollectionsState, savedPlacesState } from '../state/places';
+import { applyPlaceImport } from '../utils/placeExchange';
+import type { ImportPlan, ImportResolution } from '../utils/placeExchange';
+import { normalizeTags, savedPlaceId, upsertSavedPlace } from '../utils/savedPlaces';
+import type { PlaceCollection, SavePlaceInput, SavedPlace } from '../utils/savedPlaces';
+
+type SavedPlacePatch = Partial<Pick<SavedPlace, 'name' | 'notes' | 'tags' | 'collectionIds'>>;
+
+export const useSavedPlaces = () => {
+  const [places, setPlaces] = useRecoilState(savedPlacesState);
+  const [collections, setCollections] = useRecoilState(placeCollectionsState);
+
+  const savePlace = useCallback(
+    (input: SavePlaceInput) => {
+      setPlaces((prev) => upsertSavedPlace(prev, input));
+      return savedPlaceId(input);
+    },
+    [setPlaces]
+  );
+
+  const updatePlace = useCallback(
+    (id: string, patch: SavedPlacePatch) => {
+      setPlaces((prev) =>
+        prev.map((p) =>
+          p.id === id
+            ? { ...p, ...patch, tags: patch.tags ? normalizeTags(patch.tags) : p.tags, updatedAt: Date.now() }
+            : p
+        )
+      );
+    },
+    [setPlaces]
+  );
+
+  const removePlace = useCallback(
+    (id: string) => {
+      setPlaces((prev) => prev.filter((p) => p.id !== id));
+    },
+    [setPlaces]
+  );
+
+  const isSaved = useCallback(
+    (input: Parameters<typeof savedPlaceId>[0]) => places.some((p) => p.id === savedPlaceId(input)),
+    [places]
+  );
+
+  const createCollection = useCallback(
+    (name: string): PlaceCollection => {
+      const collection = { id: `col-${Date.now().toString(36)}`, name: name.trim() || 'Untitled', createdAt: Date.now() };
+      setCollections((prev) => [...prev, collection]);
+      return collection;
+    },
+    [setCollections]
+  );
+
+  const renameCollection = useCallback(
+    (id: string, name: string) => {
+      setCollections((prev) => prev.map((c) => (c.id === id ? { ...c, name: name.trim() || c.name } : c)));
+    },
+    [setCollections]
+  );
+
+  // Places stay saved; they just leave the collection.
+  const deleteCollection = useCallback(
+    (id: string) => {
+      setCollections((prev) => prev.filter((c) => c.id !== id));
+      setPlaces((prev) =>
+        prev.map((p) =>
+          p.collectionIds.includes(id) ? { ...p, collectionIds: p.collectionIds.filter((c) => c !== id) } : p
+        )
+      );
+    },
+    [setCollections, setPlaces]
+  );
+
+  const toggleInCollection = useCallback(
+    (placeId: string, collectionId: string) => {
+      setPlaces((prev) =>
+        prev.map((p) => {
+          if (p.id !== placeId) return p;
+          const has = p.collectionIds.includes(collectionId);
+          return {
+            ...p,
+            collectionIds: has ? p.collectionIds.filter((c) => c !== collectionId) : [...p.collectionIds, collectionId],
+            updatedAt: Date.now(),
+          };
+        })
+      );
+    },
+    [setPlaces]
+  );
+
+  const importPlaces = useCallback(
+    (plan: ImportPlan, resolutions: ImportResolution[]) => {
+      const result = applyPlaceImport(places, collections, plan, resolutions);
+      setPlaces(result.places);
+      setCollections(result.collections);
+      return { added: result.added, updated: result.updated };
+    },
+    [places, collections, setPlaces, setCollections]
+  );
+
+  return {
+    places,
+    collections,
+    savePlace,
+    updatePlace,
+    removePlace,
+    isSaved,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    toggleInCollection,
+    importPlaces,
+  };
+};
@@ -0,0 +1,48 @@
+import { useCallback } from 'react';
+import { useRecoilState } from 'recoil';
+import { searchHistoryEnabledState, searchHistoryState } from '../state/places';
+import type { LatLng } from '../utils/geo';
+import { forgetGeocodeQueries } from '../utils/geocoding';
+import { forgetOverpassQueries } from '../utils/overpassCache';
+import { pushSearchHistory } from '../utils/searchHistory';
+import type { SearchHistoryResult } from '../utils/searchHistory';
+
+export const useSearchHistory = () => {
+  const [entries, setEntries] = useRecoilState(searchHistoryState);
+  const [enabled, setEnabledState] = useRecoilState(searchHistoryEnabledState);
+
+  const record = useCallback(
+    (query: string, result: SearchHistoryResult | null, near?: LatLng) => {
+      const q = query.trim();
+      if (!enabled || !q) return;
+      const now = Date.now();
+      setEntries((prev) =>
+        pushSearchHistory(prev, { id: `${now.toString(36)}-${prev.length}`, query: q, result, near, searchedAt: now })
+      );
+    },
+    [enabled, setEntries]
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      setEntries((prev) => prev.filter((e) => e.id !== id));
+    },
+    [setEntries]
+  );
+
+  const clear = useCallback(() => setEntries([]), [setEntries]);
+
+  const setEnabled = useCallback(
+    (on: boolean) => {
+      setEnabledState(on);
+      if (on) return;
+      setEntries([]);
+      // Response caches are keyed by the query text too.
+      forgetGeocodeQueries().catch(() => undefined);
+      forgetOverpassQueries().catch(() => undefined);
+    },
+    [setEnabledState, setEntries]
+  );
+
+  return { entries, enabled, record, remove, clear, setEnabled };
+};
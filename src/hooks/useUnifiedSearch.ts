@@ -0,0 +1,52 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useRecoilValue } from 'recoil';
+import { savedPlacesState, searchHistoryState } from '../state/places';
+import type { LatLng } from '../utils/geo';
+import { groupResults, searchLocal, searchPlaces } from '../utils/search';
+import type { UnifiedResult } from '../utils/search';
+
+/**
+ * Grouped results for the global search box. Local matches update on every
+ * keystroke; geocoder matches follow after a short pause. `near` is rounded to
+ * ~1 km so GPS jitter doesn't re-query.
+ */
+export const useUnifiedSearch = (query: string, { near }: { near?: LatLng | null } = {}) => {
+  const saved = useRecoilValue(savedPlacesState);
+  const history = useRecoilValue(searchHistoryState);
+  const q = query.trim();
+  const nearLat = near ? Number(near.lat.toFixed(2)) : null;
+  const nearLng = near ? Number(near.lng.toFixed(2)) : null;
+
+  // Remote results are tagged with their query; loading lasts until the current query has its own.
+  const [remote, setRemote] = useState<{ query: string; results: UnifiedResult[] }>({ query: '', results: [] });
+
+  const local = useMemo(() => (q ? searchLocal(q, { saved, history }) : []), [q, saved, history]);
+
+  useEffect(() => {
+    if (q.length < 3) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const near = nearLat != null && nearLng != null ? { lat: nearLat, lng: nearLng } : undefined;
+        const results = await searchPlaces(q, { near, signal: controller.signal });
+        if (!controller.signal.aborted) setRemote({ query: q, results });
+      } catch {
+        // Offline or geocoder unavailable: local results still show.
+        if (!controller.signal.aborted) setRemote({ query: q, results: [] });
+      }
+    }, 350);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [q, nearLat, nearLng]);
+
+  const sections = useMemo(
+    () => groupResults(remote.query === q ? [...local, ...remote.results] : local),
+    [local, remote, q]
+  );
+
+  return { sections, loading: q.length >= 3 && remote.query !== q };
+};
@@ -0,0 +1,67 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { LatLngBounds } from '../utils/geo';
+import { MAP_CATEGORY_KINDS } from '../utils/mapCategories';
+import type { MapCategory } from '../utils/mapCategories';
+import { searchPlacesInBounds } from '../utils/places';
+import type { NormalizedPlace, PlaceKind } from '../utils/places';
+
+// Below this zoom the viewport covers too much ground for a single Overpass query.
+export const MIN_POI_ZOOM = 13;
+const DEBOUNCE_MS = 400;
+const VIEWPORT_LIMIT = 150;
+
+/**
+ * Places in the visible map area for the checked filter categories, or for
+ * `kinds` when given (e.g. /map?kind=hotel, which no category covers).
+ */
+export const useViewportPlaces = ({
+  bounds,
+  zoom,
+  categories,
+  kinds: explicitKinds,
+}: {
+  bounds: LatLngBounds | null;
+  zoom: number;
+  categories: MapCategory[];
+  kinds?: PlaceKind[];
+}) => {
+  const [places, setPlaces] = useState<NormalizedPlace[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const kindsKey = (explicitKinds ?? categories.flatMap((c) => MAP_CATEGORY_KINDS[c])).join(',');
+  const kinds = useMemo(() => (kindsKey ? (kindsKey.split(',') as PlaceKind[]) : []), [kindsKey]);
+  const tooWide = zoom < MIN_POI_ZOOM;
+  const idle = !bounds || tooWide || kinds.length === 0;
+
+  useEffect(() => {
+    if (!bounds || idle) return;
+
+    // Debounce pans/zooms and cancel whatever the previous viewport started.
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const results = await searchPlacesInBounds(bounds, {
+          kinds,
+          limit: VIEWPORT_LIMIT,
+          signal: controller.signal,
+        });
+        setPlaces(results);
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        setError(e instanceof Error ? e.message : 'Failed to load places for this area');
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [bounds, idle, kinds]);
+
+  return { places: kinds.length === 0 ? [] : places, loading: loading && !idle, error, tooWide };
+};
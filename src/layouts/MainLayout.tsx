@@ -1,13 +1,18 @@
 import React, { useState } from 'react';
 import type { ReactNode } from 'react';
 import { Outlet, useLocation, Link, useNavigate } from 'react-router-dom';
-import { FiHome, FiMap, FiCoffee, FiNavigation, FiTruck, FiMessageCircle, FiAlertTriangle } from 'react-icons/fi';
+import { FiHome, FiMap, FiCoffee, FiNavigation, FiTruck, FiMessageCircle, FiAlertTriangle, FiWifiOff } from 'react-icons/fi';
 import { motion, AnimatePresence } from 'framer-motion';
+import LocationDevPanel from '../components/dev/LocationDevPanel';
+import { devToolsEnabled } from '../utils/devTools';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { getCurrentFix } from '../utils/location';
 
 const MainLayout: React.FC<{ children?: ReactNode }> = ({ children }) => {
   const location = useLocation();
   const navigate = useNavigate();
   const [isEmergencyOpen, setIsEmergencyOpen] = useState(false);
+  const online = useOnlineStatus();
 
   const navItems = [
     { path: '/', icon: <FiHome size={20} />, label: 'Home' },
@@ -24,6 +29,19 @@ const MainLayout: React.FC<{ children?: ReactNode }> = ({ children }) => {
 
   return (
     <div className="flex flex-col min-h-screen bg-primary-950 text-white">
+      {!online && (
+        <div
+          role="status"
+          className="sticky top-0 z-[55] flex items-center justify-center gap-2 bg-accent-600 text-black text-sm font-medium px-4 py-1.5"
+        >
+          <FiWifiOff />
+          You're offline. Showing saved maps and places.
+          <Link to="/offline" className="underline">
+            Downloads
+          </Link>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 overflow-y-auto pb-16">
         <AnimatePresence mode="wait">
@@ -40,6 +58,8 @@ const MainLayout: React.FC<{ children?: ReactNode }> = ({ children }) => {
         </AnimatePresence>
       </main>
 
+      {devToolsEnabled() && <LocationDevPanel />}
+
       {/* Bottom Navigation */}
       <nav className="fixed bottom-0 left-0 right-0 bg-secondary border-t border-primary-800 z-50">
         <div className="flex justify-around items-center h-16">
@@ -113,17 +133,7 @@ const MainLayout: React.FC<{ children?: ReactNode }> = ({ children }) => {
                   type="button"
                   onClick={async () => {
                     try {
-                      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-                        if (!navigator.geolocation) reject(new Error('Geolocation not supported'));
-                        navigator.geolocation.getCurrentPosition(resolve, reject, {
-                          enableHighAccuracy: false,
-                          timeout: 8000,
-                          maximumAge: 60_000,
-                        });
-                      });
-
-                      const lat = position.coords.latitude;
-                      const lng = position.coords.longitude;
+                      const { lat, lng } = await getCurrentFix({ timeoutMs: 8000, maxAgeMs: 60_000 });
                       const text = `My location: https://www.openstreetmap.org/?mlat=${lat}&mlon=${lng}#map=18/${lat}/${lng}`;
 
                       if (navigator.share) {
@@ -1,8 +1,11 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { FiArrowLeft, FiBell, FiMapPin, FiSend, FiTrash2 } from 'react-icons/fi';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 
 import { useGeolocation } from '../hooks/useGeolocation';
+import { useReverseGeocode } from '../hooks/useReverseGeocode';
+import { geocode } from '../utils/geocoding';
+import { watchFix } from '../utils/location';
 
 type ChatMsg = {
   id: string;
@@ -50,27 +53,17 @@ const extractPlaceQuery = (text: string) => {
   return text.replace(/^(alert|notify|remind)\b/i, '').trim() || 'destination';
 };
 
-const geocodeNominatim = async (q: string) => {
-  const url = `https://nominatim.openstreetmap.org/search?format=jsonv2&limit=1&q=${encodeURIComponent(q)}`;
-  const res = await fetch(url, {
-    headers: {
-      // Nominatim requires identifying UA; browser limits this header, but setting Accept is ok.
-      Accept: 'application/json',
-    },
-  });
-  if (!res.ok) throw new Error(`Geocoding failed: ${res.status}`);
-  const data = (await res.json()) as Array<{ lat: string; lon: string; display_name: string }>;
-  if (!data.length) throw new Error('No results found');
-  return {
-    lat: Number(data[0].lat),
-    lng: Number(data[0].lon),
-    label: data[0].display_name,
-  };
+const geocodePlace = async (q: string) => {
+  const [first] = await geocode(q, { limit: 1 });
+  if (!first) throw new Error('No results found');
+  return first;
 };
 
 const AssistantPage: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { location, loading: locationLoading, error: locationError, getCurrentLocation } = useGeolocation();
+  const { label: locationLabel } = useReverseGeocode(location, { precision: 3 });
 
   const [messages, setMessages] = useState<ChatMsg[]>([
     {
@@ -84,7 +77,8 @@ const AssistantPage: React.FC = () => {
   const [alerts, setAlerts] = useState<GeofenceAlert[]>([]);
   const [busy, setBusy] = useState(false);
 
-  const watchIdRef = useRef<number | null>(null);
+  const stopWatchRef = useRef<(() => void) | null>(null);
+  const handedOverRef = useRef<string | null>(null);
 
   useEffect(() => {
     getCurrentLocation();
@@ -92,14 +86,10 @@ const AssistantPage: React.FC = () => {
 
   useEffect(() => {
     // Start watching location for alerts
-    if (!navigator.geolocation) return;
-    if (watchIdRef.current != null) return;
-
-    watchIdRef.current = navigator.geolocation.watchPosition(
-      (pos) => {
-        const lat = pos.coords.latitude;
-        const lng = pos.coords.longitude;
+    if (stopWatchRef.current) return;
 
+    stopWatchRef.current = watchFix(
+      ({ lat, lng }) => {
         setAlerts((prev) =>
           prev.map((a) => {
             if (!a.active || a.triggered) return a;
@@ -128,17 +118,15 @@ const AssistantPage: React.FC = () => {
         // ignore here; UI shows locationError from hook
       },
       {
-        enableHighAccuracy: false,
-        maximumAge: 60_000,
-        timeout: 8000,
+        highAccuracy: false,
+        maxAgeMs: 60_000,
+        timeoutMs: 8000,
       }
     );
 
     return () => {
-      if (watchIdRef.current != null) {
-        navigator.geolocation.clearWatch(watchIdRef.current);
-        watchIdRef.current = null;
-      }
+      stopWatchRef.current?.();
+      stopWatchRef.current = null;
     };
   }, []);
 
@@ -151,6 +139,45 @@ const AssistantPage: React.FC = () => {
     await Notification.requestPermission();
   };
 
+  // Other pages hand over a place via ?alertLat=&alertLng=&alertLabel= (e.g. a dropped pin on the map).
+  useEffect(() => {
+    const lat = Number(searchParams.get('alertLat'));
+    const lng = Number(searchParams.get('alertLng'));
+    if (!searchParams.has('alertLat') || !Number.isFinite(lat) || !Number.isFinite(lng)) return;
+    // StrictMode runs this twice before the params are cleared.
+    const key = searchParams.toString();
+    if (handedOverRef.current === key) return;
+    handedOverRef.current = key;
+
+    const label = searchParams.get('alertLabel')?.trim() || `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+    const radius = 500;
+    setAlerts((prev) => [
+      { id: `${Date.now()}-g`, label, lat, lng, radiusMeters: radius, active: true, triggered: false },
+      ...prev,
+    ]);
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: `${Date.now()}-a2`,
+        role: 'assistant',
+        text: `Alert set. I will notify you when you are within ${radius}m of: ${label}.`,
+        createdAt: Date.now(),
+      },
+    ]);
+    requestNotificationPermission().catch(() => undefined);
+
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        next.delete('alertLat');
+        next.delete('alertLng');
+        next.delete('alertLabel');
+        return next;
+      },
+      { replace: true }
+    );
+  }, [searchParams, setSearchParams]);
+
   const handleSend = async () => {
     const text = input.trim();
     if (!text) return;
@@ -193,7 +220,7 @@ const AssistantPage: React.FC = () => {
         },
       ]);
 
-      const geo = await geocodeNominatim(query);
+      const geo = await geocodePlace(query);
       const alert: GeofenceAlert = {
         id: `${Date.now()}-g`,
         label: geo.label,
@@ -275,7 +302,9 @@ const AssistantPage: React.FC = () => {
           {!locationLoading && location && (
             <div className="text-sm text-gray-400 flex items-center gap-2">
               <FiMapPin />
-              {location.lat.toFixed(4)}, {location.lng.toFixed(4)}
+              <span className="truncate" title={`${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}`}>
+                {locationLabel ?? `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`}
+              </span>
             </div>
           )}
         </div>
@@ -1,8 +1,11 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { FiArrowLeft, FiMapPin, FiNavigation } from 'react-icons/fi';
+import { FiArrowLeft, FiNavigation } from 'react-icons/fi';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useGeolocation } from '../hooks/useGeolocation';
-import { fetchNearbyOsmPlaces } from '../utils/osm';
+import LocationStatus from '../components/location/LocationStatus';
+import { suggestPlaces } from '../utils/geocoding';
+import { searchNearbyPlaces } from '../utils/places';
+import type { NormalizedPlace } from '../utils/places';
 
 type BusStep = {
   title: string;
@@ -22,26 +25,14 @@ type Suggestion = {
   lng: number;
 };
 
-const fetchSuggestionsInIndia = async (q: string): Promise<Suggestion[]> => {
-  const url = `https://nominatim.openstreetmap.org/search?format=jsonv2&limit=10&countrycodes=in&q=${encodeURIComponent(q)}`;
-  const res = await fetch(url, { headers: { Accept: 'application/json' } });
-  if (!res.ok) return [];
-  const data = (await res.json()) as Array<{ place_id: number; lat: string; lon: string; display_name: string }>;
-  return data
-    .map((d) => ({
-      id: String(d.place_id),
-      label: d.display_name,
-      lat: Number(d.lat),
-      lng: Number(d.lon),
-    }))
-    .filter((d) => Number.isFinite(d.lat) && Number.isFinite(d.lng));
-};
+const fetchSuggestionsInIndia = (q: string, signal?: AbortSignal): Promise<Suggestion[]> =>
+  suggestPlaces(q, { limit: 10, countryCodes: ['in'], signal }).catch(() => []);
 
 const BusPage: React.FC = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
 
-  const { location, loading: locationLoading, error: locationError, getCurrentLocation } = useGeolocation();
+  const { location, getCurrentLocation } = useGeolocation();
 
   const [fromQuery, setFromQuery] = useState('');
   const [toQuery, setToQuery] = useState('');
@@ -55,7 +46,7 @@ const BusPage: React.FC = () => {
 
   const [loadingStands, setLoadingStands] = useState(false);
   const [standsError, setStandsError] = useState<string | null>(null);
-  const [fromBusStands, setFromBusStands] = useState<Awaited<ReturnType<typeof fetchNearbyOsmPlaces>>>([]);
+  const [fromBusStands, setFromBusStands] = useState<NormalizedPlace[]>([]);
 
   const [showRoute, setShowRoute] = useState(false);
   const [routeUiError, setRouteUiError] = useState<string | null>(null);
@@ -86,12 +77,16 @@ const BusPage: React.FC = () => {
       return;
     }
 
+    const controller = new AbortController();
     const timer = setTimeout(async () => {
-      const items = await fetchSuggestionsInIndia(q);
-      setFromSuggestions(items);
+      const items = await fetchSuggestionsInIndia(q, controller.signal);
+      if (!controller.signal.aborted) setFromSuggestions(items);
     }, 350);
 
-    return () => clearTimeout(timer);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
   }, [fromQuery]);
 
   useEffect(() => {
@@ -101,12 +96,16 @@ const BusPage: React.FC = () => {
       return;
     }
 
+    const controller = new AbortController();
     const timer = setTimeout(async () => {
-      const items = await fetchSuggestionsInIndia(q);
-      setToSuggestions(items);
+      const items = await fetchSuggestionsInIndia(q, controller.signal);
+      if (!controller.signal.aborted) setToSuggestions(items);
     }, 350);
 
-    return () => clearTimeout(timer);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
   }, [toQuery]);
 
   useEffect(() => {
@@ -115,7 +114,7 @@ const BusPage: React.FC = () => {
 
     setLoadingStands(true);
     setStandsError(null);
-    fetchNearbyOsmPlaces(
+    searchNearbyPlaces(
       { lat: from.lat, lng: from.lng },
       {
         radiusMeters: 8000,
@@ -198,27 +197,7 @@ const BusPage: React.FC = () => {
         <p className="text-gray-300 mt-1">Bus / Route Helper</p>
 
         <div className="mt-4">
-          {locationLoading && <div className="text-gray-300">Getting your location…</div>}
-          {!locationLoading && locationError && (
-            <div className="bg-destructive/20 border border-destructive/40 rounded-xl p-4">
-              <div className="font-semibold">Location error</div>
-              <div className="text-gray-200 mt-1">{locationError}</div>
-              <button
-                type="button"
-                onClick={getCurrentLocation}
-                className="mt-3 px-4 py-2 rounded-lg bg-primary-800 hover:bg-primary-700"
-              >
-                Try again
-              </button>
-            </div>
-          )}
-
-          {!locationLoading && location && (
-            <div className="text-sm text-gray-400 flex items-center gap-2">
-              <FiMapPin />
-              {location.lat.toFixed(4)}, {location.lng.toFixed(4)}
-            </div>
-          )}
+          <LocationStatus />
         </div>
 
         <div className="mt-6 bg-secondary border border-primary-800 rounded-2xl p-4">
@@ -1,25 +1,28 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { FiAlertTriangle, FiArrowLeft, FiMapPin, FiNavigation, FiRefreshCw } from 'react-icons/fi';
+import { FiAlertTriangle, FiArrowLeft, FiNavigation, FiPhone, FiRefreshCw } from 'react-icons/fi';
 import { useNavigate } from 'react-router-dom';
 
 import { useGeolocation } from '../hooks/useGeolocation';
+import LocationStatus from '../components/location/LocationStatus';
+import OpeningHoursBadge from '../components/ui/OpeningHoursBadge';
 import { calculateDistance } from '../utils/googleMaps';
-import { fetchNearbyOsmPlaces } from '../utils/osm';
+import { enrichPlace } from '../utils/placeEnrichment';
+import { searchNearbyPlaces } from '../utils/places';
+import type { NormalizedPlace } from '../utils/places';
 
 const EmergencyPage: React.FC = () => {
   const navigate = useNavigate();
 
   const {
     location,
-    error: locationError,
     loading: locationLoading,
     getCurrentLocation,
   } = useGeolocation();
 
   const [loadingPlaces, setLoadingPlaces] = useState(false);
   const [placesError, setPlacesError] = useState<string | null>(null);
-  const [hospitals, setHospitals] = useState<Awaited<ReturnType<typeof fetchNearbyOsmPlaces>>>([]);
-  const [police, setPolice] = useState<Awaited<ReturnType<typeof fetchNearbyOsmPlaces>>>([]);
+  const [hospitals, setHospitals] = useState<NormalizedPlace[]>([]);
+  const [police, setPolice] = useState<NormalizedPlace[]>([]);
 
   const fetchEmergencyPlaces = async () => {
     if (!location) return;
@@ -27,8 +30,8 @@ const EmergencyPage: React.FC = () => {
     setPlacesError(null);
     try {
       const [h, p] = await Promise.all([
-        fetchNearbyOsmPlaces({ lat: location.lat, lng: location.lng }, { radiusMeters: 8000, kinds: ['hospital'], limit: 10 }),
-        fetchNearbyOsmPlaces({ lat: location.lat, lng: location.lng }, { radiusMeters: 8000, kinds: ['police'], limit: 10 }),
+        searchNearbyPlaces({ lat: location.lat, lng: location.lng }, { radiusMeters: 8000, kinds: ['hospital'], limit: 10 }),
+        searchNearbyPlaces({ lat: location.lat, lng: location.lng }, { radiusMeters: 8000, kinds: ['police'], limit: 10 }),
       ]);
       setHospitals(h);
       setPolice(p);
@@ -54,7 +57,7 @@ const EmergencyPage: React.FC = () => {
     if (!location) return [];
     return hospitals
       .map((place) => ({
-        place,
+        place: enrichPlace(place),
         distanceKm: calculateDistance(location.lat, location.lng, place.lat, place.lng),
       }))
       .sort((a, b) => Number(a.distanceKm) - Number(b.distanceKm));
@@ -64,7 +67,7 @@ const EmergencyPage: React.FC = () => {
     if (!location) return [];
     return police
       .map((place) => ({
-        place,
+        place: enrichPlace(place),
         distanceKm: calculateDistance(location.lat, location.lng, place.lat, place.lng),
       }))
       .sort((a, b) => Number(a.distanceKm) - Number(b.distanceKm));
@@ -112,26 +115,7 @@ const EmergencyPage: React.FC = () => {
         </div>
 
         <div className="mt-4">
-          {locationLoading && <div className="text-gray-300">Getting your location…</div>}
-          {!locationLoading && locationError && (
-            <div className="bg-destructive/20 border border-destructive/40 rounded-xl p-4">
-              <div className="font-semibold">Location error</div>
-              <div className="text-gray-200 mt-1">{locationError}</div>
-              <button
-                type="button"
-                onClick={getCurrentLocation}
-                className="mt-3 px-4 py-2 rounded-lg bg-primary-800 hover:bg-primary-700"
-              >
-                Try again
-              </button>
-            </div>
-          )}
-          {!locationLoading && location && (
-            <div className="text-sm text-gray-400 flex items-center gap-2">
-              <FiMapPin />
-              {location.lat.toFixed(4)}, {location.lng.toFixed(4)}
-            </div>
-          )}
+          <LocationStatus />
           {placesError && (
             <div className="bg-destructive/20 border border-destructive/40 rounded-xl p-4 mt-4">
               <div className="font-semibold">Places error</div>
@@ -159,17 +143,29 @@ const EmergencyPage: React.FC = () => {
                     <div>
                       <div className="font-medium">{place.name}</div>
                       <div className="text-xs text-gray-400 mt-1">{place.address || ' '}</div>
+                      <OpeningHoursBadge hours={place.openingHours} className="text-xs mt-1" />
                     </div>
                     <div className="text-xs text-gray-300 whitespace-nowrap">{distanceKm} km</div>
                   </div>
-                  <button
-                    type="button"
-                    onClick={() => onDirections(place.lat, place.lng)}
-                    className="mt-3 w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-primary-800 hover:bg-primary-700"
-                  >
-                    <FiNavigation />
-                    Directions
-                  </button>
+                  <div className="mt-3 flex gap-2">
+                    {place.phone && (
+                      <a
+                        href={`tel:${place.phone.tel}`}
+                        className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-red-900 hover:bg-red-800"
+                      >
+                        <FiPhone />
+                        Call
+                      </a>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => onDirections(place.lat, place.lng)}
+                      className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-primary-800 hover:bg-primary-700"
+                    >
+                      <FiNavigation />
+                      Directions
+                    </button>
+                  </div>
                 </div>
               ))}
             </div>
@@ -193,17 +189,29 @@ const EmergencyPage: React.FC = () => {
                     <div>
                       <div className="font-medium">{place.name}</div>
                       <div className="text-xs text-gray-400 mt-1">{place.address || ' '}</div>
+                      <OpeningHoursBadge hours={place.openingHours} className="text-xs mt-1" />
                     </div>
                     <div className="text-xs text-gray-300 whitespace-nowrap">{distanceKm} km</div>
                   </div>
-                  <button
-                    type="button"
-                    onClick={() => onDirections(place.lat, place.lng)}
-                    className="mt-3 w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-primary-800 hover:bg-primary-700"
-                  >
-                    <FiNavigation />
-                    Directions
-                  </button>
+                  <div className="mt-3 flex gap-2">
+                    {place.phone && (
+                      <a
+                        href={`tel:${place.phone.tel}`}
+                        className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-red-900 hover:bg-red-800"
+                      >
+                        <FiPhone />
+                        Call
+                      </a>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => onDirections(place.lat, place.lng)}
+                      className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-primary-800 hover:bg-primary-700"
+                    >
+                      <FiNavigation />
+                      Directions
+                    </button>
+                  </div>
                 </div>
               ))}
             </div>
@@ -1,16 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { FiMap, FiCoffee, FiNavigation, FiAlertTriangle, FiSearch, FiMapPin, FiClock } from 'react-icons/fi';
+import { FiMap, FiCoffee, FiNavigation, FiAlertTriangle, FiSearch, FiMapPin, FiClock, FiX } from 'react-icons/fi';
 import { motion } from 'framer-motion';
 import { useRecoilValue } from 'recoil';
-import { recentSearchesState, savedPlacesState } from '../state/places';
+import GlobalSearch from '../components/search/GlobalSearch';
+import { savedPlacesState } from '../state/places';
+import { useSearchHistory } from '../hooks/useSearchHistory';
+import { formatAge } from '../utils/format';
+import { mapFocusUrl, mapSearchUrl } from '../utils/mapLinks';
 
 const HomePage: React.FC = () => {
-  const [searchQuery, setSearchQuery] = useState('');
   const [currentTime, setCurrentTime] = useState(new Date());
   const [greeting, setGreeting] = useState('');
 
-  const recentSearches = useRecoilValue(recentSearchesState);
+  const searchHistory = useSearchHistory();
   const savedPlaces = useRecoilValue(savedPlacesState);
 
   // Update time and greeting every minute
@@ -76,16 +79,7 @@ const HomePage: React.FC = () => {
           </div>
           
           {/* Search bar */}
-          <div className="relative">
-            <input
-              type="text"
-              placeholder="Search for places, restaurants, or landmarks..."
-              className="w-full bg-black/80 text-white placeholder-gray-400 rounded-lg py-3 pl-12 pr-4 focus:outline-none focus:ring-2 focus:ring-accent-500"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-            />
-            <FiSearch className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400" />
-          </div>
+          <GlobalSearch />
         </header>
 
       {/* Quick Actions */}
@@ -121,12 +115,19 @@ const HomePage: React.FC = () => {
 
       {/* Saved Places */}
       <section className="mb-8">
-        <h2 className="text-lg font-semibold text-yellow-600">Saved Places</h2>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-yellow-600">Saved Places</h2>
+          {savedPlaces.length > 0 && (
+            <Link to="/saved" className="text-sm text-yellow-400 hover:text-yellow-600">
+              See all ({savedPlaces.length})
+            </Link>
+          )}
+        </div>
         {savedPlaces.length === 0 ? (
           <p className="text-yellow-700 text-center">No saved places yet. Open Map and tap “Save for Later”.</p>
         ) : (
           <div className="space-y-3">
-            {savedPlaces.map((place) => (
+            {savedPlaces.slice(0, 5).map((place) => (
               <motion.div
                 key={place.id}
                 whileTap={{ scale: 0.98 }}
@@ -139,7 +140,11 @@ const HomePage: React.FC = () => {
                   <h3 className="font-medium text-yellow-600">{place.name}</h3>
                   <p className="text-xs text-yellow-400">{place.type}</p>
                 </div>
-                <Link to="/map" className="text-yellow-400 hover:text-yellow-600">
+                <Link
+                  to={mapFocusUrl(place)}
+                  className="text-yellow-400 hover:text-yellow-600"
+                  aria-label={`Show ${place.name} on the map`}
+                >
                   <FiNavigation className="transform rotate-45" />
                 </Link>
               </motion.div>
@@ -150,27 +155,66 @@ const HomePage: React.FC = () => {
 
       {/* Recent Searches */}
       <section>
-        <h2 className="text-lg font-semibold text-yellow-600">Recent Searches</h2>
-        {recentSearches.length === 0 ? (
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-yellow-600">Recent Searches</h2>
+          <div className="flex items-center gap-3 text-sm">
+            {searchHistory.entries.length > 0 && (
+              <button
+                type="button"
+                onClick={() => {
+                  if (window.confirm('Clear your search history?')) searchHistory.clear();
+                }}
+                className="text-yellow-400 hover:text-yellow-600"
+              >
+                Clear all
+              </button>
+            )}
+            <label className="inline-flex items-center gap-1 text-yellow-400">
+              <input
+                type="checkbox"
+                checked={searchHistory.enabled}
+                onChange={(e) => searchHistory.setEnabled(e.target.checked)}
+                className="rounded text-accent-500 focus:ring-accent-500"
+              />
+              Keep history
+            </label>
+          </div>
+        </div>
+        {!searchHistory.enabled ? (
+          <p className="text-yellow-700 text-center">Search history is off. Searches aren't stored on this device.</p>
+        ) : searchHistory.entries.length === 0 ? (
           <p className="text-yellow-700 text-center">No recent searches yet. Search something in the Map page.</p>
         ) : (
           <div className="space-y-3">
-            {recentSearches.map((s) => (
+            {searchHistory.entries.slice(0, 10).map((s) => (
               <motion.div
                 key={s.id}
                 whileTap={{ scale: 0.98 }}
                 className="flex items-center bg-primary-800 p-3 rounded-xl"
               >
-                <div className="bg-accent-500/20 p-2 rounded-lg mr-3">
-                  <FiSearch className="text-accent-500" />
-                </div>
-                <div className="flex-1">
-                  <h3 className="font-medium text-yellow-600">{s.query}</h3>
-                  <p className="text-xs text-yellow-400">Searched recently</p>
-                </div>
-                <Link to="/map" className="text-yellow-400 hover:text-yellow-600">
-                  <FiNavigation className="transform rotate-45" />
+                <Link
+                  to={s.result ? mapFocusUrl({ ...s.result, name: s.result.label }) : mapSearchUrl(s.query, s.near)}
+                  className="flex items-center flex-1 min-w-0"
+                >
+                  <div className="bg-accent-500/20 p-2 rounded-lg mr-3">
+                    <FiSearch className="text-accent-500" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-medium text-yellow-600 truncate">{s.query}</h3>
+                    <p className="text-xs text-yellow-400 truncate">
+                      {s.result && s.result.label !== s.query ? `${s.result.label} · ` : !s.result ? 'No result · ' : ''}
+                      {formatAge(s.searchedAt)}
+                    </p>
+                  </div>
                 </Link>
+                <button
+                  type="button"
+                  onClick={() => searchHistory.remove(s.id)}
+                  className="ml-2 p-1 text-yellow-400 hover:text-yellow-600"
+                  aria-label={`Remove ${s.query} from history`}
+                >
+                  <FiX />
+                </button>
               </motion.div>
             ))}
           </div>
@@ -1,40 +1,87 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { FiSearch, FiNavigation, FiInfo, FiStar, FiClock } from 'react-icons/fi';
+import { FiSearch, FiNavigation, FiInfo, FiClock, FiLoader, FiTruck, FiUser, FiActivity, FiPlus, FiBell, FiMapPin, FiDownload, FiX } from 'react-icons/fi';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useSetRecoilState } from 'recoil';
-import { recentSearchesState, savedPlacesState } from '../state/places';
-import { useSearchParams } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import toast from 'react-hot-toast';
-
-// Fix for default marker icons in React Leaflet
-const defaultIcon = new L.Icon({
-  iconUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon.png',
-  iconRetinaUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon-2x.png',
-  shadowUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-shadow.png',
-  iconSize: [25, 41],
-  iconAnchor: [12, 41],
-  popupAnchor: [1, -34],
-  shadowSize: [41, 41],
-});
+import type { LatLng, LatLngBounds } from '../utils/geo';
+import { FOCUS_PARAM, KIND_PARAM, SEARCH_PARAM, parseFocusParam, parseKindParam, parseNearParam } from '../utils/mapLinks';
+import { geocode, suggestPlaces } from '../utils/geocoding';
+import { mapCategoryForKind } from '../utils/mapCategories';
+import type { MapCategory } from '../utils/mapCategories';
+import { OSM_PRESETS } from '../utils/overpassPresets';
+import type { NormalizedPlace } from '../utils/places';
+import { enrichPlace } from '../utils/placeEnrichment';
+import { useViewportPlaces } from '../hooks/useViewportPlaces';
+import { useNavigation } from '../hooks/useNavigation';
+import { useGeolocation } from '../hooks/useGeolocation';
+import { useReverseGeocode } from '../hooks/useReverseGeocode';
+import { useSavedPlaces } from '../hooks/useSavedPlaces';
+import { useSearchHistory } from '../hooks/useSearchHistory';
+import ClusterLayer from '../components/map/ClusterLayer';
+import { coloredMarkerIcon } from '../components/map/markerIcons';
+import type { MarkerColor } from '../components/map/markerIcons';
+import { fetchRoute, fetchRouteAlternatives, fetchRouteMatrix, isTravelMode, mainRoads } from '../utils/routing';
+import type { Route, TravelMode } from '../utils/routing';
+import { formatClockTime, formatDistance, formatDuration } from '../utils/format';
+import {
+  MAX_ITINERARY_STOPS,
+  STOP_PARAM,
+  decodeStops,
+  optimizeStopOrder,
+  stopsToSearchParams,
+} from '../utils/itinerary';
+import type { ItineraryStop } from '../utils/itinerary';
+import ItineraryOverlay from '../components/map/ItineraryOverlay';
+import ItineraryPanel from '../components/map/ItineraryPanel';
+import OfflineRegionPanel from '../components/map/OfflineRegionPanel';
 
 // Custom hook to handle map events
-const MapEvents = ({ onMoveEnd }: { onMoveEnd: (lat: number, lng: number) => void }) => {
+const MapEvents = ({
+  onMoveEnd,
+  onLongPress,
+}: {
+  onMoveEnd: (map: L.Map) => void;
+  onLongPress: (latlng: L.LatLng) => void;
+}) => {
   const map = useMapEvents({
-    moveend: () => {
-      const center = map.getCenter();
-      onMoveEnd(center.lat, center.lng);
-    },
+    moveend: () => onMoveEnd(map),
+    // Leaflet reports a touch long-press (and a right click) as contextmenu.
+    contextmenu: (e) => onLongPress(e.latlng),
   });
+
+  // Report the initial viewport too, so POIs load before the first pan.
+  useEffect(() => {
+    map.whenReady(() => onMoveEnd(map));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [map]);
+
   return null;
 };
 
+const kindLabel = (place: NormalizedPlace) => (place.kind ? OSM_PRESETS[place.kind].label : 'Place');
+
+const modeOptions: Array<{ mode: TravelMode; label: string; icon: React.ReactNode }> = [
+  { mode: 'drive', label: 'Drive', icon: <FiTruck /> },
+  { mode: 'walk', label: 'Walk', icon: <FiUser /> },
+  { mode: 'cycle', label: 'Cycle', icon: <FiActivity /> },
+];
+
+const markerColors: Record<MapCategory, MarkerColor> = {
+  attractions: 'green',
+  food: 'red',
+  shopping: 'orange',
+  services: 'blue',
+};
+
 // Component to handle map view changes
 const ChangeView = ({ center, zoom }: { center: [number, number]; zoom: number }) => {
   const map = useMap();
   useEffect(() => {
+    // setView fires moveend even when nothing moves, which would feed back into MapEvents.
+    if (map.getZoom() === zoom && map.getCenter().equals(center)) return;
     map.setView(center, zoom);
   }, [map, center, zoom]);
   return null;
@@ -44,15 +91,34 @@ const RouteOverlay = ({
   route,
   origin,
   destination,
+  alternatives,
+  onSelectAlternative,
+  highlight,
+  autoFit,
 }: {
   route: [number, number][] | null;
   origin: [number, number] | null;
   destination: [number, number] | null;
+  alternatives: Array<{ index: number; geometry: [number, number][] }>;
+  onSelectAlternative: (index: number) => void;
+  highlight: [number, number][] | null;
+  // Off while navigating, when the map follows the user instead.
+  autoFit: boolean;
 }) => {
   const map = useMap();
 
   useEffect(() => {
-    if (!origin || !destination) return;
+    if (!highlight || highlight.length === 0) return;
+    try {
+      if (highlight.length === 1) map.setView(highlight[0], Math.max(map.getZoom(), 17), { animate: false });
+      else map.fitBounds(L.latLngBounds(highlight).pad(0.5), { animate: false, maxZoom: 18 });
+    } catch {
+      // ignore
+    }
+  }, [map, highlight]);
+
+  useEffect(() => {
+    if (!origin || !destination || !autoFit) return;
     let cancelled = false;
 
     const run = () => {
@@ -76,7 +142,7 @@ const RouteOverlay = ({
     return () => {
       cancelled = true;
     };
-  }, [map, origin, destination]);
+  }, [map, origin, destination, autoFit]);
 
   return (
     <>
@@ -90,74 +156,35 @@ const RouteOverlay = ({
           <Popup>Destination</Popup>
         </Marker>
       )}
+      {alternatives.map((alt) => (
+        <Polyline
+          key={alt.index}
+          positions={alt.geometry}
+          pathOptions={{ color: '#6b7280', weight: 6, opacity: 0.6 }}
+          eventHandlers={{ click: () => onSelectAlternative(alt.index) }}
+        />
+      ))}
       {route && (
         <Polyline positions={route} pathOptions={{ color: '#22c55e', weight: 5, opacity: 0.9 }} />
       )}
+      {highlight && highlight.length > 1 && (
+        <Polyline positions={highlight} pathOptions={{ color: '#f59e0b', weight: 8, opacity: 1 }} />
+      )}
     </>
   );
 };
 
-// Sample data for places
-const places = [
-  {
-    id: 1,
-    name: 'Central Park',
-    type: 'Park',
-    position: [51.505, -0.09] as [number, number],
-    rating: 4.7,
-    description: 'A beautiful park in the heart of the city with walking trails and scenic views.',
-    image: 'https://source.unsplash.com/random/300x200?park',
-    category: 'attraction',
-  },
-  {
-    id: 2,
-    name: 'Downtown Cafe',
-    type: 'Cafe',
-    position: [51.51, -0.1] as [number, number],
-    rating: 4.5,
-    description: 'Cozy cafe serving artisanal coffee and fresh pastries.',
-    image: 'https://source.unsplash.com/random/300x200?cafe',
-    category: 'food',
-  },
-  {
-    id: 3,
-    name: 'City Museum',
-    type: 'Museum',
-    position: [51.5, -0.08] as [number, number],
-    rating: 4.8,
-    description: 'Explore the rich history and culture of our city through fascinating exhibits.',
-    image: 'https://source.unsplash.com/random/300x200?museum',
-    category: 'attraction',
-  },
-  {
-    id: 4,
-    name: 'Riverside Walk',
-    type: 'Scenic Walk',
-    position: [51.495, -0.11] as [number, number],
-    rating: 4.6,
-    description: 'Picturesque walking path along the river with beautiful views.',
-    image: 'https://source.unsplash.com/random/300x200?river',
-    category: 'attraction',
-  },
-  {
-    id: 5,
-    name: 'Local Bistro',
-    type: 'Restaurant',
-    position: [51.515, -0.07] as [number, number],
-    rating: 4.4,
-    description: 'Modern bistro offering locally-sourced ingredients and seasonal dishes.',
-    image: 'https://source.unsplash.com/random/300x200?restaurant',
-    category: 'food',
-  },
-];
+// Legs for the stops (and mode) they were fetched for; null where a leg failed.
+type RoutedTrip = { stops: ItineraryStop[]; mode: TravelMode; legs: (Route | null)[] };
 
 const MapPage: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedPlace, setSelectedPlace] = useState<typeof places[0] | null>(null);
-  const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
+  const [selectedPlace, setSelectedPlace] = useState<NormalizedPlace | null>(null);
   const [mapCenter, setMapCenter] = useState<[number, number]>([51.505, -0.09]);
   const [mapZoom, setMapZoom] = useState(13);
+  const [mapBounds, setMapBounds] = useState<LatLngBounds | null>(null);
+  const [downloadOpen, setDownloadOpen] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState({
     attractions: true,
@@ -170,51 +197,139 @@ const MapPage: React.FC = () => {
 
   const [origin, setOrigin] = useState<[number, number] | null>(null);
   const [destination, setDestination] = useState<[number, number] | null>(null);
-  const [route, setRoute] = useState<[number, number][] | null>(null);
+  const [routes, setRoutes] = useState<Route[]>([]);
   const [routeError, setRouteError] = useState<string | null>(null);
+  const [activeStep, setActiveStep] = useState<number | null>(null);
+  const [showSteps, setShowSteps] = useState(false);
+  const [navigating, setNavigating] = useState(false);
+  // Arrival times are worked out against this rather than the clock at render time.
+  const [now, setNow] = useState(() => Date.now());
+  // Read by the route effect below without refetching when navigation starts or stops.
+  const navigatingRef = useRef(false);
+  useEffect(() => {
+    navigatingRef.current = navigating;
+  }, [navigating]);
+
+  const modeParam = searchParams.get('mode');
+  const mode: TravelMode = isTravelMode(modeParam) ? modeParam : 'drive';
+  const altParam = Number(searchParams.get('alt') ?? 0);
+  const selectedAlt = Number.isInteger(altParam) && altParam > 0 && altParam < routes.length ? altParam : 0;
+  const route = routes[selectedAlt] ?? null;
+  const stopsKey = searchParams.getAll(STOP_PARAM).join('\n');
+  const itineraryStops = useMemo(() => decodeStops(stopsKey ? stopsKey.split('\n') : []), [stopsKey]);
+  const hasItinerary = itineraryStops.length > 0;
+  const [routedTrip, setRoutedTrip] = useState<RoutedTrip | null>(null);
+  const [optimizing, setOptimizing] = useState(false);
 
-  const [suggestions, setSuggestions] = useState<Array<{ id: string; label: string; lat: number; lng: number }>>([]);
+  // Only these params trigger a refetch; switching alternatives reuses the response.
+  const routeParamsKey = ['oLat', 'oLng', 'dLat', 'dLng'].map((k) => searchParams.get(k) ?? '').join('|');
+
+  const [suggestions, setSuggestions] = useState<
+    Array<{ id: string; label: string; lat: number; lng: number; provider: string }>
+  >([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [searchedPlace, setSearchedPlace] = useState<{ label: string; lat: number; lng: number } | null>(null);
+  const [droppedPin, setDroppedPin] = useState<{ lat: number; lng: number } | null>(null);
+  const { label: pinAddress, loading: pinAddressLoading } = useReverseGeocode(droppedPin, { precision: 5 });
 
-  const setRecentSearches = useSetRecoilState(recentSearchesState);
-  const setSavedPlaces = useSetRecoilState(savedPlacesState);
+  const { location: sharedLocation, getCurrentLocation } = useGeolocation();
+  const { record: recordSearch } = useSearchHistory();
+  const { savePlace } = useSavedPlaces();
+  const navigate = useNavigate();
 
   // Get user's current location
   useEffect(() => {
-    if (navigator.geolocation) {
-      // Check if it's the first visit
-      const hasSeenNamaste = localStorage.getItem('hasSeenNamaste');
-      if (!hasSeenNamaste) {
-        toast('🙏 Namaste from India — please allow location');
-        localStorage.setItem('hasSeenNamaste', 'true');
+    // Check if it's the first visit
+    const hasSeenNamaste = localStorage.getItem('hasSeenNamaste');
+    if (!hasSeenNamaste) {
+      toast('🙏 Namaste from India — please allow location');
+      localStorage.setItem('hasSeenNamaste', 'true');
+    }
+    getCurrentLocation();
+  }, [getCurrentLocation]);
+
+  const navActive = navigating && !!origin && !!destination && !hasItinerary;
+  const { state: navState, error: navError } = useNavigation({
+    route,
+    active: navActive,
+    // Follow the user while navigating.
+    onUpdate: (state) => {
+      const at = state.status === 'off-route' ? state.fix : state.snapped.point;
+      setMapCenter([at.lat, at.lng]);
+      setMapZoom((z) => Math.max(z, 17));
+      setNow(Date.now());
+      if (state.status === 'arrived') {
+        toast.success('You have arrived');
+        setNavigating(false);
       }
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const { latitude, longitude } = position.coords;
-          setUserLocation([latitude, longitude]);
-          setMapCenter([latitude, longitude]);
-        },
-        (error) => {
-          console.error('Error getting location:', error);
-        }
-      );
+    },
+    onReroute: (from) => {
+      toast('Off route — finding a new one');
+      setSearchParams((prev) => {
+        const params = new URLSearchParams(prev);
+        params.set('oLat', String(from.lat));
+        params.set('oLng', String(from.lng));
+        params.delete('alt');
+        return params;
+      });
+    },
+  });
+
+  // Navigation's own fixes while it runs, the shared location store otherwise.
+  const userLocation = useMemo<[number, number] | null>(() => {
+    const at = navState?.fix ?? sharedLocation;
+    return at ? [at.lat, at.lng] : null;
+  }, [navState, sharedLocation]);
+
+  // Only the first fix recenters the map, and not once something else has placed it.
+  const [centeredOnUser, setCenteredOnUser] = useState(false);
+  if (sharedLocation && !centeredOnUser) {
+    setCenteredOnUser(true);
+    setMapCenter([sharedLocation.lat, sharedLocation.lng]);
+  }
+
+  // Centre on a place from elsewhere in the app: /map?focus=lat,lng,name
+  const focusParam = searchParams.get(FOCUS_PARAM);
+  const [appliedFocus, setAppliedFocus] = useState<string | null>(null);
+  if (focusParam !== appliedFocus) {
+    setAppliedFocus(focusParam);
+    const focus = parseFocusParam(focusParam);
+    if (focus) {
+      setCenteredOnUser(true);
+      setMapCenter([focus.lat, focus.lng]);
+      setMapZoom(16);
+      setSearchedPlace({ label: focus.name, lat: focus.lat, lng: focus.lng });
     }
-  }, []);
+  }
+
+  // Show a single kind of place from elsewhere in the app: /map?kind=pharmacy
+  const kindFilter = parseKindParam(searchParams.get(KIND_PARAM));
+  // Picked up while rendering the changed param rather than an extra pass later from an effect.
+  const [appliedKind, setAppliedKind] = useState<typeof kindFilter>(null);
+  if (kindFilter !== appliedKind) {
+    setAppliedKind(kindFilter);
+    const category = mapCategoryForKind(kindFilter);
+    if (category) setFilters({ attractions: false, food: false, shopping: false, services: false, [category]: true });
+  }
+
+  const clearKindFilter = () => {
+    setSearchParams((prev) => {
+      const params = new URLSearchParams(prev);
+      params.delete(KIND_PARAM);
+      return params;
+    });
+    setFilters({ attractions: true, food: true, shopping: true, services: true });
+  };
 
   // In-app directions: /map?oLat=..&oLng=..&dLat=..&dLng=..
   useEffect(() => {
-    const readNum = (k: string) => {
-      const raw = searchParams.get(k);
-      if (raw == null) return null;
+    const readNum = (raw: string) => {
+      if (raw === '') return null;
       const n = Number(raw);
       return Number.isFinite(n) ? n : null;
     };
 
-    const oLat = readNum('oLat');
-    const oLng = readNum('oLng');
-    const dLat = readNum('dLat');
-    const dLng = readNum('dLng');
+    const [oLat, oLng, dLat, dLng] = routeParamsKey.split('|').map(readNum);
 
     const inRange = (lat: number, lng: number) => lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
     const hasRoute =
@@ -222,7 +337,7 @@ const MapPage: React.FC = () => {
     if (!hasRoute) {
       setOrigin(null);
       setDestination(null);
-      setRoute(null);
+      setRoutes([]);
       setRouteError(null);
       return;
     }
@@ -230,7 +345,7 @@ const MapPage: React.FC = () => {
     if (oLat === dLat && oLng === dLng) {
       setOrigin([oLat, oLng]);
       setDestination([dLat, dLng]);
-      setRoute(null);
+      setRoutes([]);
       setRouteError('Origin and destination are the same');
       return;
     }
@@ -241,66 +356,152 @@ const MapPage: React.FC = () => {
     setDestination(d);
     setRouteError(null);
 
-    // Center roughly between points while OSRM fetch runs.
-    setMapCenter([(oLat + dLat) / 2, (oLng + dLng) / 2]);
-    setMapZoom(13);
+    // Center roughly between points while the route fetch runs (unless
+    // this is a reroute and the map is following the user).
+    if (!navigatingRef.current) {
+      setMapCenter([(oLat + dLat) / 2, (oLng + dLng) / 2]);
+      setMapZoom(13);
+    }
 
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 12_000);
-
-    const url = `https://router.project-osrm.org/route/v1/driving/${oLng},${oLat};${dLng},${dLat}?overview=full&geometries=geojson`;
-
-    fetch(url, { signal: controller.signal })
-      .then((r) => r.json())
-      .then((data) => {
-        const coords = data?.routes?.[0]?.geometry?.coordinates;
-        if (!Array.isArray(coords)) throw new Error('No route found');
-        // OSRM returns [lng,lat]
-        const latLngs: [number, number][] = coords
-          .filter((c: any) => Array.isArray(c) && c.length >= 2)
-          .map((c: any) => [c[1], c[0]]);
-        setRoute(latLngs);
+    // Tells our own timeout apart from the cleanup below cancelling a superseded request.
+    let timedOut = false;
+    let superseded = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, 12_000);
+
+    setActiveStep(null);
+
+    fetchRouteAlternatives({
+      origin: { lat: oLat, lng: oLng },
+      destination: { lat: dLat, lng: dLng },
+      mode,
+      maxRoutes: 3,
+      signal: controller.signal,
+    })
+      .then((found) => {
+        if (superseded) return;
+        setRoutes(found);
+        setNow(Date.now());
       })
       .catch((e) => {
-        if (e instanceof DOMException && e.name === 'AbortError') {
-          setRouteError('Route request timed out');
-        } else {
-          setRouteError(e instanceof Error ? e.message : 'Failed to fetch route');
-        }
-        setRoute(null);
+        if (superseded) return;
+        setRouteError(
+          timedOut ? 'Route request timed out' : e instanceof Error ? e.message : 'Failed to fetch route'
+        );
+        setRoutes([]);
       })
       .finally(() => {
         clearTimeout(timeoutId);
       });
 
     return () => {
+      superseded = true;
       clearTimeout(timeoutId);
       controller.abort();
     };
-  }, [searchParams]);
+  }, [routeParamsKey, mode]);
 
-  // Handle search
-  const pushRecentSearch = (q: string) => {
-    setRecentSearches((prev) => {
-      const next = [{ id: `${Date.now()}`, query: q, createdAt: Date.now() }, ...prev];
-      const seen = new Set<string>();
-      const deduped = next.filter((item) => {
-        const key = item.query.toLowerCase();
-        if (seen.has(key)) return false;
-        seen.add(key);
-        return true;
-      });
-      return deduped.slice(0, 10);
+  // Keep arrival times current while a route is on screen.
+  useEffect(() => {
+    if (!route) return;
+    const id = window.setInterval(() => setNow(Date.now()), 30_000);
+    return () => window.clearInterval(id);
+  }, [route]);
+
+  // Multi-stop trips: /map?stop=lat,lng,name&stop=... routed leg by leg.
+  useEffect(() => {
+    if (itineraryStops.length < 2) return;
+
+    const controller = new AbortController();
+    Promise.all(
+      itineraryStops.slice(1).map((to, i) =>
+        fetchRoute({ origin: itineraryStops[i], destination: to, mode, signal: controller.signal }).catch(() => null)
+      )
+    ).then((results) => {
+      if (!controller.signal.aborted) setRoutedTrip({ stops: itineraryStops, mode, legs: results });
     });
+
+    return () => controller.abort();
+  }, [itineraryStops, mode]);
+
+  const tripRouted = itineraryStops.length >= 2 && routedTrip?.stops === itineraryStops && routedTrip.mode === mode;
+  const legs = tripRouted ? routedTrip.legs : [];
+  const legsLoading = itineraryStops.length >= 2 && !tripRouted;
+  const itineraryError = legs.some((leg) => !leg) ? 'Some legs of the trip could not be routed' : null;
+
+  const updateStops = (stops: Array<{ lat: number; lng: number; name: string }>) => {
+    setSearchParams((prev) => {
+      const params = stopsToSearchParams(stops, prev);
+      // A trip replaces any single origin/destination route.
+      ['oLat', 'oLng', 'dLat', 'dLng', 'alt'].forEach((k) => params.delete(k));
+      return params;
+    });
+  };
+
+  const addStop = (stop: { lat: number; lng: number; name: string }) => {
+    const base = hasItinerary
+      ? itineraryStops
+      : userLocation
+        ? [{ lat: userLocation[0], lng: userLocation[1], name: 'My location' }]
+        : [];
+    if (base.length >= MAX_ITINERARY_STOPS) {
+      toast.error(`A trip can have at most ${MAX_ITINERARY_STOPS} stops`);
+      return;
+    }
+    updateStops([...base, stop]);
   };
 
-  const selectSuggestion = (s: { label: string; lat: number; lng: number }) => {
+  const removeStop = (id: string) => updateStops(itineraryStops.filter((s) => s.id !== id));
+
+  const optimizeItinerary = async () => {
+    if (itineraryStops.length < 3) return;
+    setOptimizing(true);
+    try {
+      const matrix = await fetchRouteMatrix(itineraryStops, mode);
+      const order = optimizeStopOrder(matrix.durationsSeconds);
+      updateStops(order.map((i) => itineraryStops[i]));
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not optimize the trip');
+    } finally {
+      setOptimizing(false);
+    }
+  };
+
+  // Handle search
+  // Until the map has moved off its placeholder centre there's no area to search around.
+  const mapCenterPoint = () => (centeredOnUser ? { lat: mapCenter[0], lng: mapCenter[1] } : undefined);
+
+  const selectSuggestion = (s: { label: string; lat: number; lng: number; provider: string }) => {
+    recordSearch(searchQuery.trim() || s.label, s, mapCenterPoint());
     setSearchQuery(s.label);
     setMapCenter([s.lat, s.lng]);
     setMapZoom(15);
     setShowSuggestions(false);
     setSearchedPlace({ label: s.label, lat: s.lat, lng: s.lng });
-    pushRecentSearch(s.label);
+  };
+
+  const runSearch = async (q: string, near: LatLng | undefined) => {
+    setShowSuggestions(false);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 8000);
+    try {
+      const [first] = await geocode(q, { limit: 1, near, signal: controller.signal });
+      recordSearch(q, first ? { label: first.label, lat: first.lat, lng: first.lng, provider: first.provider } : null, near);
+      if (!first) return;
+      setMapCenter([first.lat, first.lng]);
+      setMapZoom(15);
+      setSearchQuery(first.label);
+      setSearchedPlace({ label: first.label, lat: first.lat, lng: first.lng });
+    } catch {
+      // aborted or geocoder unavailable
+    } finally {
+      clearTimeout(timeoutId);
+      controller.abort();
+    }
   };
 
   const handleSearch = async (e: React.FormEvent) => {
@@ -313,55 +514,124 @@ const MapPage: React.FC = () => {
       return;
     }
 
-    pushRecentSearch(q);
-    setShowSuggestions(false);
+    await runSearch(q, mapCenterPoint());
+  };
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000);
-    try {
-      const url = `https://nominatim.openstreetmap.org/search?format=jsonv2&limit=1&q=${encodeURIComponent(q)}`;
-      const res = await fetch(url, { signal: controller.signal, headers: { Accept: 'application/json' } });
-      if (!res.ok) return;
-      const data = (await res.json()) as Array<{ lat: string; lon: string; display_name: string }>;
-      if (!data.length) return;
-      const lat = Number(data[0].lat);
-      const lng = Number(data[0].lon);
-      if (!Number.isFinite(lat) || !Number.isFinite(lng)) return;
-      setMapCenter([lat, lng]);
-      setMapZoom(15);
-      setSearchQuery(data[0].display_name);
-      setSearchedPlace({ label: data[0].display_name, lat, lng });
-    } finally {
-      clearTimeout(timeoutId);
-      controller.abort();
+  // Re-run a search from elsewhere in the app: /map?q=query&near=lat,lng
+  const searchParam = searchParams.get(SEARCH_PARAM);
+  const nearParam = searchParams.get('near');
+  const paramQuery = searchParam?.trim() ?? '';
+  const searchKey = paramQuery ? `${paramQuery}|${nearParam}` : null;
+  // The box and map pick up the search while rendering; only the lookup itself waits for the effect.
+  const [shownSearch, setShownSearch] = useState<string | null>(null);
+  if (searchKey && searchKey !== shownSearch) {
+    setShownSearch(searchKey);
+    const near = parseNearParam(nearParam);
+    if (near) {
+      setCenteredOnUser(true);
+      setMapCenter([near.lat, near.lng]);
     }
-  };
+    setSearchQuery(paramQuery);
+  }
+  const searchedParamRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!searchKey || searchedParamRef.current === searchKey) return;
+    searchedParamRef.current = searchKey;
+    runSearch(paramQuery, parseNearParam(nearParam));
+    // runSearch reads the latest map centre; only the params should retrigger this.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchKey]);
 
-  const onDirectionsToSearched = () => {
-    if (!searchedPlace || !userLocation) return;
+  const directionsTo = (lat: number, lng: number) => {
+    if (!userLocation) return;
     setSearchParams({
       oLat: String(userLocation[0]),
       oLng: String(userLocation[1]),
-      dLat: String(searchedPlace.lat),
-      dLng: String(searchedPlace.lng),
+      dLat: String(lat),
+      dLng: String(lng),
+      ...(mode !== 'drive' ? { mode } : {}),
     });
   };
 
+  const setMode = (next: TravelMode) => {
+    setSearchParams((prev) => {
+      const params = new URLSearchParams(prev);
+      if (next === 'drive') params.delete('mode');
+      else params.set('mode', next);
+      // Alternatives differ per profile, so start from the fastest one again.
+      params.delete('alt');
+      return params;
+    });
+  };
+
+  const selectAlternative = (index: number) => {
+    setActiveStep(null);
+    setSearchParams(
+      (prev) => {
+        const params = new URLSearchParams(prev);
+        if (index === 0) params.delete('alt');
+        else params.set('alt', String(index));
+        return params;
+      },
+      { replace: true }
+    );
+  };
+
+  const onDirectionsToSearched = () => {
+    if (!searchedPlace) return;
+    directionsTo(searchedPlace.lat, searchedPlace.lng);
+  };
+
   const onSaveSearched = () => {
     if (!searchedPlace) return;
-    setSavedPlaces((prev) => {
-      const id = `search:${searchedPlace.lat.toFixed(5)},${searchedPlace.lng.toFixed(5)}`;
-      const next = [
-        {
-          id,
-          name: searchedPlace.label,
-          type: 'Search',
-          createdAt: Date.now(),
-        },
-        ...prev.filter((p) => p.id !== id),
-      ];
-      return next.slice(0, 25);
+    savePlace({
+      lat: searchedPlace.lat,
+      lng: searchedPlace.lng,
+      name: searchedPlace.label,
+      type: 'Search',
+      address: searchedPlace.label,
+      source: { provider: 'search', id: `${searchedPlace.lat.toFixed(5)},${searchedPlace.lng.toFixed(5)}` },
     });
+    toast.success('Saved');
+  };
+
+  const dropPin = (latlng: L.LatLng) => {
+    if (navigatingRef.current) return;
+    setSelectedPlace(null);
+    setDroppedPin({ lat: latlng.lat, lng: latlng.lng });
+  };
+
+  const droppedPinLabel = droppedPin
+    ? pinAddress ?? `${droppedPin.lat.toFixed(5)}, ${droppedPin.lng.toFixed(5)}`
+    : '';
+
+  const onDirectionsToPin = () => {
+    if (!droppedPin) return;
+    directionsTo(droppedPin.lat, droppedPin.lng);
+    setDroppedPin(null);
+  };
+
+  const onSavePin = () => {
+    if (!droppedPin) return;
+    savePlace({
+      lat: droppedPin.lat,
+      lng: droppedPin.lng,
+      name: pinAddress ?? 'Dropped pin',
+      type: 'Dropped pin',
+      address: pinAddress ?? undefined,
+      source: { provider: 'pin', id: `${droppedPin.lat.toFixed(5)},${droppedPin.lng.toFixed(5)}` },
+    });
+    toast.success('Saved');
+  };
+
+  const onAlertForPin = () => {
+    if (!droppedPin) return;
+    const params = new URLSearchParams({
+      alertLat: droppedPin.lat.toFixed(6),
+      alertLng: droppedPin.lng.toFixed(6),
+      alertLabel: droppedPinLabel,
+    });
+    navigate(`/assistant?${params}`);
   };
 
   useEffect(() => {
@@ -375,19 +645,8 @@ const MapPage: React.FC = () => {
     const timeoutId = setTimeout(() => controller.abort(), 8000);
     const timer = setTimeout(async () => {
       try {
-        const url = `https://nominatim.openstreetmap.org/search?format=jsonv2&limit=6&q=${encodeURIComponent(q)}`;
-        const res = await fetch(url, { signal: controller.signal, headers: { Accept: 'application/json' } });
-        if (!res.ok) return;
-        const data = (await res.json()) as Array<{ place_id: number; lat: string; lon: string; display_name: string }>;
-        const mapped = data
-          .map((d) => ({
-            id: String(d.place_id),
-            label: d.display_name,
-            lat: Number(d.lat),
-            lng: Number(d.lon),
-          }))
-          .filter((d) => Number.isFinite(d.lat) && Number.isFinite(d.lng));
-        setSuggestions(mapped);
+        const results = await suggestPlaces(q, { limit: 6, signal: controller.signal });
+        setSuggestions(results.map(({ id, label, lat, lng, provider }) => ({ id, label, lat, lng, provider })));
       } catch {
         // ignore
       } finally {
@@ -404,37 +663,73 @@ const MapPage: React.FC = () => {
 
   const handleSaveForLater = () => {
     if (!selectedPlace) return;
-
-    setSavedPlaces((prev) => {
-      const id = `${selectedPlace.id}`;
-      const next = [
-        {
-          id,
-          name: selectedPlace.name,
-          type: selectedPlace.type,
-          createdAt: Date.now(),
-        },
-        ...prev.filter((p) => p.id !== id),
-      ];
-      return next.slice(0, 25);
+    savePlace({
+      lat: selectedPlace.lat,
+      lng: selectedPlace.lng,
+      name: selectedPlace.name,
+      type: kindLabel(selectedPlace),
+      address: selectedPlace.address || undefined,
+      source: { provider: selectedPlace.provider, id: selectedPlace.id },
     });
+    toast.success('Saved');
   };
 
   // Handle map move end
-  const handleMoveEnd = (lat: number, lng: number) => {
-    setMapCenter([lat, lng]);
-    // In a real app, you would fetch nearby places here
+  const handleMoveEnd = (map: L.Map) => {
+    const center = map.getCenter();
+    const b = map.getBounds();
+    setMapCenter([center.lat, center.lng]);
+    // Keep zoom in sync so ChangeView doesn't snap back after a pinch/scroll zoom.
+    setMapZoom(map.getZoom());
+    setMapBounds({ south: b.getSouth(), west: b.getWest(), north: b.getNorth(), east: b.getEast() });
   };
 
-  // Filter places based on active filters
-  const filteredPlaces = places.filter((place) => {
-    if (place.category === 'attraction' && !filters.attractions) return false;
-    if (place.category === 'food' && !filters.food) return false;
-    if (place.category === 'shopping' && !filters.shopping) return false;
-    if (place.category === 'services' && !filters.services) return false;
-    return true;
+  const activeCategories = (Object.keys(filters) as MapCategory[]).filter((key) => filters[key]);
+  const {
+    places: viewportPlaces,
+    loading: placesLoading,
+    error: placesError,
+    tooWide,
+  } = useViewportPlaces({
+    bounds: mapBounds,
+    zoom: mapZoom,
+    categories: activeCategories,
+    kinds: kindFilter ? [kindFilter] : undefined,
   });
 
+  // Overpass results can include kinds outside the active filters (e.g. inferred ones).
+  const filteredPlaces = viewportPlaces.filter((place) => {
+    if (kindFilter) return place.kind === kindFilter;
+    const category = mapCategoryForKind(place.kind);
+    return category ? filters[category] : true;
+  });
+
+  const selectedDetails = selectedPlace ? enrichPlace(selectedPlace) : null;
+
+  const onDirectionsToSelected = () => {
+    if (!selectedPlace || !userLocation) return;
+    directionsTo(selectedPlace.lat, selectedPlace.lng);
+    setSelectedPlace(null);
+  };
+
+  const nextManeuver = navActive && route && navState ? route.steps[navState.stepIndex] ?? null : null;
+
+  const highlightedStep = route && activeStep != null ? route.steps[activeStep] ?? null : null;
+  const highlight = highlightedStep
+    ? highlightedStep.geometry.length > 1
+      ? highlightedStep.geometry
+      : [highlightedStep.location]
+    : null;
+
+  const onMoreInformation = () => {
+    if (!selectedPlace) return;
+    const url =
+      selectedPlace.provider === 'overpass'
+        ? `https://www.openstreetmap.org/${selectedPlace.id}`
+        : `https://www.openstreetmap.org/?mlat=${selectedPlace.lat}&mlon=${selectedPlace.lng}#map=18/${selectedPlace.lat}/${selectedPlace.lng}`;
+    window.open(url, '_blank', 'noopener');
+  };
+
   // Center map on user's location
   const centerOnUser = () => {
     if (userLocation) {
@@ -443,6 +738,26 @@ const MapPage: React.FC = () => {
     }
   };
 
+  const modeSwitcher = (
+    <div className="flex gap-2 mb-3" role="tablist" aria-label="Travel mode">
+      {modeOptions.map((opt) => (
+        <button
+          key={opt.mode}
+          type="button"
+          role="tab"
+          aria-selected={mode === opt.mode}
+          onClick={() => setMode(opt.mode)}
+          className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium ${
+            mode === opt.mode ? 'bg-accent-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          {opt.icon}
+          {opt.label}
+        </button>
+      ))}
+    </div>
+  );
+
   return (
     <div className="h-screen w-full relative">
       {/* Top Bar */}
@@ -532,6 +847,15 @@ const MapPage: React.FC = () => {
           </div>
         )}
         
+        {kindFilter && (
+          <div className="mt-2 inline-flex items-center gap-2 bg-white bg-opacity-90 rounded-full shadow-lg px-3 py-1.5 text-sm text-gray-800">
+            Showing {OSM_PRESETS[kindFilter].label.toLowerCase()} only
+            <button type="button" onClick={clearKindFilter} aria-label="Show all places">
+              <FiX />
+            </button>
+          </div>
+        )}
+
         {/* Filter Panel */}
         <AnimatePresence>
           {showFilters && (
@@ -575,9 +899,10 @@ const MapPage: React.FC = () => {
           ref={mapRef}
         >
           <ChangeView center={mapCenter} zoom={mapZoom} />
-          <MapEvents onMoveEnd={handleMoveEnd} />
+          <MapEvents onMoveEnd={handleMoveEnd} onLongPress={dropPin} />
           <TileLayer
             url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            crossOrigin="anonymous"
             attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
             className="map-tiles"
           />
@@ -586,12 +911,7 @@ const MapPage: React.FC = () => {
           {userLocation && (
             <Marker 
               position={userLocation} 
-              icon={new L.Icon({
-                ...defaultIcon.options,
-                iconUrl: 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-blue.png',
-                iconSize: [25, 41],
-                iconAnchor: [12, 41],
-              })}
+              icon={coloredMarkerIcon('blue')}
             >
               <Popup>Your Location</Popup>
             </Marker>
@@ -600,12 +920,7 @@ const MapPage: React.FC = () => {
           {searchedPlace && (
             <Marker
               position={[searchedPlace.lat, searchedPlace.lng]}
-              icon={new L.Icon({
-                ...defaultIcon.options,
-                iconUrl: 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-violet.png',
-                iconSize: [25, 41],
-                iconAnchor: [12, 41],
-              })}
+              icon={coloredMarkerIcon('violet')}
               eventHandlers={{
                 click: () => {
                   setSelectedPlace(null);
@@ -616,46 +931,222 @@ const MapPage: React.FC = () => {
             </Marker>
           )}
           
+          {droppedPin && (
+            <Marker position={[droppedPin.lat, droppedPin.lng]} icon={coloredMarkerIcon('red')} />
+          )}
+
           {/* Place markers */}
-          {filteredPlaces.map((place) => (
-            <Marker 
-              key={place.id} 
-              position={place.position} 
-              icon={new L.Icon({
-                ...defaultIcon.options,
-                iconUrl: place.category === 'food' 
-                  ? 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-red.png' 
-                  : 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-green.png',
-                iconSize: [25, 41],
-                iconAnchor: [12, 41],
-              })}
-              eventHandlers={{
-                click: () => {
-                  setSelectedPlace(place);
-                },
-              }}
-            >
-              <Popup>
-                <div className="w-40">
-                  <h3 className="font-semibold">{place.name}</h3>
-                  <p className="text-sm text-gray-600">{place.type}</p>
-                  <div className="flex items-center mt-1">
-                    <FiStar className="text-yellow-400 mr-1" size={12} />
-                    <span className="text-sm">{place.rating}</span>
-                  </div>
-                </div>
-              </Popup>
-            </Marker>
-          ))}
+          <ClusterLayer
+            items={filteredPlaces}
+            getKey={(place) => place.id}
+            getIcon={(place) => coloredMarkerIcon(markerColors[mapCategoryForKind(place.kind) ?? 'attractions'])}
+            onSelect={(place) => {
+              setDroppedPin(null);
+              setSelectedPlace(place);
+            }}
+            renderPopup={(place) => (
+              <div className="w-40">
+                <h3 className="font-semibold">{place.name}</h3>
+                <p className="text-sm text-gray-600">{kindLabel(place)}</p>
+              </div>
+            )}
+          />
 
-          <RouteOverlay route={route} origin={origin} destination={destination} />
+          <RouteOverlay
+            route={route?.geometry ?? null}
+            origin={origin}
+            destination={destination}
+            alternatives={routes
+              .map((r, index) => ({ index, geometry: r.geometry }))
+              .filter((alt) => alt.index !== selectedAlt)}
+            onSelectAlternative={selectAlternative}
+            highlight={highlight}
+            autoFit={!navActive}
+          />
+
+          {hasItinerary && <ItineraryOverlay stops={itineraryStops} legs={legs} />}
         </MapContainer>
       </div>
 
-      {routeError && (
+      {(routeError || itineraryError) && (
         <div className="absolute top-20 left-4 right-4 z-20">
           <div className="bg-red-600 text-white px-4 py-2 rounded-lg shadow-lg">
-            {routeError}
+            {routeError ?? itineraryError}
+          </div>
+        </div>
+      )}
+
+      {hasItinerary && !selectedPlace && (
+        <div className="absolute bottom-0 left-0 right-0 z-10 p-4 pointer-events-none">
+          <ItineraryPanel
+            stops={itineraryStops}
+            legs={legs}
+            loading={legsLoading}
+            optimizing={optimizing}
+            onReorder={updateStops}
+            onRemove={removeStop}
+            onOptimize={optimizeItinerary}
+            onClear={() => updateStops([])}
+          >
+            {modeSwitcher}
+          </ItineraryPanel>
+        </div>
+      )}
+
+      {navActive && (
+        <>
+          <div className="absolute top-0 left-0 right-0 z-20 p-4">
+            <div className="bg-primary-900 text-white rounded-2xl shadow-2xl p-4 max-w-xl mx-auto">
+              {navError ? (
+                <div>{navError}</div>
+              ) : !navState ? (
+                <div className="flex items-center gap-2">
+                  <FiLoader className="animate-spin" />
+                  Waiting for GPS…
+                </div>
+              ) : navState.status === 'off-route' ? (
+                <div className="font-semibold">Off route — rerouting…</div>
+              ) : (
+                <>
+                  <div className="text-2xl font-bold">{formatDistance(navState.distanceToManeuver)}</div>
+                  <div className="text-lg">{nextManeuver?.instruction ?? 'Continue'}</div>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="absolute bottom-0 left-0 right-0 z-20 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl p-4 max-w-xl mx-auto flex items-center justify-between gap-3">
+              <div>
+                <div className="text-xl font-bold text-gray-900">
+                  {formatDuration(navState?.remainingDuration ?? route?.durationSeconds ?? 0)}
+                </div>
+                <div className="text-sm text-gray-600">
+                  {formatDistance(navState?.remainingDistance ?? route?.distanceMeters ?? 0)} · arrive{' '}
+                  {formatClockTime(
+                    new Date(now + (navState?.remainingDuration ?? route?.durationSeconds ?? 0) * 1000)
+                  )}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => setNavigating(false)}
+                className="px-4 py-2 rounded-lg bg-red-600 hover:bg-red-500 text-white font-semibold"
+              >
+                End
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {origin && destination && !hasItinerary && !selectedPlace && !navActive && (
+        <div className="absolute bottom-0 left-0 right-0 z-10 p-4 pointer-events-none">
+          <div className="bg-white bg-opacity-95 rounded-2xl shadow-2xl p-4 pointer-events-auto max-w-xl mx-auto">
+            {modeSwitcher}
+
+            {route ? (
+              <>
+                <div className="flex items-baseline justify-between gap-3">
+                  <div>
+                    <div className="text-xl font-bold text-gray-900">{formatDuration(route.durationSeconds)}</div>
+                    <div className="text-sm text-gray-600">
+                      {formatDistance(route.distanceMeters)} · arrive{' '}
+                      {formatClockTime(new Date(now + route.durationSeconds * 1000))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {route.steps.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setShowSteps((v) => !v)}
+                        className="text-sm font-medium text-accent-600 hover:underline"
+                      >
+                        {showSteps ? 'Hide steps' : `${route.steps.length} steps`}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setNavigating(true)}
+                      className="px-4 py-2 rounded-lg bg-accent-500 hover:bg-accent-600 text-white text-sm font-semibold flex items-center gap-2"
+                    >
+                      <FiNavigation />
+                      Start
+                    </button>
+                  </div>
+                </div>
+
+                {routes.length > 1 && (
+                  <div className="mt-3 space-y-2" aria-label="Route alternatives">
+                    {routes.map((r, i) => {
+                      const roads = mainRoads(r);
+                      return (
+                        <button
+                          key={i}
+                          type="button"
+                          onClick={() => selectAlternative(i)}
+                          aria-pressed={i === selectedAlt}
+                          className={`w-full text-left px-3 py-2 rounded-lg border text-sm ${
+                            i === selectedAlt ? 'border-accent-500 bg-accent-50' : 'border-gray-200 hover:bg-gray-50'
+                          }`}
+                        >
+                          <div className="flex justify-between gap-3">
+                            <span className="font-semibold text-gray-900">{formatDuration(r.durationSeconds)}</span>
+                            <span className="text-gray-600">{formatDistance(r.distanceMeters)}</span>
+                          </div>
+                          {roads.length > 0 && <div className="text-gray-500 truncate">via {roads.join(', ')}</div>}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {showSteps && (
+                  <ol className="mt-3 max-h-[35vh] overflow-y-auto divide-y divide-gray-100">
+                    {route.steps.map((step, i) => (
+                      <li key={i}>
+                        <button
+                          type="button"
+                          onClick={() => setActiveStep(i === activeStep ? null : i)}
+                          className={`w-full text-left px-2 py-2 flex justify-between gap-3 text-sm ${
+                            i === activeStep ? 'bg-amber-100' : 'hover:bg-gray-50'
+                          }`}
+                        >
+                          <span className="text-gray-800">{step.instruction}</span>
+                          {step.distanceMeters > 0 && (
+                            <span className="text-gray-500 whitespace-nowrap">{formatDistance(step.distanceMeters)}</span>
+                          )}
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </>
+            ) : (
+              !routeError && (
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <FiLoader className="animate-spin" />
+                  Finding route…
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      )}
+
+      {(placesLoading || tooWide || placesError) && !selectedPlace && !(origin && destination) && !hasItinerary && (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-10">
+          <div className="bg-white bg-opacity-90 text-gray-800 text-sm px-4 py-2 rounded-full shadow-lg flex items-center gap-2">
+            {tooWide ? (
+              'Zoom in to see places'
+            ) : placesLoading ? (
+              <>
+                <FiLoader className="animate-spin" />
+                Loading places…
+              </>
+            ) : (
+              placesError
+            )}
           </div>
         </div>
       )}
@@ -747,6 +1238,15 @@ const MapPage: React.FC = () => {
           </div>
         )}
         
+        {kindFilter && (
+          <div className="mt-2 inline-flex items-center gap-2 bg-white bg-opacity-90 rounded-full shadow-lg px-3 py-1.5 text-sm text-gray-800">
+            Showing {OSM_PRESETS[kindFilter].label.toLowerCase()} only
+            <button type="button" onClick={clearKindFilter} aria-label="Show all places">
+              <FiX />
+            </button>
+          </div>
+        )}
+
         {/* Filter Panel */}
         <AnimatePresence>
           {showFilters && (
@@ -793,7 +1293,7 @@ const MapPage: React.FC = () => {
             <div className="flex justify-between items-start mb-4">
               <div>
                 <h2 className="text-2xl font-bold text-gray-900">{selectedPlace.name}</h2>
-                <p className="text-gray-600">{selectedPlace.type}</p>
+                <p className="text-gray-600">{kindLabel(selectedPlace)}</p>
               </div>
               <button 
                 onClick={() => setSelectedPlace(null)}
@@ -805,32 +1305,76 @@ const MapPage: React.FC = () => {
                 </svg>
               </button>
             </div>
-            
-            <div className="relative h-48 bg-gray-200 rounded-xl mb-4 overflow-hidden">
-              <img 
-                src={selectedPlace.image} 
-                alt={selectedPlace.name} 
-                className="w-full h-full object-cover"
-              />
-              <div className="absolute bottom-2 right-2 bg-black bg-opacity-60 text-white text-xs px-2 py-1 rounded-full flex items-center">
-                <FiStar className="text-yellow-400 mr-1" />
-                <span>{selectedPlace.rating}</span>
+
+            {selectedDetails && (
+              <div className="text-gray-700 mb-6 space-y-1 text-sm">
+                {selectedDetails.address && <p>{selectedDetails.address}</p>}
+                {selectedDetails.cuisines.length > 0 && (
+                  <p className="capitalize">{selectedDetails.cuisines.join(', ')}</p>
+                )}
+                {selectedDetails.openingHours && (
+                  <p
+                    className={
+                      selectedDetails.openingHours.status.state === 'open'
+                        ? 'text-green-600'
+                        : selectedDetails.openingHours.status.state === 'closed'
+                          ? 'text-red-600'
+                          : 'text-gray-500'
+                    }
+                  >
+                    {selectedDetails.openingHours.label}
+                  </p>
+                )}
+                {selectedDetails.phone && (
+                  <a href={`tel:${selectedDetails.phone.tel}`} className="block text-accent-600 hover:underline">
+                    {selectedDetails.phone.display}
+                  </a>
+                )}
+                {selectedDetails.website && (
+                  <a
+                    href={selectedDetails.website}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block text-accent-600 hover:underline truncate"
+                  >
+                    {selectedDetails.website}
+                  </a>
+                )}
               </div>
-            </div>
-            
-            <p className="text-gray-700 mb-6">{selectedPlace.description}</p>
+            )}
             
             <div className="space-y-3">
-              <button className="w-full bg-accent-500 hover:bg-accent-600 text-white py-3 px-4 rounded-lg font-medium flex items-center justify-center">
+              <button
+                type="button"
+                onClick={onDirectionsToSelected}
+                disabled={!userLocation}
+                className="w-full bg-accent-500 hover:bg-accent-600 text-white py-3 px-4 rounded-lg font-medium flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
                 <FiNavigation className="mr-2" />
                 Get Directions
               </button>
               
-              <button className="w-full border border-gray-300 text-gray-800 py-3 px-4 rounded-lg font-medium flex items-center justify-center">
+              <button
+                type="button"
+                onClick={onMoreInformation}
+                className="w-full border border-gray-300 text-gray-800 py-3 px-4 rounded-lg font-medium flex items-center justify-center"
+              >
                 <FiInfo className="mr-2" />
                 More Information
               </button>
               
+              <button
+                type="button"
+                onClick={() => {
+                  addStop({ lat: selectedPlace.lat, lng: selectedPlace.lng, name: selectedPlace.name });
+                  setSelectedPlace(null);
+                }}
+                className="w-full border border-gray-300 text-gray-800 py-3 px-4 rounded-lg font-medium flex items-center justify-center"
+              >
+                <FiPlus className="mr-2" />
+                Add to Trip
+              </button>
+
               <button
                 type="button"
                 onClick={handleSaveForLater}
@@ -844,8 +1388,87 @@ const MapPage: React.FC = () => {
         )}
       </AnimatePresence>
 
+      {/* Bottom Sheet for a long-press dropped pin */}
+      <AnimatePresence>
+        {droppedPin && !selectedPlace && (
+          <motion.div
+            initial={{ y: '100%' }}
+            animate={{ y: 0 }}
+            exit={{ y: '100%' }}
+            transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+            className="absolute bottom-0 left-0 right-0 bg-white rounded-t-3xl shadow-2xl z-20 p-6"
+          >
+            <div className="flex justify-between items-start mb-4">
+              <div className="min-w-0">
+                <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                  <FiMapPin className="text-red-500" />
+                  Dropped pin
+                </h2>
+                <p className="text-gray-700 mt-1 truncate">
+                  {pinAddress ?? (pinAddressLoading ? 'Looking up address…' : 'No address found')}
+                </p>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {droppedPin.lat.toFixed(5)}, {droppedPin.lng.toFixed(5)}
+                </p>
+              </div>
+              <button
+                onClick={() => setDroppedPin(null)}
+                className="text-gray-400 hover:text-gray-600"
+                aria-label="Close"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                type="button"
+                onClick={onDirectionsToPin}
+                disabled={!userLocation}
+                className="bg-accent-500 hover:bg-accent-600 text-white py-3 px-2 rounded-lg font-medium flex flex-col items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FiNavigation />
+                Directions
+              </button>
+              <button
+                type="button"
+                onClick={onSavePin}
+                className="border border-gray-300 text-gray-800 py-3 px-2 rounded-lg font-medium flex flex-col items-center gap-1"
+              >
+                <FiClock />
+                Save
+              </button>
+              <button
+                type="button"
+                onClick={onAlertForPin}
+                className="border border-gray-300 text-gray-800 py-3 px-2 rounded-lg font-medium flex flex-col items-center gap-1"
+              >
+                <FiBell />
+                Set alert
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {downloadOpen && mapBounds && (
+        <div className="absolute bottom-24 left-4 right-20 z-20 flex">
+          <OfflineRegionPanel bounds={mapBounds} zoom={mapZoom} onClose={() => setDownloadOpen(false)} />
+        </div>
+      )}
+
       {/* Floating Action Buttons */}
       <div className="absolute bottom-24 right-4 z-10 space-y-3">
+        <button
+          onClick={() => setDownloadOpen((open) => !open)}
+          className="bg-white p-3 rounded-full shadow-lg text-gray-800 hover:bg-gray-100 transition-colors"
+          aria-label="Download this area for offline use"
+        >
+          <FiDownload />
+        </button>
+
         <button 
           onClick={centerOnUser}
           className="bg-white p-3 rounded-full shadow-lg text-gray-800 hover:bg-gray-100 transition-colors"
@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FiArrowLeft, FiDownloadCloud, FiRefreshCw, FiTrash2 } from 'react-icons/fi';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { useOfflineRegions } from '../hooks/useOfflineRegions';
+import { formatAge, formatBytes } from '../utils/format';
+import { deleteOfflineRegion, describeProgress, updateOfflineRegion } from '../utils/offlineRegions';
+import type { DownloadProgress, OfflineRegion } from '../utils/offlineRegions';
+import { OSM_PRESETS } from '../utils/overpassPresets';
+
+const OfflineRegionsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { regions, loading } = useOfflineRegions();
+  const [busy, setBusy] = useState<{ id: string; progress: DownloadProgress | null } | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const update = async (region: OfflineRegion) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setBusy({ id: region.id, progress: null });
+    try {
+      await updateOfflineRegion(region, {
+        signal: controller.signal,
+        onProgress: (progress) => setBusy({ id: region.id, progress }),
+      });
+      toast.success(`${region.name} updated`);
+    } catch (e) {
+      if (!controller.signal.aborted) toast.error(e instanceof Error ? e.message : 'Update failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const remove = async (region: OfflineRegion) => {
+    if (!window.confirm(`Delete ${region.name}? It won't be available offline any more.`)) return;
+    setBusy({ id: region.id, progress: null });
+    try {
+      await deleteOfflineRegion(region.id);
+    } catch {
+      toast.error('Could not delete this area');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const totalBytes = regions.reduce((sum, r) => sum + r.tileBytes + r.placeBytes, 0);
+
+  return (
+    <div className="min-h-screen bg-primary-950 text-white p-4">
+      <div className="max-w-4xl mx-auto">
+        <button
+          type="button"
+          onClick={() => navigate(-1)}
+          className="inline-flex items-center gap-2 text-gray-300 hover:text-white"
+        >
+          <FiArrowLeft />
+          Back
+        </button>
+
+        <h1 className="text-2xl font-bold mt-4">Offline areas</h1>
+        <p className="text-gray-300 mt-1">
+          Maps and key places saved on this device. Download more from the map.
+        </p>
+
+        {loading ? (
+          <div className="text-gray-300 mt-6">Loading…</div>
+        ) : regions.length === 0 ? (
+          <div className="mt-6 bg-secondary border border-primary-800 rounded-2xl p-6 text-center">
+            <FiDownloadCloud className="mx-auto text-3xl text-accent-400" />
+            <div className="mt-2 text-gray-200">No areas downloaded yet.</div>
+            <button
+              type="button"
+              onClick={() => navigate('/map')}
+              className="mt-4 px-4 py-2 rounded-lg bg-accent-600 hover:bg-accent-500 text-black font-semibold"
+            >
+              Open the map
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="text-sm text-gray-400 mt-4">
+              {regions.length} {regions.length === 1 ? 'area' : 'areas'} · {formatBytes(totalBytes)}
+            </div>
+            <div className="mt-3 space-y-3">
+              {regions.map((region) => {
+                const isBusy = busy?.id === region.id;
+                return (
+                  <div key={region.id} className="bg-secondary border border-primary-800 rounded-2xl p-4">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="font-semibold truncate">{region.name}</div>
+                        <div className="text-sm text-gray-300 mt-1">
+                          {formatBytes(region.tileBytes + region.placeBytes)} · {region.tileCount} tiles ·{' '}
+                          {region.placeCount} places
+                        </div>
+                        {region.partialKinds.length > 0 && (
+                          <div className="text-xs text-amber-300 mt-1">
+                            Too many {region.partialKinds.map((k) => OSM_PRESETS[k].label.toLowerCase()).join(', ')} here
+                            to save them all. Download a smaller area for the full list.
+                          </div>
+                        )}
+                        <div className="text-xs text-gray-400 mt-1">Updated {formatAge(region.updatedAt)}</div>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => update(region)}
+                          disabled={!!busy}
+                          className="p-2 rounded-lg bg-primary-800 hover:bg-primary-700 disabled:opacity-50"
+                          aria-label={`Update ${region.name}`}
+                        >
+                          <FiRefreshCw className={isBusy && busy?.progress ? 'animate-spin' : ''} />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => remove(region)}
+                          disabled={!!busy}
+                          className="p-2 rounded-lg bg-primary-800 hover:bg-primary-700 text-red-400 disabled:opacity-50"
+                          aria-label={`Delete ${region.name}`}
+                        >
+                          <FiTrash2 />
+                        </button>
+                      </div>
+                    </div>
+                    {isBusy && busy?.progress && (
+                      <div className="mt-3 flex items-center justify-between text-xs text-gray-300">
+                        <span>{describeProgress(busy.progress)}</span>
+                        <button
+                          type="button"
+                          onClick={() => controllerRef.current?.abort()}
+                          className="text-red-400 hover:underline"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OfflineRegionsPage;
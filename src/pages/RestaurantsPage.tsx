@@ -1,25 +1,33 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { FiArrowLeft, FiMapPin, FiNavigation, FiSearch, FiStar } from 'react-icons/fi';
-import { useNavigate } from 'react-router-dom';
+import { FiArrowLeft, FiClock, FiGlobe, FiMapPin, FiNavigation, FiPhone, FiSearch, FiStar } from 'react-icons/fi';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useGeolocation } from '../hooks/useGeolocation';
+import LocationStatus from '../components/location/LocationStatus';
+import OpeningHoursBadge from '../components/ui/OpeningHoursBadge';
 import { calculateDistance } from '../utils/googleMaps';
-import { fetchNearbyOsmPlaces } from '../utils/osm';
+import { enrichPlace } from '../utils/placeEnrichment';
+import { openNearbyCursor } from '../utils/places';
+import type { NearbyCursor, NormalizedPlace } from '../utils/places';
 
 const RestaurantsPage: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const {
     location,
-    error: locationError,
     loading: locationLoading,
     getCurrentLocation,
   } = useGeolocation();
 
-  const [places, setPlaces] = useState<Awaited<ReturnType<typeof fetchNearbyOsmPlaces>>>([]);
+  const [places, setPlaces] = useState<NormalizedPlace[]>([]);
   const [loadingPlaces, setLoadingPlaces] = useState(false);
   const [placesError, setPlacesError] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  // ?q=biryani arrives from the home search.
+  const [searchQuery, setSearchQuery] = useState(() => searchParams.get('q') ?? '');
   const inFlightRef = useRef(false);
   const lastRequestKeyRef = useRef<string | null>(null);
+  const cursorRef = useRef<NearbyCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   const canSearch = !!location && !locationLoading && !loadingPlaces;
 
@@ -36,16 +44,19 @@ const RestaurantsPage: React.FC = () => {
     setLoadingPlaces(true);
     setPlacesError(null);
     try {
-      const results = await fetchNearbyOsmPlaces(
+      const cursor = openNearbyCursor(
         { lat: location.lat, lng: location.lng },
         {
-          radiusMeters: 7000,
           kinds: ['restaurant'],
           query: searchQuery,
-          limit: 10,
+          pageSize: 10,
+          maxRadiusMeters: 15_000,
         }
       );
+      cursorRef.current = cursor;
+      const results = await cursor.next();
       setPlaces(results);
+      setHasMore(cursor.hasMore());
     } catch (e) {
       setPlacesError(e instanceof Error ? e.message : 'Failed to fetch nearby restaurants');
     } finally {
@@ -54,6 +65,25 @@ const RestaurantsPage: React.FC = () => {
     }
   };
 
+  const loadMore = async () => {
+    const cursor = cursorRef.current;
+    if (!cursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const more = await cursor.next();
+      // A new search replaced this cursor while the page was loading.
+      if (cursorRef.current !== cursor) return;
+      setPlaces((prev) => [...prev, ...more]);
+      setHasMore(cursor.hasMore());
+    } catch (e) {
+      if (cursorRef.current !== cursor) return;
+      setPlacesError(e instanceof Error ? e.message : 'Failed to fetch more restaurants');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   useEffect(() => {
     getCurrentLocation();
   }, [getCurrentLocation]);
@@ -78,7 +108,7 @@ const RestaurantsPage: React.FC = () => {
         );
 
         return {
-          place: p,
+          place: enrichPlace(p),
           distanceKm,
         };
       })
@@ -150,28 +180,7 @@ const RestaurantsPage: React.FC = () => {
         </div>
 
         <div className="mt-4">
-          {locationLoading && <div className="text-gray-300">Getting your location…</div>}
-
-          {!locationLoading && locationError && (
-            <div className="bg-destructive/20 border border-destructive/40 rounded-xl p-4">
-              <div className="font-semibold">Location error</div>
-              <div className="text-gray-200 mt-1">{locationError}</div>
-              <button
-                type="button"
-                onClick={getCurrentLocation}
-                className="mt-3 px-4 py-2 rounded-lg bg-primary-800 hover:bg-primary-700"
-              >
-                Try again
-              </button>
-            </div>
-          )}
-
-          {!locationLoading && location && (
-            <div className="text-sm text-gray-400 flex items-center gap-2">
-              <FiMapPin />
-              {location.lat.toFixed(4)}, {location.lng.toFixed(4)}
-            </div>
-          )}
+          <LocationStatus />
 
           {placesError && (
             <div className="bg-destructive/20 border border-destructive/40 rounded-xl p-4 mt-4">
@@ -202,17 +211,50 @@ const RestaurantsPage: React.FC = () => {
                   <div className="text-sm text-gray-300 whitespace-nowrap">{distanceKm} km</div>
                 </div>
 
-                <div className="flex items-center gap-4 mt-3 text-sm text-gray-300">
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-3 text-sm text-gray-300">
                   <div className="inline-flex items-center gap-1">
                     <FiStar />
-                    {place.tags?.['rating'] ?? '—'}
+                    {place.rating ?? '—'}
                   </div>
                   <div className="inline-flex items-center gap-1">
                     <FiMapPin />
-                    restaurant
+                    {place.cuisines.length > 0 ? place.cuisines.join(', ') : 'restaurant'}
                   </div>
+                  <OpeningHoursBadge
+                    hours={place.openingHours}
+                    icon={<FiClock />}
+                    className="inline-flex items-center gap-1"
+                  />
+                  {(place.diet.vegetarian === 'only' || place.diet.vegetarian === 'yes') && (
+                    <div className="text-green-400">{place.diet.vegetarian === 'only' ? 'Pure veg' : 'Veg options'}</div>
+                  )}
+                  {place.wheelchair && place.wheelchair !== 'no' && (
+                    <div>{place.wheelchair === 'yes' ? 'Wheelchair accessible' : 'Limited wheelchair access'}</div>
+                  )}
                 </div>
 
+                {(place.phone || place.website) && (
+                  <div className="flex flex-wrap items-center gap-4 mt-2 text-sm">
+                    {place.phone && (
+                      <a href={`tel:${place.phone.tel}`} className="inline-flex items-center gap-1 text-accent-500 hover:underline">
+                        <FiPhone />
+                        {place.phone.display}
+                      </a>
+                    )}
+                    {place.website && (
+                      <a
+                        href={place.website}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center gap-1 text-accent-500 hover:underline"
+                      >
+                        <FiGlobe />
+                        Website
+                      </a>
+                    )}
+                  </div>
+                )}
+
                 <div className="mt-4 flex gap-3">
                   <button
                     type="button"
@@ -234,6 +276,17 @@ const RestaurantsPage: React.FC = () => {
               </div>
             ))}
           </div>
+
+          {!loadingPlaces && hasMore && derived.length > 0 && (
+            <button
+              type="button"
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="mt-4 w-full px-4 py-3 rounded-xl bg-primary-800 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loadingMore ? 'Loading…' : 'Load more restaurants'}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,366 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { FiArrowLeft, FiDownload, FiEdit2, FiFolderPlus, FiMap, FiNavigation, FiTrash2, FiUpload } from 'react-icons/fi';
+import { useNavigate } from 'react-router-dom';
+import ImportReview from '../components/saved/ImportReview';
+import { useGeolocation } from '../hooks/useGeolocation';
+import { useSavedPlaces } from '../hooks/useSavedPlaces';
+import { mapDirectionsUrl, mapFocusUrl } from '../utils/mapLinks';
+import { EXCHANGE_FORMATS, IMPORT_ACCEPT, exportPlaces, parsePlacesFile, planPlaceImport } from '../utils/placeExchange';
+import type { ExchangeFormat, ImportPlan } from '../utils/placeExchange';
+import { parseTags } from '../utils/savedPlaces';
+import type { PlaceCollection, SavedPlace } from '../utils/savedPlaces';
+
+type SavedPlaceCardProps = {
+  place: SavedPlace;
+  collections: PlaceCollection[];
+  onOpen: () => void;
+  onDirections: (() => void) | null;
+  onUpdate: (patch: { notes?: string; tags?: string[] }) => void;
+  onToggleCollection: (collectionId: string) => void;
+  onRemove: () => void;
+};
+
+const SavedPlaceCard: React.FC<SavedPlaceCardProps> = ({
+  place,
+  collections,
+  onOpen,
+  onDirections,
+  onUpdate,
+  onToggleCollection,
+  onRemove,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [notes, setNotes] = useState(place.notes);
+  const [tags, setTags] = useState(place.tags.join(', '));
+
+  const save = () => {
+    onUpdate({ notes: notes.trim(), tags: parseTags(tags) });
+    setEditing(false);
+  };
+
+  return (
+    <div className="bg-secondary border border-primary-800 rounded-2xl p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="font-semibold truncate">{place.name}</div>
+          <div className="text-sm text-gray-300 truncate">
+            {place.type}
+            {place.address && place.address !== place.name ? ` · ${place.address}` : ''}
+          </div>
+          {place.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {place.tags.map((t) => (
+                <span key={t} className="px-2 py-0.5 rounded-full bg-primary-800 text-xs text-gray-200">
+                  #{t}
+                </span>
+              ))}
+            </div>
+          )}
+          {place.notes && !editing && <p className="text-sm text-gray-200 mt-2 whitespace-pre-line">{place.notes}</p>}
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            type="button"
+            onClick={onOpen}
+            className="p-2 rounded-lg bg-primary-800 hover:bg-primary-700"
+            aria-label={`Show ${place.name} on the map`}
+          >
+            <FiMap />
+          </button>
+          {onDirections && (
+            <button
+              type="button"
+              onClick={onDirections}
+              className="p-2 rounded-lg bg-primary-800 hover:bg-primary-700"
+              aria-label={`Directions to ${place.name}`}
+            >
+              <FiNavigation />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setEditing((v) => !v)}
+            className="p-2 rounded-lg bg-primary-800 hover:bg-primary-700"
+            aria-label={`Edit ${place.name}`}
+          >
+            <FiEdit2 />
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="mt-4 space-y-3">
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes"
+            rows={3}
+            className="w-full bg-primary-900 border border-primary-700 rounded-lg px-3 py-2 text-sm"
+          />
+          <input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Tags, comma separated"
+            className="w-full bg-primary-900 border border-primary-700 rounded-lg px-3 py-2 text-sm"
+          />
+          {collections.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {collections.map((c) => {
+                const inCollection = place.collectionIds.includes(c.id);
+                return (
+                  <button
+                    key={c.id}
+                    type="button"
+                    onClick={() => onToggleCollection(c.id)}
+                    className={`px-3 py-1 rounded-full text-xs border ${
+                      inCollection ? 'bg-accent-600 border-accent-600 text-black' : 'border-primary-700 text-gray-200'
+                    }`}
+                  >
+                    {c.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          <div className="flex justify-between">
+            <button
+              type="button"
+              onClick={onRemove}
+              className="inline-flex items-center gap-1 text-sm text-red-400 hover:underline"
+            >
+              <FiTrash2 />
+              Remove
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              className="px-4 py-2 rounded-lg bg-accent-600 hover:bg-accent-500 text-black font-semibold text-sm"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const SavedPlacesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { location, getCurrentLocation } = useGeolocation();
+  const {
+    places,
+    collections,
+    updatePlace,
+    removePlace,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    toggleInCollection,
+    importPlaces,
+  } = useSavedPlaces();
+  const [activeCollection, setActiveCollection] = useState<string | null>(null);
+  const [newCollection, setNewCollection] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; plan: ImportPlan } | null>(null);
+
+  useEffect(() => {
+    getCurrentLocation();
+  }, [getCurrentLocation]);
+
+  const active = collections.find((c) => c.id === activeCollection) ?? null;
+  const visible = active ? places.filter((p) => p.collectionIds.includes(active.id)) : places;
+
+  const addCollection = () => {
+    if (!newCollection?.trim()) {
+      setNewCollection(null);
+      return;
+    }
+    const c = createCollection(newCollection);
+    setActiveCollection(c.id);
+    setNewCollection(null);
+  };
+
+  const onExport = (format: ExchangeFormat) => {
+    const file = exportPlaces(format, visible, collections, active ? active.name : 'Local Lens places');
+    downloadFile(file.content, file.filename, file.mimeType);
+  };
+
+  const onImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const incoming = parsePlacesFile(await file.text(), file.name);
+      setPendingImport({ fileName: file.name, plan: planPlaceImport(places, collections, incoming) });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not read file');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-primary-950 text-white p-4">
+      <div className="max-w-4xl mx-auto">
+        <button
+          type="button"
+          onClick={() => navigate(-1)}
+          className="inline-flex items-center gap-2 text-gray-300 hover:text-white"
+        >
+          <FiArrowLeft />
+          Back
+        </button>
+
+        <h1 className="text-2xl font-bold mt-4">Saved places</h1>
+        <p className="text-gray-300 mt-1">
+          {places.length} {places.length === 1 ? 'place' : 'places'}, kept on this device.
+        </p>
+
+        <div className="flex flex-wrap gap-2 mt-4">
+          <button
+            type="button"
+            onClick={() => setActiveCollection(null)}
+            className={`px-3 py-1.5 rounded-full text-sm ${!active ? 'bg-accent-600 text-black' : 'bg-primary-800'}`}
+          >
+            All
+          </button>
+          {collections.map((c) => (
+            <button
+              key={c.id}
+              type="button"
+              onClick={() => setActiveCollection(c.id)}
+              className={`px-3 py-1.5 rounded-full text-sm ${
+                active?.id === c.id ? 'bg-accent-600 text-black' : 'bg-primary-800'
+              }`}
+            >
+              {c.name} · {places.filter((p) => p.collectionIds.includes(c.id)).length}
+            </button>
+          ))}
+          {newCollection == null ? (
+            <button
+              type="button"
+              onClick={() => setNewCollection('')}
+              className="px-3 py-1.5 rounded-full text-sm bg-primary-800 inline-flex items-center gap-1"
+            >
+              <FiFolderPlus />
+              New collection
+            </button>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                addCollection();
+              }}
+              className="flex gap-2"
+            >
+              <input
+                autoFocus
+                value={newCollection}
+                onChange={(e) => setNewCollection(e.target.value)}
+                onBlur={addCollection}
+                placeholder="e.g. Goa trip"
+                className="bg-primary-900 border border-primary-700 rounded-full px-3 py-1 text-sm"
+              />
+            </form>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+          <label className="px-3 py-1.5 rounded-lg bg-primary-800 hover:bg-primary-700 inline-flex items-center gap-1 cursor-pointer">
+            <FiUpload />
+            Import
+            <input type="file" accept={IMPORT_ACCEPT} onChange={onImportFile} className="hidden" />
+          </label>
+          {visible.length > 0 && (
+            <>
+              <span className="text-gray-400 inline-flex items-center gap-1 ml-2">
+                <FiDownload />
+                Export {active ? active.name : 'all'} as
+              </span>
+              {(Object.keys(EXCHANGE_FORMATS) as ExchangeFormat[]).map((f) => (
+                <button
+                  key={f}
+                  type="button"
+                  onClick={() => onExport(f)}
+                  className="px-3 py-1.5 rounded-lg bg-primary-800 hover:bg-primary-700"
+                >
+                  {EXCHANGE_FORMATS[f].label}
+                </button>
+              ))}
+            </>
+          )}
+        </div>
+
+        {active && (
+          <div className="flex gap-3 mt-3 text-sm">
+            <button
+              type="button"
+              onClick={() => {
+                const name = window.prompt('Rename collection', active.name);
+                if (name != null) renameCollection(active.id, name);
+              }}
+              className="text-accent-400 hover:underline"
+            >
+              Rename
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                if (!window.confirm(`Delete the collection “${active.name}”? Its places stay saved.`)) return;
+                deleteCollection(active.id);
+                setActiveCollection(null);
+              }}
+              className="text-red-400 hover:underline"
+            >
+              Delete collection
+            </button>
+          </div>
+        )}
+
+        <div className="mt-4 space-y-3">
+          {visible.length === 0 ? (
+            <div className="text-gray-400 text-center py-8">
+              {active ? 'Nothing in this collection yet. Edit a place to add it.' : 'No saved places yet.'}
+            </div>
+          ) : (
+            visible.map((place) => (
+              <SavedPlaceCard
+                key={place.id}
+                place={place}
+                collections={collections}
+                onOpen={() => navigate(mapFocusUrl(place))}
+                onDirections={location ? () => navigate(mapDirectionsUrl(location, place)) : null}
+                onUpdate={(patch) => updatePlace(place.id, patch)}
+                onToggleCollection={(collectionId) => toggleInCollection(place.id, collectionId)}
+                onRemove={() => removePlace(place.id)}
+              />
+            ))
+          )}
+        </div>
+      </div>
+
+      {pendingImport && (
+        <ImportReview
+          fileName={pendingImport.fileName}
+          plan={pendingImport.plan}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={(resolutions) => {
+            const { added, updated } = importPlaces(pendingImport.plan, resolutions);
+            toast.success(`Imported ${added} new, updated ${updated}`);
+            setPendingImport(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SavedPlacesPage;
@@ -1,23 +1,32 @@
-import React, { useEffect, useMemo, useState } from 'react';
-import { FiArrowLeft, FiMapPin, FiNavigation, FiSearch, FiStar } from 'react-icons/fi';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FiArrowLeft, FiCheck, FiMapPin, FiNavigation, FiPlus, FiSearch, FiStar } from 'react-icons/fi';
 import { useNavigate } from 'react-router-dom';
+import { useRecoilState } from 'recoil';
+import toast from 'react-hot-toast';
+import { tripDraftState } from '../state/itinerary';
+import { MAX_ITINERARY_STOPS, stopsToSearchParams } from '../utils/itinerary';
 import { useGeolocation } from '../hooks/useGeolocation';
+import LocationStatus from '../components/location/LocationStatus';
 import { calculateDistance } from '../utils/googleMaps';
-import { fetchNearbyOsmPlaces } from '../utils/osm';
+import { openNearbyCursor } from '../utils/places';
+import type { NearbyCursor, NormalizedPlace } from '../utils/places';
 
 const TransportPage: React.FC = () => {
   const navigate = useNavigate();
   const {
     location,
-    error: locationError,
     loading: locationLoading,
     getCurrentLocation,
   } = useGeolocation();
 
-  const [places, setPlaces] = useState<Awaited<ReturnType<typeof fetchNearbyOsmPlaces>>>([]);
+  const [places, setPlaces] = useState<NormalizedPlace[]>([]);
   const [loadingPlaces, setLoadingPlaces] = useState(false);
   const [placesError, setPlacesError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const cursorRef = useRef<NearbyCursor | null>(null);
+  const [tripDraft, setTripDraft] = useRecoilState(tripDraftState);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   const canSearch = !!location && !locationLoading && !loadingPlaces;
 
@@ -27,17 +36,20 @@ const TransportPage: React.FC = () => {
     setLoadingPlaces(true);
     setPlacesError(null);
     try {
-      const results = await fetchNearbyOsmPlaces(
+      const cursor = openNearbyCursor(
         { lat: location.lat, lng: location.lng },
         {
-          // 25km similar to previous behavior
-          radiusMeters: 25_000,
           kinds: ['attraction'],
           query: searchQuery,
-          limit: 10,
+          pageSize: 10,
+          // 25km similar to previous behavior
+          maxRadiusMeters: 25_000,
         }
       );
+      cursorRef.current = cursor;
+      const results = await cursor.next();
       setPlaces(results);
+      setHasMore(cursor.hasMore());
     } catch (e) {
       setPlacesError(e instanceof Error ? e.message : 'Failed to fetch nearby places');
     } finally {
@@ -45,6 +57,25 @@ const TransportPage: React.FC = () => {
     }
   };
 
+  const loadMore = async () => {
+    const cursor = cursorRef.current;
+    if (!cursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const more = await cursor.next();
+      // A new search replaced this cursor while the page was loading.
+      if (cursorRef.current !== cursor) return;
+      setPlaces((prev) => [...prev, ...more]);
+      setHasMore(cursor.hasMore());
+    } catch (e) {
+      if (cursorRef.current !== cursor) return;
+      setPlacesError(e instanceof Error ? e.message : 'Failed to fetch more places');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   useEffect(() => {
     // Ask location on first load.
     getCurrentLocation();
@@ -91,6 +122,25 @@ const TransportPage: React.FC = () => {
     navigate(`/map?oLat=${location.lat}&oLng=${location.lng}&dLat=${p.lat}&dLng=${p.lng}`);
   };
 
+  const toggleTripStop = (p: NormalizedPlace) => {
+    if (tripDraft.some((s) => s.id === p.id)) {
+      setTripDraft((prev) => prev.filter((s) => s.id !== p.id));
+      return;
+    }
+    // One slot is reserved for the current location as the starting point.
+    if (tripDraft.length >= MAX_ITINERARY_STOPS - 1) {
+      toast.error(`A trip can have at most ${MAX_ITINERARY_STOPS} stops`);
+      return;
+    }
+    setTripDraft((prev) => [...prev, { id: p.id, name: p.name, lat: p.lat, lng: p.lng }]);
+  };
+
+  const planTrip = () => {
+    const start = location ? [{ lat: location.lat, lng: location.lng, name: 'My location' }] : [];
+    navigate(`/map?${stopsToSearchParams([...start, ...tripDraft]).toString()}`);
+    setTripDraft([]);
+  };
+
   return (
     <div className="min-h-screen bg-primary-950 text-white">
       <div className="max-w-4xl mx-auto p-4">
@@ -143,30 +193,7 @@ const TransportPage: React.FC = () => {
         </div>
 
         <div className="mt-4">
-          {locationLoading && (
-            <div className="text-gray-300">Getting your location…</div>
-          )}
-
-          {!locationLoading && locationError && (
-            <div className="bg-destructive/20 border border-destructive/40 rounded-xl p-4">
-              <div className="font-semibold">Location error</div>
-              <div className="text-gray-200 mt-1">{locationError}</div>
-              <button
-                type="button"
-                onClick={getCurrentLocation}
-                className="mt-3 px-4 py-2 rounded-lg bg-primary-800 hover:bg-primary-700"
-              >
-                Try again
-              </button>
-            </div>
-          )}
-
-          {!locationLoading && location && (
-            <div className="text-sm text-gray-400 flex items-center gap-2">
-              <FiMapPin />
-              {location.lat.toFixed(4)}, {location.lng.toFixed(4)}
-            </div>
-          )}
+          <LocationStatus />
 
           {placesError && (
             <div className="bg-destructive/20 border border-destructive/40 rounded-xl p-4 mt-4">
@@ -202,7 +229,7 @@ const TransportPage: React.FC = () => {
                 <div className="flex items-center gap-4 mt-3 text-sm text-gray-300">
                   <div className="inline-flex items-center gap-1">
                     <FiStar />
-                    {place.tags?.['rating'] ?? '—'}
+                    {place.rating ?? '—'}
                   </div>
                   <div className="inline-flex items-center gap-1">
                     <FiMapPin />
@@ -227,11 +254,44 @@ const TransportPage: React.FC = () => {
                   >
                     Bus Guidance
                   </button>
+
+                  <button
+                    type="button"
+                    onClick={() => toggleTripStop(place)}
+                    aria-pressed={tripDraft.some((s) => s.id === place.id)}
+                    aria-label={tripDraft.some((s) => s.id === place.id) ? 'Remove from trip' : 'Add to trip'}
+                    className="inline-flex items-center justify-center px-3 py-2 rounded-xl bg-primary-800 hover:bg-primary-700"
+                  >
+                    {tripDraft.some((s) => s.id === place.id) ? <FiCheck /> : <FiPlus />}
+                  </button>
                 </div>
               </div>
             ))}
           </div>
+
+          {!loadingPlaces && hasMore && derived.length > 0 && (
+            <button
+              type="button"
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="mt-4 w-full px-4 py-3 rounded-xl bg-primary-800 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loadingMore ? 'Loading…' : 'Load more farther places'}
+            </button>
+          )}
         </div>
+
+        {tripDraft.length > 0 && (
+          <div className="sticky bottom-4 mt-6">
+            <button
+              type="button"
+              onClick={planTrip}
+              className="w-full px-4 py-3 rounded-xl bg-accent-600 hover:bg-accent-500 text-black font-semibold shadow-lg"
+            >
+              Plan trip ({tripDraft.length} {tripDraft.length === 1 ? 'stop' : 'stops'})
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,111 @@
+import type { AtomEffect } from 'recoil';
+import { createIdbStore } from '../utils/idb';
+
+/**
+ * Mirror an atom into localStorage under `key`, restoring it on first read
+ */
+export const localStorageEffect =
+  <T>(key: string): AtomEffect<T> =>
+  ({ setSelf, onSet }) => {
+    try {
+      const raw = localStorage.getItem(key);
+      if (raw != null) setSelf(JSON.parse(raw) as T);
+    } catch {
+      // Corrupt or inaccessible storage: fall back to the default.
+    }
+    onSet((value, _, isReset) => {
+      try {
+        if (isReset || value == null) localStorage.removeItem(key);
+        else localStorage.setItem(key, JSON.stringify(value));
+      } catch {
+        // ignore quota / private mode errors
+      }
+    });
+  };
+
+type VersionedDoc = { version: number; data: unknown };
+
+/**
+ * Persist an atom to IndexedDB as a versioned document. Stored documents older
+ * than `version` are passed through `migrations[from]` one step at a time.
+ * Loading is async, so a write that lands before the stored value arrives is
+ * reconciled with `merge` instead of clobbering what was on disk.
+ *
+ * If a stored document can't be migrated (a step throws or is missing, or it was
+ * written by a newer version) the effect stops writing for the session, so the
+ * original stays on disk for a fixed build to pick up.
+ */
+export const indexedDbEffect =
+  <T>({
+    dbName,
+    storeName,
+    key,
+    version,
+    migrations = {},
+    merge = (_stored, current) => current,
+  }: {
+    dbName: string;
+    storeName: string;
+    key: string;
+    version: number;
+    // migrations[n] turns version-n data into version n + 1.
+    migrations?: Record<number, (data: unknown) => unknown>;
+    merge?: (stored: T, current: T) => T;
+  }): AtomEffect<T> =>
+  ({ setSelf, onSet, getPromise, node }) => {
+    const store = createIdbStore<VersionedDoc>(dbName, storeName);
+    const write = (value: T) => store.set(key, { version, data: value }).catch(() => undefined);
+
+    let loaded = false;
+    let dirty = false;
+    let readOnly = false;
+
+    store
+      .get(key)
+      .then(async (doc) => {
+        let stored: T | undefined;
+        if (doc) {
+          if (doc.version > version) {
+            readOnly = true;
+            throw new Error(`${key} was saved by a newer version (${doc.version})`);
+          }
+          let data = doc.data;
+          for (let v = doc.version; v < version; v++) {
+            const step = migrations[v];
+            try {
+              if (!step) throw new Error(`No migration for ${key} from version ${v}`);
+              data = step(data);
+            } catch (e) {
+              readOnly = true;
+              throw e;
+            }
+          }
+          stored = data as T;
+        }
+
+        if (!dirty) {
+          if (stored === undefined) return;
+          setSelf(stored);
+          if (doc?.version !== version) write(stored);
+          return;
+        }
+        const current = (await getPromise(node)) as T;
+        const next = stored === undefined ? current : merge(stored, current);
+        setSelf(next);
+        write(next);
+      })
+      .catch((e) => {
+        console.warn(`Could not restore ${key}${readOnly ? '; changes will not be saved this session' : ''}:`, e);
+      })
+      .finally(() => {
+        loaded = true;
+      });
+
+    onSet((value, _, isReset) => {
+      dirty = true;
+      // Before the load settles, the merge above writes the reconciled value.
+      if (!loaded || readOnly) return;
+      if (isReset) store.del(key).catch(() => undefined);
+      else write(value);
+    });
+  };
@@ -0,0 +1,14 @@
+import { atom } from 'recoil';
+
+export type TripDraftStop = {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+};
+
+// Stops collected from list pages before opening the planner on /map.
+export const tripDraftState = atom<TripDraftStop[]>({
+  key: 'tripDraftState',
+  default: [],
+});
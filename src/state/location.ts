@@ -0,0 +1,64 @@
+import { atom } from 'recoil';
+import type { AtomEffect } from 'recoil';
+import type { LocationFix } from '../utils/location';
+import { localStorageEffect } from './effects';
+
+export type LocationPermission = PermissionState | 'unknown';
+
+export type GpsLocation = {
+  fix: LocationFix | null;
+  error: string | null;
+  loading: boolean;
+};
+
+// An explicit "my location" chosen by the user; wins over GPS while set.
+export type ManualLocation = {
+  lat: number;
+  lng: number;
+  label: string;
+  setAt: number;
+};
+
+// A fix older than this is refreshed the next time a page asks for location.
+export const LOCATION_STALE_MS = 2 * 60_000;
+
+export const gpsLocationState = atom<GpsLocation>({
+  key: 'gpsLocationState',
+  default: { fix: null, error: null, loading: false },
+});
+
+const permissionEffect: AtomEffect<LocationPermission> = ({ setSelf }) => {
+  if (!navigator.permissions?.query) return;
+  let status: PermissionStatus | null = null;
+  let disposed = false;
+  const onChange = () => {
+    if (status) setSelf(status.state);
+  };
+  navigator.permissions
+    .query({ name: 'geolocation' })
+    .then((s) => {
+      if (disposed) return;
+      status = s;
+      setSelf(s.state);
+      s.addEventListener('change', onChange);
+    })
+    .catch(() => {
+      // Some browsers reject the geolocation descriptor; leave it unknown.
+    });
+  return () => {
+    disposed = true;
+    status?.removeEventListener('change', onChange);
+  };
+};
+
+export const locationPermissionState = atom<LocationPermission>({
+  key: 'locationPermissionState',
+  default: 'unknown',
+  effects: [permissionEffect],
+});
+
+export const manualLocationState = atom<ManualLocation | null>({
+  key: 'manualLocationState',
+  default: null,
+  effects: [localStorageEffect<ManualLocation | null>('local-lens:manual-location')],
+});
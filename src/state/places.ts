@@ -1,24 +1,63 @@
 import { atom } from 'recoil';
+import { indexedDbEffect, localStorageEffect } from './effects';
+import {
+  PLACE_COLLECTIONS_VERSION,
+  SAVED_PLACES_VERSION,
+  mergeCollections,
+  mergeSavedPlaces,
+} from '../utils/savedPlaces';
+import type { PlaceCollection, SavedPlace } from '../utils/savedPlaces';
+import { SEARCH_HISTORY_ENABLED_KEY, SEARCH_HISTORY_VERSION, mergeSearchHistory } from '../utils/searchHistory';
+import type { SearchHistoryEntry } from '../utils/searchHistory';
 
-export type RecentSearch = {
-  id: string;
-  query: string;
-  createdAt: number;
-};
+export type { PlaceCollection, SavedPlace } from '../utils/savedPlaces';
+export type { SearchHistoryEntry } from '../utils/searchHistory';
 
-export type SavedPlace = {
-  id: string;
-  name: string;
-  type: string;
-  createdAt: number;
-};
-
-export const recentSearchesState = atom<RecentSearch[]>({
-  key: 'recentSearchesState',
+export const searchHistoryState = atom<SearchHistoryEntry[]>({
+  key: 'searchHistoryState',
   default: [],
+  effects: [
+    indexedDbEffect<SearchHistoryEntry[]>({
+      dbName: 'local-lens-saved',
+      storeName: 'library',
+      key: 'searchHistory',
+      version: SEARCH_HISTORY_VERSION,
+      merge: mergeSearchHistory,
+    }),
+  ],
+});
+
+// Off: nothing is recorded and the stored history is wiped.
+export const searchHistoryEnabledState = atom<boolean>({
+  key: 'searchHistoryEnabledState',
+  default: true,
+  effects: [localStorageEffect<boolean>(SEARCH_HISTORY_ENABLED_KEY)],
 });
 
 export const savedPlacesState = atom<SavedPlace[]>({
   key: 'savedPlacesState',
   default: [],
+  effects: [
+    indexedDbEffect<SavedPlace[]>({
+      dbName: 'local-lens-saved',
+      storeName: 'library',
+      key: 'places',
+      version: SAVED_PLACES_VERSION,
+      merge: mergeSavedPlaces,
+    }),
+  ],
+});
+
+export const placeCollectionsState = atom<PlaceCollection[]>({
+  key: 'placeCollectionsState',
+  default: [],
+  effects: [
+    indexedDbEffect<PlaceCollection[]>({
+      dbName: 'local-lens-saved',
+      storeName: 'library',
+      key: 'collections',
+      version: PLACE_COLLECTIONS_VERSION,
+      merge: mergeCollections,
+    }),
+  ],
 });
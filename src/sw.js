@@ -0,0 +1,143 @@
+// Service worker. Built by the `serviceWorker` plugin in vite.config.ts, which
+// replaces the two placeholders below with this build's file list and a hash of it.
+
+const PRECACHE = self.__PRECACHE_MANIFEST;
+const VERSION = self.__CACHE_VERSION;
+
+const SHELL_CACHE = `local-lens-shell-${VERSION}`;
+const RUNTIME_CACHE = 'local-lens-runtime';
+const TILE_CACHE = 'local-lens-tiles';
+const MAX_TILES = 3000;
+
+const isTile = (url) => /(^|\.)tile\.openstreetmap\.org$/.test(url.hostname);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((k) => k.startsWith('local-lens-shell-') && k !== SHELL_CACHE).map((k) => caches.delete(k))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+let tilePuts = 0;
+
+// Cache keys come back in insertion order, so the front of the list is the oldest.
+const trimTiles = async () => {
+  const cache = await caches.open(TILE_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_TILES)).map((k) => cache.delete(k)));
+};
+
+// Downloaded offline regions (src/utils/offlineRegions/tiles.ts). Opened the
+// same way as src/utils/idb.ts so neither side ends up with a store-less database.
+const OFFLINE_TILE_DB = 'local-lens-offline-tiles';
+const OFFLINE_TILE_STORE = 'tiles';
+
+const readOfflineTile = (key) =>
+  new Promise((resolve) => {
+    const open = indexedDB.open(OFFLINE_TILE_DB, 1);
+    open.onupgradeneeded = () => {
+      if (!open.result.objectStoreNames.contains(OFFLINE_TILE_STORE)) {
+        open.result.createObjectStore(OFFLINE_TILE_STORE);
+      }
+    };
+    open.onerror = () => resolve(undefined);
+    open.onsuccess = () => {
+      const db = open.result;
+      const get = db.transaction(OFFLINE_TILE_STORE, 'readonly').objectStore(OFFLINE_TILE_STORE).get(key);
+      get.onsuccess = () => {
+        db.close();
+        resolve(get.result);
+      };
+      get.onerror = () => {
+        db.close();
+        resolve(undefined);
+      };
+    };
+  });
+
+// Tile URLs look like https://a.tile.openstreetmap.org/{z}/{x}/{y}.png
+const tileKey = (url) => url.pathname.replace(/^\//, '').replace(/\.png$/, '');
+
+// Tiles barely change; serve what we have and only hit the tile server for new ones.
+const tileResponse = async (request) => {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const downloaded = await readOfflineTile(tileKey(new URL(request.url)));
+  if (downloaded) return new Response(downloaded, { headers: { 'Content-Type': 'image/png' } });
+
+  const response = await fetch(request);
+  // The map's TileLayer sets crossOrigin, so responses are readable. Opaque ones
+  // would each count several MB against the quota whatever their real size.
+  if (response.ok) {
+    // Caching is best effort: a full quota shouldn't cost the user this tile.
+    cache
+      .put(request, response.clone())
+      .then(() => {
+        if (++tilePuts % 100 === 0) trimTiles();
+      })
+      .catch(() => trimTiles());
+  }
+  return response;
+};
+
+// Fresh HTML when online so a deploy is picked up; the cached shell otherwise.
+const navigationResponse = async (request) => {
+  try {
+    return await fetch(request);
+  } catch {
+    const shell = await caches.open(SHELL_CACHE);
+    return (await shell.match('/index.html')) ?? (await shell.match('/')) ?? Response.error();
+  }
+};
+
+const sameOriginResponse = async (request) => {
+  const precached = await caches.match(request, { cacheName: SHELL_CACHE });
+  if (precached) return precached;
+
+  const runtime = await caches.open(RUNTIME_CACHE);
+  const cached = await runtime.match(request);
+  const network = fetch(request).then((response) => {
+    if (response.ok) runtime.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    network.catch(() => undefined);
+    return cached;
+  }
+  return network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (request.mode === 'navigate') {
+    event.respondWith(navigationResponse(request));
+  } else if (isTile(url)) {
+    // Offline region downloads store tiles themselves; caching them here too would
+    // double the storage and push recently viewed tiles out of MAX_TILES.
+    if (request.cache === 'no-store') return;
+    event.respondWith(tileResponse(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(sameOriginResponse(request));
+  }
+  // Everything else (Overpass, routing, geocoding) is cached by the app itself.
+});
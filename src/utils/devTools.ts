@@ -0,0 +1,12 @@
+/**
+ * Whether to show developer panels: always in dev builds, and in production after
+ * localStorage.setItem('local-lens:dev-tools', '1').
+ */
+export const devToolsEnabled = () => {
+  if (import.meta.env.DEV) return true;
+  try {
+    return localStorage.getItem('local-lens:dev-tools') === '1';
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,60 @@
+import { phoneticKey } from './normalize';
+
+// Names that mean the same place. Old and new city names, and landmarks better
+// known by a nickname than by their name in OSM.
+export const PLACE_ALIASES: string[][] = [
+  ['bengaluru', 'bangalore'],
+  ['mysuru', 'mysore'],
+  ['mangaluru', 'mangalore'],
+  ['belagavi', 'belgaum'],
+  ['kalaburagi', 'gulbarga'],
+  ['mumbai', 'bombay'],
+  ['chennai', 'madras'],
+  ['kolkata', 'calcutta'],
+  ['pune', 'poona'],
+  ['kochi', 'cochin'],
+  ['thiruvananthapuram', 'trivandrum'],
+  ['kozhikode', 'calicut'],
+  ['puducherry', 'pondicherry'],
+  ['gurugram', 'gurgaon'],
+  ['vadodara', 'baroda'],
+  ['prayagraj', 'allahabad'],
+  ['varanasi', 'banaras', 'benares'],
+  ['majestic', 'kempegowda bus station', 'kbs'],
+  ['ksr bengaluru', 'bangalore city railway station'],
+  ['mg road', 'mahatma gandhi road'],
+  ['cst', 'chhatrapati shivaji terminus', 'victoria terminus'],
+  ['connaught place', 'rajiv chowk'],
+  ['ksrtc', 'karnataka state road transport'],
+];
+
+const KEYED = PLACE_ALIASES.map((group) => group.map((name) => ({ name, key: phoneticKey(name).split(' ') })));
+
+const indexOfPhrase = (words: string[], phrase: string[]) => {
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((p, j) => words[i + j] === p)) return i;
+  }
+  return -1;
+};
+
+/**
+ * The query with each known alias swapped in, e.g. "majestic bus stop" →
+ * ["kempegowda bus station bus stop", "kbs bus stop"]. Aliases are found by
+ * sound, so "bengalooru" still counts. The original query is not included.
+ */
+export const expandAliases = (query: string): string[] => {
+  const words = query.trim().split(/\s+/);
+  const keys = phoneticKey(query).split(' ');
+  if (keys.length !== words.length) return [];
+
+  return KEYED.flatMap((group) => {
+    for (const member of group) {
+      const at = indexOfPhrase(keys, member.key);
+      if (at < 0) continue;
+      return group
+        .filter((other) => other !== member)
+        .map((other) => [...words.slice(0, at), other.name, ...words.slice(at + member.key.length)].join(' '));
+    }
+    return [];
+  });
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { expandAliases, fuzzyMatches, fuzzyScore, normalizeText, phoneticKey, spellingPattern } from '.';
+
+// [query, place name] pairs people actually type against what OSM has.
+const matches: Array<[string, string]> = [
+  ['biriyani', 'Biryani'],
+  ['biryani', 'Meghana Biriyani House'],
+  ['briyani', 'Biryani Zone'],
+  ['Bengaluru', 'Bangalore Central'],
+  ['bangalore', 'Bengaluru Palace'],
+  ['Majestic', 'Kempegowda Bus Station'],
+  ['majestic bus stand', 'Kempegowda Bus Station'],
+  ['mysore pak', 'Mysuru Pak Centre'],
+  ['calicut', 'Kozhikode Beach'],
+  ['dosa', 'Dosa Camp'],
+  ['masala dosa', 'Masaala Dosai'],
+  ['cafe coffee day', 'Café Coffee Day'],
+  ['piza', 'Pizza Hut'],
+  ['busstand', 'KSRTC Bus Stand'],
+  ['vidyarthi bhavan', 'Vidyarthibhavan'],
+  ['chaat', 'Chat Corner'],
+  ['मुंबई', 'मुंबई सेंट्रल'],
+];
+
+const nonMatches: Array<[string, string]> = [
+  ['coffee', 'Toffee Shop'],
+  ['biryani', 'Burn Cafe'],
+  ['biryani', 'Barn Owl Cafe'],
+  ['biryani', 'Bern Bakery'],
+  ['dosa', 'Rosa Pharmacy'],
+  ['majestic', 'Magic Mirror Salon'],
+  ['bengaluru', 'Bhagalpur Sweets'],
+  ['मुंबई', 'दिल्ली'],
+];
+
+describe('fuzzy place matching', () => {
+  it.each(matches)('%s finds %s', (query, name) => {
+    expect(fuzzyMatches(query, [name])).toBe(true);
+  });
+
+  it.each(nonMatches)('%s does not find %s', (query, name) => {
+    expect(fuzzyMatches(query, [name])).toBe(false);
+  });
+
+  it('ranks exact over prefix over fuzzy', () => {
+    const exact = fuzzyScore('biryani', 'Biryani');
+    const prefix = fuzzyScore('biryani', 'Biryani Zone');
+    const typo = fuzzyScore('biriyani', 'Biryani Zone');
+    expect(exact).toBeGreaterThan(prefix);
+    expect(prefix).toBeGreaterThan(typo);
+  });
+});
+
+describe('normalizeText', () => {
+  it('strips Latin accents and punctuation', () => {
+    expect(normalizeText('Café  Coffee-Day!')).toBe('cafe coffee day');
+  });
+
+  it('keeps vowel signs and anusvara in Indic scripts', () => {
+    expect(normalizeText('मुंबई सेंट्रल')).toBe('मुंबई सेंट्रल');
+    expect(fuzzyScore('मुबई', 'मुंबई')).toBeLessThan(1);
+  });
+});
+
+describe('transliteration helpers', () => {
+  it('gives spellings of the same name one phonetic key', () => {
+    expect(phoneticKey('Bengaluru')).toBe(phoneticKey('Bangalore'));
+    expect(phoneticKey('biriyani')).toBe(phoneticKey('biryani'));
+  });
+
+  it('swaps in known aliases', () => {
+    expect(expandAliases('majestic bus stop')).toEqual(['kempegowda bus station bus stop', 'kbs bus stop']);
+  });
+
+  it.each(matches.filter(([q]) => /^[a-z ]+$/i.test(q) && !q.includes(' ')))(
+    'spelling pattern for %s lets %s through to scoring',
+    (query, name) => {
+      expect(new RegExp(spellingPattern(query), 'i').test(name)).toBe(true);
+    }
+  );
+});
@@ -0,0 +1,4 @@
+export { PLACE_ALIASES, expandAliases } from './aliases';
+export { normalizeText, phoneticKey } from './normalize';
+export { spellingPattern } from './pattern';
+export { FUZZY_MATCH_THRESHOLD, bestFuzzyScore, fuzzyMatches, fuzzyScore, levenshtein, trigramSimilarity } from './score';
@@ -0,0 +1,34 @@
+/**
+ * Lowercase, strip Latin diacritics and punctuation, collapse whitespace:
+ * "Café  Coffee-Day" → "cafe coffee day". Marks in other scripts are part of
+ * the spelling ("मुंबई" keeps its vowel sign and anusvara).
+ */
+export const normalizeText = (s: string) =>
+  s
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+
+/**
+ * Sound-alike key for romanised (mostly Indian) names, so spellings of the same
+ * word compare equal: aspirates lose their h, a hard c becomes k, doubled
+ * letters and vowel runs collapse. "Bengaluru" and "Bangalore" both become "bangalara"; "biriyani" and
+ * "biryani" both become "barana". Far too lossy to rank on alone.
+ */
+export const phoneticKey = (s: string) =>
+  normalizeText(s)
+    .split(' ')
+    .map((w) =>
+      w
+        .replace(/ph/g, 'f')
+        .replace(/ck|q|c(?!h)/g, 'k')
+        .replace(/x/g, 'ks')
+        .replace(/w/g, 'v')
+        .replace(/z/g, 'j')
+        .replace(/([bcdgjklmnprstv])h/g, '$1')
+        .replace(/[aeiouy]+/g, 'a')
+        .replace(/(.)\1+/g, '$1')
+    )
+    .join(' ');
@@ -0,0 +1,63 @@
+import { expandAliases } from './aliases';
+import { normalizeText } from './normalize';
+
+// Letters that stand for the same sound in romanised names, mirroring phoneticKey.
+const SOUND_CLASSES: Record<string, string> = {
+  c: '[ckq]',
+  k: '[ckq]',
+  q: '[ckq]',
+  f: '(f|ph)',
+  v: '[vw]',
+  w: '[vw]',
+  j: '[jz]',
+  z: '[jz]',
+  x: '(x|ks)',
+};
+
+const VOWEL = /[aeiouy]/;
+
+// Fewer consonants than this leave a pattern that matches nearly anything.
+const MIN_CONSONANTS = 3;
+
+const wordPattern = (word: string) => {
+  if (!/^[a-z]+$/.test(word)) return word;
+
+  const units: Array<{ ch: string; doubled: boolean }> = [];
+  for (let i = 0; i < word.length; i++) {
+    const ch = word[i];
+    if (VOWEL.test(ch)) continue;
+    // Aspiration: "bh", "th", "dh" are matched by the h? after each consonant.
+    if (ch === 'h' && i > 0 && !VOWEL.test(word[i - 1])) continue;
+    // Doubled letters are covered by the + after each consonant.
+    if (i > 0 && word[i - 1] === ch) {
+      units[units.length - 1].doubled = true;
+      continue;
+    }
+    units.push({ ch, doubled: false });
+  }
+  // Short words keep their vowels; only the number of repeated letters is free ("piza" → pizza).
+  if (units.length < MIN_CONSONANTS) return word.replace(/(.)\1+/g, '$1').replace(/./g, '$&+');
+
+  const lead = VOWEL.test(word[0]) ? '[aeiouy]+' : '';
+  // Words typed run together may be apart in the name: "busstand" for "Bus Stand".
+  return (
+    lead +
+    units
+      .map(({ ch, doubled }) => {
+        const cls = SOUND_CLASSES[ch] ?? ch;
+        return doubled ? `${cls}+ ?${cls}*h?` : `${cls}+h?`;
+      })
+      .join('[aeiouy ]*')
+  );
+};
+
+/**
+ * POSIX extended regex matching common spellings of `query` and its aliases,
+ * for servers that can only filter by regex (Overpass). Deliberately loose:
+ * results should be re-checked with fuzzyMatches.
+ */
+export const spellingPattern = (query: string) => {
+  const variants = [normalizeText(query), ...expandAliases(normalizeText(query))].filter(Boolean);
+  const patterns = [...new Set(variants.map((v) => v.split(' ').map(wordPattern).join('.*')))];
+  return patterns.length > 1 ? patterns.map((p) => `(${p})`).join('|') : patterns[0] ?? '';
+};
@@ -0,0 +1,102 @@
+import { expandAliases } from './aliases';
+import { normalizeText, phoneticKey } from './normalize';
+
+// Scores at or above this are treated as a match by callers that filter.
+export const FUZZY_MATCH_THRESHOLD = 0.7;
+
+/**
+ * Edit distance where swapping two adjacent letters counts as one edit
+ * ("briyani" for "biryani"), i.e. optimal string alignment
+ */
+export const levenshtein = (a: string, b: string) => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let before: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], before[j - 2] + 1);
+      }
+    }
+    before = prev;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+const trigrams = (s: string) => {
+  const padded = `  ${s} `;
+  const set = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) set.add(padded.slice(i, i + 3));
+  return set;
+};
+
+/**
+ * Dice coefficient over character trigrams, 0–1
+ */
+export const trigramSimilarity = (a: string, b: string) => {
+  if (!a || !b) return 0;
+  const ta = trigrams(a);
+  const tb = trigrams(b);
+  let shared = 0;
+  for (const g of ta) if (tb.has(g)) shared += 1;
+  return (2 * shared) / (ta.size + tb.size);
+};
+
+const tokenSimilarity = (q: string, t: string) => {
+  if (q === t) return 1;
+  if (t.startsWith(q)) return q.length >= 3 ? 0.9 : 0.7;
+  // Too short to tell a typo from a different word.
+  if (q.length < 3) return 0;
+
+  const pq = phoneticKey(q);
+  const pt = phoneticKey(t);
+  // People rarely get the first sound wrong: "toffee" is not a typo for "coffee".
+  const lead = pq[0] === pt[0] ? 1 : 0.8;
+  const edit = (1 - levenshtein(q, t) / Math.max(q.length, t.length)) * lead;
+  // A typo in what the user has typed so far: "biri" against "biryani".
+  const prefix = t.length > q.length ? (1 - levenshtein(q, t.slice(0, q.length)) / q.length) * 0.85 * lead : 0;
+  const sound = pq === pt ? 0.9 : pq.length >= 4 && pt.startsWith(pq) ? 0.8 : 0;
+  return Math.max(edit, prefix, sound);
+};
+
+const directScore = (q: string, t: string) => {
+  if (t === q) return 1;
+  if (t.startsWith(q)) return 0.95;
+  if (` ${t}`.includes(` ${q}`)) return 0.9;
+  if (t.includes(q)) return 0.8;
+
+  // Every query word against its best text word, or two text words run
+  // together ("busstand"); fuzzy never outranks a substring.
+  const split = t.split(' ');
+  const words = [...split, ...split.slice(1).map((w, i) => split[i] + w)];
+  const best = q.split(' ').map((qw) => Math.max(...words.map((w) => tokenSimilarity(qw, w))));
+  const tokens = (best.reduce((sum, s) => sum + s, 0) / best.length) * 0.9;
+  // Whole-string overlap, for queries split differently from the name ("vidyarthi bhavan" vs "vidyarthibhavan").
+  const joined = trigramSimilarity(q.replace(/ /g, ''), t.replace(/ /g, '')) * 0.8;
+  return Math.max(tokens, joined);
+};
+
+/**
+ * How well `text` answers `query`, from 0 to 1. Exact and prefix matches score
+ * highest, then substrings, then typo, transliteration and alias matches.
+ */
+export const fuzzyScore = (query: string, text: string) => {
+  const q = normalizeText(query);
+  const t = normalizeText(text);
+  if (!q || !t) return 0;
+  return Math.max(directScore(q, t), ...expandAliases(q).map((alias) => directScore(alias, t) * 0.95));
+};
+
+/**
+ * Best score of `query` against any of `texts`; blank entries are skipped
+ */
+export const bestFuzzyScore = (query: string, texts: Array<string | undefined>) =>
+  Math.max(0, ...texts.filter((t): t is string => !!t).map((t) => fuzzyScore(query, t)));
+
+export const fuzzyMatches = (query: string, texts: Array<string | undefined>) =>
+  !query.trim() || bestFuzzyScore(query, texts) >= FUZZY_MATCH_THRESHOLD;
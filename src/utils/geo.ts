@@ -0,0 +1,49 @@
+export type LatLng = {
+  lat: number;
+  lng: number;
+};
+
+const toRad = (v: number) => (v * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in meters (haversine)
+ */
+export const distanceMeters = (a: LatLng, b: LatLng): number => {
+  const R = 6371000;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const s1 = Math.sin(dLat / 2);
+  const s2 = Math.sin(dLng / 2);
+  const aa = s1 * s1 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * s2 * s2;
+  return R * 2 * Math.atan2(Math.sqrt(aa), Math.sqrt(1 - aa));
+};
+
+export type LatLngBounds = {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+};
+
+export const boundsCenter = (b: LatLngBounds): LatLng => ({
+  lat: (b.south + b.north) / 2,
+  lng: (b.west + b.east) / 2,
+});
+
+/**
+ * Radius of the circle around the bounds' center that covers the whole box
+ */
+export const boundsRadiusMeters = (b: LatLngBounds) =>
+  distanceMeters(boundsCenter(b), { lat: b.north, lng: b.east });
+
+export const boundsContain = (b: LatLngBounds, p: LatLng) =>
+  p.lat >= b.south && p.lat <= b.north && p.lng >= b.west && p.lng <= b.east;
+
+/**
+ * Grow bounds by a fraction of their size on every side
+ */
+export const padBounds = (b: LatLngBounds, ratio: number): LatLngBounds => {
+  const dLat = (b.north - b.south) * ratio;
+  const dLng = (b.east - b.west) * ratio;
+  return { south: b.south - dLat, west: b.west - dLng, north: b.north + dLat, east: b.east + dLng };
+};
@@ -0,0 +1,86 @@
+import { createIdbStore } from '../idb';
+
+type CacheEntry<T> = {
+  key: string;
+  value: T;
+  fetchedAt: number;
+  accessedAt: number;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+// Addresses and place names change slowly; Nominatim asks clients to cache aggressively.
+const MAX_AGE = 30 * DAY;
+const MAX_ENTRIES = 500;
+
+const store = createIdbStore<CacheEntry<unknown>>('local-lens-geocoding', 'results');
+const memory = new Map<string, CacheEntry<unknown>>();
+let hydrated: Promise<void> | null = null;
+
+const hydrate = () => {
+  if (!hydrated) {
+    hydrated = store
+      .entries()
+      .then((rows) => {
+        for (const [key, entry] of rows) {
+          if (!memory.has(key)) memory.set(key, entry);
+        }
+      })
+      .catch(() => {
+        // IndexedDB unavailable or blocked: memory-only cache.
+      });
+  }
+  return hydrated;
+};
+
+const evict = async () => {
+  if (memory.size <= MAX_ENTRIES) return;
+  const victims = [...memory.values()]
+    .sort((a, b) => a.accessedAt - b.accessedAt)
+    .slice(0, memory.size - MAX_ENTRIES);
+  for (const v of victims) {
+    memory.delete(v.key);
+    await store.del(v.key).catch(() => undefined);
+  }
+};
+
+/**
+ * Cached value for a key, or undefined when missing or expired. `null` is a
+ * valid cached value (e.g. a reverse lookup in the middle of the sea).
+ */
+export const readGeocodeCache = async <T>(key: string): Promise<T | undefined> => {
+  await hydrate();
+  const entry = memory.get(key);
+  if (!entry) return undefined;
+  if (Date.now() - entry.fetchedAt > MAX_AGE) {
+    memory.delete(key);
+    store.del(key).catch(() => undefined);
+    return undefined;
+  }
+  entry.accessedAt = Date.now();
+  return entry.value as T;
+};
+
+/**
+ * Store a value. With `persist: false` it only lives in memory for this session.
+ */
+export const writeGeocodeCache = async <T>(key: string, value: T, { persist = true } = {}) => {
+  await hydrate();
+  const now = Date.now();
+  const entry: CacheEntry<unknown> = { key, value, fetchedAt: now, accessedAt: now };
+  memory.set(key, entry);
+  if (persist) await store.set(key, entry).catch(() => undefined);
+  await evict();
+};
+
+export const deleteGeocodeCacheEntries = async (match: (key: string) => boolean) => {
+  await hydrate();
+  for (const key of [...memory.keys()].filter(match)) {
+    memory.delete(key);
+    await store.del(key).catch(() => undefined);
+  }
+};
+
+export const clearGeocodeCache = async () => {
+  memory.clear();
+  await store.clear().catch(() => undefined);
+};
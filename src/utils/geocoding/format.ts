@@ -0,0 +1,15 @@
+import type { GeocodeResult } from './types';
+
+/**
+ * Compact "street, neighbourhood, city" label for a reverse-geocoded point,
+ * falling back to the head of the backend's full label.
+ */
+export const formatAreaLabel = (result: GeocodeResult): string => {
+  const { address } = result;
+  const street = address.road ? [address.houseNumber, address.road].filter(Boolean).join(' ') : result.name;
+  const parts = [street, address.neighbourhood ?? address.suburb, address.city].filter(
+    (s, i, all): s is string => !!s && all.indexOf(s) === i
+  );
+  if (parts.length) return parts.join(', ');
+  return result.label.split(',').slice(0, 3).join(',').trim();
+};
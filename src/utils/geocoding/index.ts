@@ -0,0 +1,175 @@
+import type { LatLng } from '../geo';
+import { isSearchHistoryEnabled } from '../searchHistory';
+import { deleteGeocodeCacheEntries, readGeocodeCache, writeGeocodeCache } from './cache';
+import { nominatimBackend } from './nominatimBackend';
+import { photonBackend } from './photonBackend';
+import { createRateLimitedQueue } from './queue';
+import type {
+  GeocodeOptions,
+  GeocodeResult,
+  GeocoderId,
+  GeocodingBackend,
+  ReverseGeocodeOptions,
+  StructuredQuery,
+} from './types';
+
+export { clearGeocodeCache } from './cache';
+export { formatAreaLabel } from './format';
+export type {
+  GeocodeAddress,
+  GeocodeOptions,
+  GeocodeResult,
+  GeocoderId,
+  GeocodingBackend,
+  ReverseGeocodeOptions,
+  StructuredQuery,
+} from './types';
+
+const backends: Record<GeocoderId, GeocodingBackend> = {
+  nominatim: nominatimBackend,
+  photon: photonBackend,
+};
+
+const isGeocoderId = (v: string): v is GeocoderId => v in backends;
+
+// Backend is chosen per deployment via VITE_GEOCODER (nominatim | photon).
+const configured = (import.meta.env.VITE_GEOCODER ?? '').trim().toLowerCase();
+let activeBackendId: GeocoderId = isGeocoderId(configured) ? configured : 'nominatim';
+
+// One queue per backend, shared by every caller in the app.
+const queues = new Map<GeocoderId, ReturnType<typeof createRateLimitedQueue>>();
+
+export const getGeocoder = (): GeocodingBackend => backends[activeBackendId];
+
+export const setGeocoder = (id: GeocoderId) => {
+  activeBackendId = id;
+};
+
+/**
+ * Replace the implementation behind a backend id (e.g. a self-hosted Pelias)
+ */
+export const registerGeocoder = (backend: GeocodingBackend) => {
+  backends[backend.id] = backend;
+  queues.delete(backend.id);
+};
+
+const queueFor = (backend: GeocodingBackend) => {
+  let queue = queues.get(backend.id);
+  if (!queue) {
+    queue = createRateLimitedQueue(backend.minIntervalMs);
+    queues.set(backend.id, queue);
+  }
+  return queue;
+};
+
+const isTextSearch = (cacheKey: string) => cacheKey.split('|')[1] !== 'reverse';
+
+// Identical requests already on their way share one network call.
+const inFlight = new Map<string, Promise<unknown>>();
+
+const cached = async <T>(
+  backend: GeocodingBackend,
+  key: string,
+  run: (signal?: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const cacheKey = `${backend.id}|${key}`;
+  const hit = await readGeocodeCache<T>(cacheKey);
+  if (hit !== undefined) return hit;
+
+  const pending = inFlight.get(cacheKey) as Promise<T> | undefined;
+  if (pending && !signal) return pending;
+
+  const promise = queueFor(backend)
+    .schedule(() => run(signal), signal)
+    .then(async (value) => {
+      // Typed queries stay out of IndexedDB while search history is off.
+      await writeGeocodeCache(cacheKey, value, { persist: !isTextSearch(cacheKey) || isSearchHistoryEnabled() });
+      return value;
+    });
+  if (!signal) {
+    inFlight.set(cacheKey, promise);
+    const forget = () => inFlight.delete(cacheKey);
+    promise.then(forget, forget);
+  }
+  return promise;
+};
+
+const optionsKey = ({ limit = 5, countryCodes, near }: GeocodeOptions) =>
+  [
+    limit,
+    countryCodes?.map((c) => c.toLowerCase()).sort().join(',') ?? '',
+    // Bias point only matters at city scale.
+    near ? `${near.lat.toFixed(1)},${near.lng.toFixed(1)}` : '',
+  ].join('|');
+
+const normalizeQuery = (q: string) => q.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Free-text forward geocoding
+ */
+export const geocode = (query: string, options: GeocodeOptions = {}): Promise<GeocodeResult[]> => {
+  const q = normalizeQuery(query);
+  if (!q) return Promise.resolve([]);
+  const backend = getGeocoder();
+  return cached(
+    backend,
+    `search|${q}|${optionsKey(options)}`,
+    (signal) => backend.search(query.trim(), { ...options, signal }),
+    options.signal
+  );
+};
+
+/**
+ * Search-as-you-type suggestions. Nominatim's usage policy forbids
+ * client-side autocomplete, so this goes to an autocomplete-friendly backend
+ * when the configured one isn't.
+ */
+export const suggestPlaces = (query: string, options: GeocodeOptions = {}): Promise<GeocodeResult[]> => {
+  const q = normalizeQuery(query);
+  if (!q) return Promise.resolve([]);
+  const active = getGeocoder();
+  const backend = active.autocomplete ? active : backends.photon;
+  return cached(
+    backend,
+    `search|${q}|${optionsKey(options)}`,
+    (signal) => backend.search(query.trim(), { ...options, signal }),
+    options.signal
+  );
+};
+
+export const geocodeStructured = (query: StructuredQuery, options: GeocodeOptions = {}): Promise<GeocodeResult[]> => {
+  const parts = (['street', 'city', 'county', 'state', 'country', 'postalCode'] as const).map((k) =>
+    normalizeQuery(query[k] ?? '')
+  );
+  if (parts.every((p) => !p)) return Promise.resolve([]);
+  const backend = getGeocoder();
+  return cached(
+    backend,
+    `structured|${parts.join(';')}|${optionsKey(options)}`,
+    (signal) => backend.structured(query, { ...options, signal }),
+    options.signal
+  );
+};
+
+/**
+ * Drop cached text searches, keeping reverse lookups. Used when search history is
+ * turned off so typed queries don't linger here either.
+ */
+export const forgetGeocodeQueries = () => deleteGeocodeCacheEntries(isTextSearch);
+
+/**
+ * Best address for a point, or null when there is nothing there (open sea).
+ * Coordinates are rounded to ~10 m so nearby taps share a cache entry.
+ */
+export const reverseGeocode = (point: LatLng, options: ReverseGeocodeOptions = {}): Promise<GeocodeResult | null> => {
+  const zoom = options.zoom ?? 18;
+  const rounded = { lat: Number(point.lat.toFixed(4)), lng: Number(point.lng.toFixed(4)) };
+  const backend = getGeocoder();
+  return cached(
+    backend,
+    `reverse|${rounded.lat},${rounded.lng}|${zoom}`,
+    (signal) => backend.reverse(rounded, { zoom, signal }),
+    options.signal
+  );
+};
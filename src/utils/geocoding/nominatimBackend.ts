@@ -0,0 +1,122 @@
+import type { LatLng } from '../geo';
+import type { GeocodeAddress, GeocodeOptions, GeocodeResult, GeocodingBackend, StructuredQuery } from './types';
+
+type NominatimAddress = Partial<
+  Record<
+    | 'house_number'
+    | 'road'
+    | 'neighbourhood'
+    | 'suburb'
+    | 'city'
+    | 'town'
+    | 'village'
+    | 'hamlet'
+    | 'state'
+    | 'postcode'
+    | 'country'
+    | 'country_code',
+    string
+  >
+>;
+
+type NominatimPlace = {
+  place_id: number;
+  osm_type?: string;
+  osm_id?: number;
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+  address?: NominatimAddress;
+};
+
+const BASE_URL = (import.meta.env.VITE_NOMINATIM_URL ?? 'https://nominatim.openstreetmap.org').replace(/\/+$/, '');
+
+// Browsers won't let us set User-Agent, so the policy's identification
+// requirement is met by the Referer header plus an optional contact address.
+const CONTACT_EMAIL = import.meta.env.VITE_NOMINATIM_EMAIL?.trim();
+
+const mapAddress = (a: NominatimAddress = {}): GeocodeAddress => ({
+  houseNumber: a.house_number,
+  road: a.road,
+  neighbourhood: a.neighbourhood,
+  suburb: a.suburb,
+  city: a.city ?? a.town ?? a.village ?? a.hamlet,
+  state: a.state,
+  postcode: a.postcode,
+  country: a.country,
+  countryCode: a.country_code?.toLowerCase(),
+});
+
+const mapPlace = (p: NominatimPlace): GeocodeResult | null => {
+  const lat = Number(p.lat);
+  const lng = Number(p.lon);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  return {
+    id: p.osm_type && p.osm_id ? `${p.osm_type}/${p.osm_id}` : String(p.place_id),
+    label: p.display_name,
+    name: p.name || undefined,
+    lat,
+    lng,
+    provider: 'nominatim',
+    address: mapAddress(p.address),
+  };
+};
+
+const request = async <T>(path: string, params: Record<string, string | undefined>, signal?: AbortSignal) => {
+  const qs = new URLSearchParams({ format: 'jsonv2', addressdetails: '1' });
+  for (const [k, v] of Object.entries(params)) if (v) qs.set(k, v);
+  if (CONTACT_EMAIL) qs.set('email', CONTACT_EMAIL);
+  const res = await fetch(`${BASE_URL}/${path}?${qs}`, { signal, headers: { Accept: 'application/json' } });
+  if (!res.ok) throw new Error(`Nominatim error: ${res.status}`);
+  return (await res.json()) as T;
+};
+
+const commonParams = ({ limit = 5, countryCodes, near }: GeocodeOptions) => {
+  // A loose viewbox biases ranking towards `near` without excluding anything.
+  const viewbox = near ? [near.lng - 0.5, near.lat + 0.5, near.lng + 0.5, near.lat - 0.5].join(',') : undefined;
+  return {
+    limit: String(limit),
+    countrycodes: countryCodes?.length ? countryCodes.join(',') : undefined,
+    viewbox,
+  };
+};
+
+const search = async (query: string, options: GeocodeOptions) => {
+  const data = await request<NominatimPlace[]>('search', { q: query, ...commonParams(options) }, options.signal);
+  return data.map(mapPlace).filter((r): r is GeocodeResult => r !== null);
+};
+
+const structured = async (q: StructuredQuery, options: GeocodeOptions) => {
+  const params = {
+    street: q.street,
+    city: q.city,
+    county: q.county,
+    state: q.state,
+    country: q.country,
+    postalcode: q.postalCode,
+    ...commonParams(options),
+  };
+  const data = await request<NominatimPlace[]>('search', params, options.signal);
+  return data.map(mapPlace).filter((r): r is GeocodeResult => r !== null);
+};
+
+const reverse = async (point: LatLng, { zoom = 18, signal }: { zoom?: number; signal?: AbortSignal }) => {
+  const data = await request<NominatimPlace | { error: string }>(
+    'reverse',
+    { lat: String(point.lat), lon: String(point.lng), zoom: String(zoom) },
+    signal
+  );
+  return 'error' in data ? null : mapPlace(data);
+};
+
+export const nominatimBackend: GeocodingBackend = {
+  id: 'nominatim',
+  label: 'Nominatim',
+  // Absolute maximum of one request per second; keep a little headroom.
+  minIntervalMs: 1100,
+  autocomplete: false,
+  search,
+  structured,
+  reverse,
+};
@@ -0,0 +1,100 @@
+import type { LatLng } from '../geo';
+import type { GeocodeOptions, GeocodeResult, GeocodingBackend, StructuredQuery } from './types';
+
+type PhotonFeature = {
+  geometry?: { coordinates?: [number, number] };
+  properties?: Partial<
+    Record<
+      | 'osm_type'
+      | 'name'
+      | 'housenumber'
+      | 'street'
+      | 'district'
+      | 'locality'
+      | 'city'
+      | 'state'
+      | 'postcode'
+      | 'country'
+      | 'countrycode',
+      string
+    >
+  > & { osm_id?: number };
+};
+
+const BASE_URL = (import.meta.env.VITE_PHOTON_URL ?? 'https://photon.komoot.io').replace(/\/+$/, '');
+
+const mapFeature = (f: PhotonFeature): GeocodeResult | null => {
+  const coords = f.geometry?.coordinates;
+  if (!coords || !Number.isFinite(coords[0]) || !Number.isFinite(coords[1])) return null;
+  const [lng, lat] = coords;
+  const p = f.properties ?? {};
+  const street = [p.housenumber, p.street].filter(Boolean).join(' ');
+  const parts = [p.name, street, p.district ?? p.locality, p.city, p.state, p.country].filter(
+    (s, i, all): s is string => !!s && all.indexOf(s) === i
+  );
+  return {
+    id: p.osm_type && p.osm_id ? `${p.osm_type}/${p.osm_id}` : `${lat.toFixed(6)},${lng.toFixed(6)}`,
+    label: parts.join(', ') || `${lat.toFixed(5)}, ${lng.toFixed(5)}`,
+    name: p.name,
+    lat,
+    lng,
+    provider: 'photon',
+    address: {
+      houseNumber: p.housenumber,
+      road: p.street,
+      neighbourhood: p.locality,
+      suburb: p.district,
+      city: p.city,
+      state: p.state,
+      postcode: p.postcode,
+      country: p.country,
+      countryCode: p.countrycode?.toLowerCase(),
+    },
+  };
+};
+
+const request = async (path: string, params: Record<string, string | undefined>, signal?: AbortSignal) => {
+  const qs = new URLSearchParams();
+  for (const [k, v] of Object.entries(params)) if (v) qs.set(k, v);
+  const res = await fetch(`${BASE_URL}/${path}?${qs}`, { signal, headers: { Accept: 'application/json' } });
+  if (!res.ok) throw new Error(`Photon error: ${res.status}`);
+  const data = (await res.json()) as { features?: PhotonFeature[] };
+  return (data.features ?? []).map(mapFeature).filter((r): r is GeocodeResult => r !== null);
+};
+
+const search = async (query: string, { limit = 5, countryCodes, near, signal }: GeocodeOptions) => {
+  // Photon has no country filter, so over-fetch and filter locally.
+  const codes = countryCodes?.map((c) => c.toLowerCase());
+  const results = await request(
+    'api',
+    {
+      q: query,
+      limit: String(codes?.length ? limit * 3 : limit),
+      lat: near ? String(near.lat) : undefined,
+      lon: near ? String(near.lng) : undefined,
+    },
+    signal
+  );
+  return results
+    .filter((r) => !codes?.length || (r.address.countryCode && codes.includes(r.address.countryCode)))
+    .slice(0, limit);
+};
+
+// No structured endpoint; the free-text parser copes well with comma-separated parts.
+const structured = (q: StructuredQuery, options: GeocodeOptions) =>
+  search([q.street, q.postalCode, q.city, q.county, q.state, q.country].filter(Boolean).join(', '), options);
+
+const reverse = async (point: LatLng, { signal }: { signal?: AbortSignal }) => {
+  const [first] = await request('reverse', { lat: String(point.lat), lon: String(point.lng), limit: '1' }, signal);
+  return first ?? null;
+};
+
+export const photonBackend: GeocodingBackend = {
+  id: 'photon',
+  label: 'Photon',
+  minIntervalMs: 200,
+  autocomplete: true,
+  search,
+  structured,
+  reverse,
+};
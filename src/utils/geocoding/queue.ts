@@ -0,0 +1,68 @@
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+type Job = {
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * Serial queue that leaves at least `minIntervalMs` between the start of one
+ * request and the next. Jobs whose signal aborts while waiting are dropped
+ * without ever hitting the network.
+ */
+export const createRateLimitedQueue = (minIntervalMs: number) => {
+  const jobs: Job[] = [];
+  let lastStart = 0;
+  let draining = false;
+
+  const drain = async () => {
+    if (draining) return;
+    draining = true;
+    try {
+      while (jobs.length) {
+        const wait = lastStart + minIntervalMs - Date.now();
+        if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+
+        const job = jobs.shift();
+        if (!job) break;
+        if (job.signal?.aborted) {
+          job.reject(abortError());
+          continue;
+        }
+        lastStart = Date.now();
+        try {
+          job.resolve(await job.run());
+        } catch (e) {
+          job.reject(e);
+        }
+      }
+    } finally {
+      draining = false;
+    }
+  };
+
+  const schedule = <T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const job: Job = { run, resolve: resolve as (value: unknown) => void, reject, signal };
+      jobs.push(job);
+      signal?.addEventListener(
+        'abort',
+        () => {
+          const i = jobs.indexOf(job);
+          if (i === -1) return;
+          jobs.splice(i, 1);
+          reject(abortError());
+        },
+        { once: true }
+      );
+      void drain();
+    });
+
+  return { schedule, size: () => jobs.length };
+};
@@ -0,0 +1,62 @@
+import type { LatLng } from '../geo';
+
+export type GeocoderId = 'nominatim' | 'photon';
+
+export type GeocodeAddress = {
+  houseNumber?: string;
+  road?: string;
+  neighbourhood?: string;
+  suburb?: string;
+  city?: string;
+  state?: string;
+  postcode?: string;
+  country?: string;
+  countryCode?: string;
+};
+
+export type GeocodeResult = LatLng & {
+  id: string;
+  // Full, human-readable description as returned by the backend.
+  label: string;
+  // Short name of the feature itself ("Cubbon Park"), when it has one.
+  name?: string;
+  address: GeocodeAddress;
+  // Backend that produced the result.
+  provider: GeocoderId;
+};
+
+export type GeocodeOptions = {
+  limit?: number;
+  // ISO 3166-1 alpha-2 codes to restrict results to.
+  countryCodes?: string[];
+  // Prefer results near this point.
+  near?: LatLng;
+  signal?: AbortSignal;
+};
+
+export type StructuredQuery = {
+  street?: string;
+  city?: string;
+  county?: string;
+  state?: string;
+  country?: string;
+  postalCode?: string;
+};
+
+export type ReverseGeocodeOptions = {
+  // Nominatim-style detail level: 18 is a building, 10 a city.
+  zoom?: number;
+  signal?: AbortSignal;
+};
+
+export type GeocodingBackend = {
+  id: GeocoderId;
+  label: string;
+  // Minimum gap between two requests to this backend, per its usage policy.
+  minIntervalMs: number;
+  // Whether the service allows search-as-you-type traffic.
+  autocomplete: boolean;
+  search: (query: string, options: GeocodeOptions) => Promise<GeocodeResult[]>;
+  structured: (query: StructuredQuery, options: GeocodeOptions) => Promise<GeocodeResult[]>;
+  reverse: (point: LatLng, options: ReverseGeocodeOptions) => Promise<GeocodeResult | null>;
+};
@@ -0,0 +1,74 @@
+// Minimal promise wrapper around IndexedDB: one database per key/value store.
+
+export type IdbStore<T> = {
+  get: (key: string) => Promise<T | undefined>;
+  set: (key: string, value: T) => Promise<void>;
+  del: (key: string) => Promise<void>;
+  entries: () => Promise<Array<[string, T]>>;
+  clear: () => Promise<void>;
+};
+
+const promisify = <R>(req: IDBRequest<R>) =>
+  new Promise<R>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'));
+  });
+
+const openDb = (dbName: string, storeName: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(dbName, 1);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(storeName)) {
+        req.result.createObjectStore(storeName);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error(`Failed to open IndexedDB "${dbName}"`));
+  });
+
+export const isIdbAvailable = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Create a lazily-opened key/value store. Without IndexedDB (private mode, tests)
+ * every call resolves as an empty store instead of throwing.
+ */
+export const createIdbStore = <T>(dbName: string, storeName: string): IdbStore<T> => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const withStore = async <R>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<R>) => {
+    if (!dbPromise) {
+      dbPromise = openDb(dbName, storeName).catch((e) => {
+        dbPromise = null;
+        throw e;
+      });
+    }
+    const db = await dbPromise;
+    return fn(db.transaction(storeName, mode).objectStore(storeName));
+  };
+
+  return {
+    get: async (key) => {
+      if (!isIdbAvailable()) return undefined;
+      return (await withStore('readonly', (s) => promisify(s.get(key)))) as T | undefined;
+    },
+    set: async (key, value) => {
+      if (!isIdbAvailable()) return;
+      await withStore('readwrite', (s) => promisify(s.put(value, key)));
+    },
+    del: async (key) => {
+      if (!isIdbAvailable()) return;
+      await withStore('readwrite', (s) => promisify(s.delete(key)));
+    },
+    entries: async () => {
+      if (!isIdbAvailable()) return [];
+      const [keys, values] = await withStore('readonly', (s) =>
+        Promise.all([promisify(s.getAllKeys()), promisify(s.getAll())])
+      );
+      return keys.map((k, i) => [String(k), values[i] as T]);
+    },
+    clear: async () => {
+      if (!isIdbAvailable()) return;
+      await withStore('readwrite', (s) => promisify(s.clear()));
+    },
+  };
+};
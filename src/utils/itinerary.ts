@@ -0,0 +1,102 @@
+import type { LatLng } from './geo';
+
+export type ItineraryStop = LatLng & {
+  id: string;
+  name: string;
+};
+
+export const MAX_ITINERARY_STOPS = 10;
+
+// Stops live in the URL as repeated `stop=lat,lng,name` params, in visiting order.
+export const STOP_PARAM = 'stop';
+
+const stopId = (lat: number, lng: number) => `${lat.toFixed(5)},${lng.toFixed(5)}`;
+
+/**
+ * Give every stop a unique id, suffixing repeats of the same coordinates
+ */
+export const withStopIds = (stops: Array<LatLng & { name: string }>): ItineraryStop[] => {
+  const seen = new Map<string, number>();
+  return stops.map((s) => {
+    const base = stopId(s.lat, s.lng);
+    const n = seen.get(base) ?? 0;
+    seen.set(base, n + 1);
+    return { lat: s.lat, lng: s.lng, name: s.name, id: n ? `${base}#${n}` : base };
+  });
+};
+
+export const encodeStop = (stop: LatLng & { name: string }) =>
+  `${stop.lat.toFixed(6)},${stop.lng.toFixed(6)},${stop.name}`;
+
+export const decodeStops = (values: string[]): ItineraryStop[] => {
+  const parsed = values.flatMap((raw) => {
+    const [latRaw, lngRaw, ...rest] = raw.split(',');
+    const lat = Number(latRaw);
+    const lng = Number(lngRaw);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return [];
+    if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return [];
+    return [{ lat, lng, name: rest.join(',').trim() || 'Stop' }];
+  });
+  return withStopIds(parsed.slice(0, MAX_ITINERARY_STOPS));
+};
+
+export const stopsToSearchParams = (stops: Array<LatLng & { name: string }>, base?: URLSearchParams) => {
+  const params = new URLSearchParams(base);
+  params.delete(STOP_PARAM);
+  for (const s of stops) params.append(STOP_PARAM, encodeStop(s));
+  return params;
+};
+
+const pathCost = (order: number[], cost: (a: number, b: number) => number) =>
+  order.slice(1).reduce((sum, to, i) => sum + cost(order[i], to), 0);
+
+/**
+ * Visiting order over a duration matrix: nearest-neighbour construction then
+ * 2-opt improvement. The first stop always stays first; with keepLast the last
+ * stop stays last too. Returns indices into the matrix.
+ */
+export const optimizeStopOrder = (
+  durations: (number | null)[][],
+  { keepLast = false }: { keepLast?: boolean } = {}
+): number[] => {
+  const n = durations.length;
+  if (n <= 2) return Array.from({ length: n }, (_, i) => i);
+
+  // Unroutable pairs are heavily penalised rather than excluded.
+  const cost = (a: number, b: number) => durations[a]?.[b] ?? 1e9;
+  const last = n - 1;
+
+  const order = [0];
+  const remaining = new Set(Array.from({ length: n }, (_, i) => i).filter((i) => i !== 0 && !(keepLast && i === last)));
+  while (remaining.size) {
+    const from = order[order.length - 1];
+    let best = -1;
+    for (const i of remaining) {
+      if (best === -1 || cost(from, i) < cost(from, best)) best = i;
+    }
+    order.push(best);
+    remaining.delete(best);
+  }
+  if (keepLast) order.push(last);
+
+  // Reverse order[i..j] while it shortens the path. Full re-costing keeps this
+  // correct for asymmetric matrices; itineraries are small enough for it.
+  const end = keepLast ? order.length - 2 : order.length - 1;
+  let bestCost = pathCost(order, cost);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < end; i++) {
+      for (let j = i + 1; j <= end; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const c = pathCost(candidate, cost);
+        if (c < bestCost - 1e-9) {
+          order.splice(0, order.length, ...candidate);
+          bestCost = c;
+          improved = true;
+        }
+      }
+    }
+  }
+  return order;
+};
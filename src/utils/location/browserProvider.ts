@@ -0,0 +1,59 @@
+import { locationError } from './types';
+import type { LocationError, LocationFix, LocationProvider, LocationRequestOptions } from './types';
+
+const toFix = (position: GeolocationPosition): LocationFix => ({
+  lat: position.coords.latitude,
+  lng: position.coords.longitude,
+  accuracy: position.coords.accuracy,
+  heading: position.coords.heading,
+  speed: position.coords.speed,
+  timestamp: position.timestamp,
+});
+
+const toError = (e: GeolocationPositionError): LocationError => {
+  switch (e.code) {
+    case e.PERMISSION_DENIED:
+      return locationError('denied', 'Location permission denied.');
+    case e.TIMEOUT:
+      return locationError('timeout', 'Location request timed out.');
+    default:
+      return locationError('unavailable', 'Location position unavailable.');
+  }
+};
+
+const toPositionOptions = (options: LocationRequestOptions = {}): PositionOptions => ({
+  enableHighAccuracy: options.highAccuracy ?? false,
+  timeout: options.timeoutMs ?? 8000,
+  maximumAge: options.maxAgeMs ?? 60_000,
+});
+
+const unsupported = () => locationError('unsupported', 'Geolocation is not supported by your browser');
+
+export const browserProvider: LocationProvider = {
+  id: 'browser',
+  label: 'Device GPS',
+  getCurrentPosition: (options) =>
+    new Promise((resolve, reject) => {
+      if (!navigator.geolocation) {
+        reject(unsupported());
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        (p) => resolve(toFix(p)),
+        (e) => reject(toError(e)),
+        toPositionOptions(options)
+      );
+    }),
+  watchPosition: (onFix, onError, options) => {
+    if (!navigator.geolocation) {
+      onError(unsupported());
+      return () => {};
+    }
+    const id = navigator.geolocation.watchPosition(
+      (p) => onFix(toFix(p)),
+      (e) => onError(toError(e)),
+      toPositionOptions(options)
+    );
+    return () => navigator.geolocation.clearWatch(id);
+  },
+};
@@ -0,0 +1,97 @@
+import { browserProvider } from './browserProvider';
+import { simulatedProvider } from './simulatedProvider';
+import type {
+  LocationError,
+  LocationFix,
+  LocationProvider,
+  LocationProviderId,
+  LocationRequestOptions,
+} from './types';
+
+export { locationError } from './types';
+export type {
+  LocationError,
+  LocationErrorCode,
+  LocationFix,
+  LocationProvider,
+  LocationProviderId,
+  LocationRequestOptions,
+} from './types';
+
+const providers: Record<LocationProviderId, LocationProvider> = {
+  browser: browserProvider,
+  simulated: simulatedProvider,
+};
+
+const isProviderId = (v: string | null): v is LocationProviderId => v != null && v in providers;
+
+// The dev panel's choice survives reloads; otherwise VITE_LOCATION_PROVIDER, then the device.
+const STORAGE_KEY = 'local-lens:location-provider';
+const readStored = () => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    // Storage blocked (e.g. sandboxed iframe, strict privacy settings).
+    return null;
+  }
+};
+const stored = readStored();
+const configured = (import.meta.env.VITE_LOCATION_PROVIDER ?? '').trim().toLowerCase();
+let activeProviderId: LocationProviderId = isProviderId(stored)
+  ? stored
+  : isProviderId(configured)
+    ? configured
+    : 'browser';
+
+const listeners = new Set<(id: LocationProviderId) => void>();
+
+export const getLocationProvider = (): LocationProvider => providers[activeProviderId];
+
+/**
+ * Switch the active provider; live watchers move over to the new one
+ */
+export const setLocationProvider = (id: LocationProviderId) => {
+  activeProviderId = id;
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Not remembered across reloads, but still switched for this session.
+  }
+  listeners.forEach((l) => l(id));
+};
+
+export const onLocationProviderChange = (listener: (id: LocationProviderId) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Replace the implementation behind a provider id
+ */
+export const registerLocationProvider = (provider: LocationProvider) => {
+  providers[provider.id] = provider;
+};
+
+export const getCurrentFix = (options?: LocationRequestOptions): Promise<LocationFix> =>
+  getLocationProvider().getCurrentPosition(options);
+
+/**
+ * Watch the active provider's position, resubscribing when it is switched
+ */
+export const watchFix = (
+  onFix: (fix: LocationFix) => void,
+  onError: (error: LocationError) => void,
+  options?: LocationRequestOptions
+) => {
+  let stop = getLocationProvider().watchPosition(onFix, onError, options);
+  const unlisten = onLocationProviderChange(() => {
+    stop();
+    stop = getLocationProvider().watchPosition(onFix, onError, options);
+  });
+  return () => {
+    unlisten();
+    stop();
+  };
+};
@@ -0,0 +1,170 @@
+import { distanceMeters } from '../geo';
+import type { Trace } from './trace';
+import { locationError } from './types';
+import type { LocationFix, LocationProvider } from './types';
+
+// Used to pace tracks that carry no timestamps.
+const FALLBACK_SPEED_MPS = 1.4;
+const TICK_MS = 1000;
+const STORAGE_KEY = 'local-lens:simulated-track';
+const MAX_STORED_POINTS = 5000;
+
+export type SimulationStatus = {
+  trace: Trace | null;
+  // Playback multiplier: 1 replays in real time.
+  speed: number;
+  loop: boolean;
+  durationSeconds: number;
+  startedAt: number;
+};
+
+type Timeline = { trace: Trace; offsets: number[] };
+
+/**
+ * Seconds since the first point for every point of a trace. Recorded times are
+ * used when every point has one and they never go backwards.
+ */
+export const buildTimeline = (trace: Trace): Timeline => {
+  const { points } = trace;
+  const t0 = points[0]?.time;
+  const timed =
+    t0 != null && points.every((p, i) => p.time != null && (i === 0 || p.time >= (points[i - 1].time as number)));
+  if (timed && (points[points.length - 1].time as number) > t0) {
+    return { trace, offsets: points.map((p) => ((p.time as number) - t0) / 1000) };
+  }
+  const offsets = [0];
+  for (let i = 1; i < points.length; i++) {
+    offsets.push(offsets[i - 1] + distanceMeters(points[i - 1], points[i]) / FALLBACK_SPEED_MPS);
+  }
+  return { trace, offsets };
+};
+
+const bearing = (a: { lat: number; lng: number }, b: { lat: number; lng: number }) => {
+  const toRad = (v: number) => (v * Math.PI) / 180;
+  const y = Math.sin(toRad(b.lng - a.lng)) * Math.cos(toRad(b.lat));
+  const x =
+    Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat)) -
+    Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(toRad(b.lng - a.lng));
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+/**
+ * Interpolated position `seconds` into the timeline (clamped to its ends)
+ */
+export const positionAt = ({ trace, offsets }: Timeline, seconds: number, timestamp: number): LocationFix => {
+  const { points } = trace;
+  const last = points.length - 1;
+  if (last <= 0 || seconds <= 0) {
+    return { lat: points[0].lat, lng: points[0].lng, accuracy: 5, heading: null, speed: 0, timestamp };
+  }
+  if (seconds >= offsets[last]) {
+    return { lat: points[last].lat, lng: points[last].lng, accuracy: 5, heading: null, speed: 0, timestamp };
+  }
+  let i = 0;
+  while (i < last - 1 && offsets[i + 1] <= seconds) i++;
+  const a = points[i];
+  const b = points[i + 1];
+  const span = offsets[i + 1] - offsets[i];
+  const t = span > 0 ? (seconds - offsets[i]) / span : 1;
+  return {
+    lat: a.lat + (b.lat - a.lat) * t,
+    lng: a.lng + (b.lng - a.lng) * t,
+    accuracy: 5,
+    heading: bearing(a, b),
+    speed: span > 0 ? distanceMeters(a, b) / span : 0,
+    timestamp,
+  };
+};
+
+const loadStored = (): Trace | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Trace) : null;
+  } catch {
+    return null;
+  }
+};
+
+let timeline: Timeline | null = (() => {
+  const stored = loadStored();
+  return stored?.points.length ? buildTimeline(stored) : null;
+})();
+let status: SimulationStatus = {
+  trace: timeline?.trace ?? null,
+  speed: 1,
+  loop: true,
+  durationSeconds: timeline ? timeline.offsets[timeline.offsets.length - 1] : 0,
+  startedAt: Date.now(),
+};
+const listeners = new Set<(s: SimulationStatus) => void>();
+
+const update = (patch: Partial<SimulationStatus>) => {
+  status = { ...status, ...patch };
+  listeners.forEach((l) => l(status));
+};
+
+export const getSimulationStatus = () => status;
+
+export const subscribeSimulation = (listener: (s: SimulationStatus) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const loadSimulatedTrace = (trace: Trace) => {
+  timeline = buildTimeline(trace);
+  try {
+    const stored = { ...trace, points: trace.points.slice(0, MAX_STORED_POINTS) };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Quota exceeded: the track still plays for this session.
+  }
+  update({ trace, durationSeconds: timeline.offsets[timeline.offsets.length - 1], startedAt: Date.now() });
+};
+
+export const clearSimulatedTrace = () => {
+  timeline = null;
+  localStorage.removeItem(STORAGE_KEY);
+  update({ trace: null, durationSeconds: 0 });
+};
+
+export const setSimulationSpeed = (speed: number) => {
+  // Keep the current playback position when changing speed.
+  const now = Date.now();
+  const elapsed = ((now - status.startedAt) / 1000) * status.speed;
+  update({ speed, startedAt: now - (elapsed / speed) * 1000 });
+};
+
+export const setSimulationLoop = (loop: boolean) => update({ loop });
+
+export const restartSimulation = () => update({ startedAt: Date.now() });
+
+const currentFix = (now = Date.now()): LocationFix | null => {
+  if (!timeline) return null;
+  let seconds = ((now - status.startedAt) / 1000) * status.speed;
+  if (status.loop && status.durationSeconds > 0) seconds %= status.durationSeconds;
+  return positionAt(timeline, seconds, now);
+};
+
+const noTrack = () => locationError('unavailable', 'No simulated track loaded.');
+
+export const simulatedProvider: LocationProvider = {
+  id: 'simulated',
+  label: 'Simulated track',
+  getCurrentPosition: async () => {
+    const fix = currentFix();
+    if (!fix) throw noTrack();
+    return fix;
+  },
+  watchPosition: (onFix, onError) => {
+    const tick = () => {
+      const fix = currentFix();
+      if (fix) onFix(fix);
+      else onError(noTrack());
+    };
+    tick();
+    const id = window.setInterval(tick, TICK_MS);
+    return () => window.clearInterval(id);
+  },
+};
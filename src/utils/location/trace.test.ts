@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { parseGeoJsonTrace, parseTrace } from './trace';
+
+describe('parseGeoJsonTrace', () => {
+  it.each(['null', '42', '"track"', '[]', '{not json'])('rejects %s as not GeoJSON', (text) => {
+    expect(() => parseGeoJsonTrace(text)).toThrow('Not a valid GeoJSON file');
+  });
+
+  it('reads a LineString with coordTimes', () => {
+    const trace = parseTrace(
+      JSON.stringify({
+        type: 'Feature',
+        properties: { name: 'Walk', coordTimes: ['2025-06-02T10:00:00Z', '2025-06-02T10:01:00Z'] },
+        geometry: { type: 'LineString', coordinates: [[77.59, 12.97], [77.6, 12.98]] },
+      }),
+      'walk.geojson'
+    );
+    expect(trace.points.map((p) => [p.lat, p.lng])).toEqual([
+      [12.97, 77.59],
+      [12.98, 77.6],
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { distanceMeters } from '../geo';
+import type { LatLng } from '../geo';
+
+export type TracePoint = LatLng & {
+  // Epoch ms, when the source recorded it.
+  time?: number;
+};
+
+export type Trace = {
+  name: string;
+  points: TracePoint[];
+};
+
+const parseTime = (raw: unknown): number | undefined => {
+  if (typeof raw === 'number' && Number.isFinite(raw)) return raw < 1e12 ? raw * 1000 : raw;
+  if (typeof raw !== 'string') return undefined;
+  const t = Date.parse(raw);
+  return Number.isFinite(t) ? t : undefined;
+};
+
+const validPoint = (p: TracePoint) =>
+  Number.isFinite(p.lat) && Number.isFinite(p.lng) && Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180;
+
+/**
+ * Track, route or waypoint points from a GPX document, in file order
+ */
+export const parseGpx = (xml: string, fallbackName = 'GPX track'): Trace => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error('Not a valid GPX file');
+
+  const pick = (tag: string) => Array.from(doc.getElementsByTagName(tag));
+  const nodes = [pick('trkpt'), pick('rtept'), pick('wpt')].find((list) => list.length > 0) ?? [];
+  const points = nodes
+    .map(
+      (el): TracePoint => ({
+        lat: Number(el.getAttribute('lat')),
+        lng: Number(el.getAttribute('lon')),
+        time: parseTime(el.getElementsByTagName('time')[0]?.textContent ?? undefined),
+      })
+    )
+    .filter(validPoint);
+
+  const name = doc.getElementsByTagName('name')[0]?.textContent?.trim() || fallbackName;
+  return { name, points };
+};
+
+type GeoJsonGeometry = { type: string; coordinates?: unknown };
+type GeoJsonFeature = { type: 'Feature'; geometry: GeoJsonGeometry | null; properties?: Record<string, unknown> | null };
+
+const coordsOf = (geometry: GeoJsonGeometry | null): number[][] => {
+  if (!geometry || !Array.isArray(geometry.coordinates)) return [];
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates as number[]];
+    case 'LineString':
+    case 'MultiPoint':
+      return geometry.coordinates as number[][];
+    case 'MultiLineString':
+      return (geometry.coordinates as number[][][]).flat();
+    default:
+      return [];
+  }
+};
+
+/**
+ * Points from GeoJSON lines/points. Timestamps come from a `coordTimes` or
+ * `times` property (as written by togeojson and most trackers) when present.
+ */
+export const parseGeoJsonTrace = (text: string, fallbackName = 'GeoJSON track'): Trace => {
+  let data: { type?: string; features?: GeoJsonFeature[]; geometry?: GeoJsonGeometry; properties?: Record<string, unknown> };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a valid GeoJSON file');
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error('Not a valid GeoJSON file');
+
+  const features: GeoJsonFeature[] =
+    data.type === 'FeatureCollection'
+      ? data.features ?? []
+      : data.type === 'Feature'
+        ? [data as GeoJsonFeature]
+        : [{ type: 'Feature', geometry: data as GeoJsonGeometry, properties: null }];
+
+  const points: TracePoint[] = features.flatMap((f) => {
+    const rawTimes = f.properties?.coordTimes ?? f.properties?.times;
+    const times = Array.isArray(rawTimes) ? (rawTimes as unknown[]).flat() : [];
+    const single = parseTime(f.properties?.time ?? f.properties?.timestamp);
+    return coordsOf(f.geometry).map((c, i) => ({
+      lat: Number(c[1]),
+      lng: Number(c[0]),
+      time: parseTime(times[i]) ?? single,
+    }));
+  });
+
+  const name = String(features[0]?.properties?.name ?? data.properties?.name ?? fallbackName);
+  return { name, points: points.filter(validPoint) };
+};
+
+/**
+ * Parse a GPX or GeoJSON file, sniffing the format from its content
+ */
+export const parseTrace = (text: string, fileName = 'track'): Trace => {
+  const trimmed = text.trimStart();
+  const trace = trimmed.startsWith('<') ? parseGpx(text, fileName) : parseGeoJsonTrace(text, fileName);
+  if (trace.points.length === 0) throw new Error('No points found in track');
+  return trace;
+};
+
+export const traceLengthMeters = (points: LatLng[]) =>
+  points.slice(1).reduce((sum, p, i) => sum + distanceMeters(points[i], p), 0);
@@ -0,0 +1,35 @@
+import type { LatLng } from '../geo';
+
+export type LocationProviderId = 'browser' | 'simulated';
+
+export type LocationFix = LatLng & {
+  accuracy?: number;
+  heading?: number | null;
+  speed?: number | null;
+  timestamp: number;
+};
+
+export type LocationErrorCode = 'unsupported' | 'denied' | 'unavailable' | 'timeout';
+
+export type LocationError = Error & { code: LocationErrorCode };
+
+export type LocationRequestOptions = {
+  highAccuracy?: boolean;
+  timeoutMs?: number;
+  maxAgeMs?: number;
+};
+
+export type LocationProvider = {
+  id: LocationProviderId;
+  label: string;
+  getCurrentPosition: (options?: LocationRequestOptions) => Promise<LocationFix>;
+  // Returns an unsubscribe function.
+  watchPosition: (
+    onFix: (fix: LocationFix) => void,
+    onError: (error: LocationError) => void,
+    options?: LocationRequestOptions
+  ) => () => void;
+};
+
+export const locationError = (code: LocationErrorCode, message: string): LocationError =>
+  Object.assign(new Error(message), { code });
@@ -0,0 +1,17 @@
+import type { OsmKind } from './osm';
+
+export type MapCategory = 'attractions' | 'food' | 'shopping' | 'services';
+
+// OSM tag sets behind the MapPage filter checkboxes.
+export const MAP_CATEGORY_KINDS: Record<MapCategory, OsmKind[]> = {
+  attractions: ['attraction'],
+  food: ['restaurant', 'cafe', 'fast_food'],
+  shopping: ['shop'],
+  services: ['hospital', 'police', 'pharmacy', 'atm', 'fuel', 'toilets'],
+};
+
+export const mapCategoryForKind = (kind: OsmKind | null): MapCategory | null => {
+  if (!kind) return null;
+  const entry = Object.entries(MAP_CATEGORY_KINDS).find(([, kinds]) => kinds.includes(kind));
+  return entry ? (entry[0] as MapCategory) : null;
+};
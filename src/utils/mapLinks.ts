@@ -0,0 +1,42 @@
+import type { LatLng } from './geo';
+import { isOsmKind } from './overpassPresets';
+import type { OsmKind } from './overpassPresets';
+
+// /map?focus=lat,lng,name centres the map on a point and marks it.
+export const FOCUS_PARAM = 'focus';
+
+export const mapFocusUrl = (p: LatLng & { name: string }) =>
+  `/map?${new URLSearchParams({ [FOCUS_PARAM]: `${p.lat.toFixed(6)},${p.lng.toFixed(6)},${p.name}` })}`;
+
+export const parseFocusParam = (raw: string | null): (LatLng & { name: string }) | null => {
+  if (!raw) return null;
+  const [latRaw, lngRaw, ...rest] = raw.split(',');
+  const lat = Number(latRaw);
+  const lng = Number(lngRaw);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng, name: rest.join(',').trim() || 'Place' };
+};
+
+// /map?q=query[&near=lat,lng] runs a search, optionally around a point.
+export const SEARCH_PARAM = 'q';
+
+export const mapSearchUrl = (query: string, near?: LatLng) =>
+  `/map?${new URLSearchParams({
+    [SEARCH_PARAM]: query,
+    ...(near ? { near: `${near.lat.toFixed(5)},${near.lng.toFixed(5)}` } : {}),
+  })}`;
+
+export const parseNearParam = (raw: string | null): LatLng | undefined => {
+  const focus = parseFocusParam(raw);
+  return focus ? { lat: focus.lat, lng: focus.lng } : undefined;
+};
+
+// /map?kind=pharmacy shows only that kind of place around the user.
+export const KIND_PARAM = 'kind';
+
+export const mapKindUrl = (kind: OsmKind) => `/map?${new URLSearchParams({ [KIND_PARAM]: kind })}`;
+
+export const parseKindParam = (raw: string | null): OsmKind | null => (raw && isOsmKind(raw) ? raw : null);
+
+export const mapDirectionsUrl = (origin: LatLng, destination: LatLng) =>
+  `/map?oLat=${origin.lat}&oLng=${origin.lng}&dLat=${destination.lat}&dLng=${destination.lng}`;
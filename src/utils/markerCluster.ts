@@ -0,0 +1,75 @@
+import { boundsContain, padBounds } from './geo';
+import type { LatLng, LatLngBounds } from './geo';
+
+export type MarkerGroup<T> =
+  | { type: 'point'; key: string; lat: number; lng: number; item: T }
+  | { type: 'cluster'; key: string; lat: number; lng: number; count: number; items: T[]; bounds: LatLngBounds };
+
+export type ClusterOptions = {
+  zoom: number;
+  // Only points inside these bounds (padded by viewportPadding) are kept.
+  viewport?: LatLngBounds | null;
+  viewportPadding?: number;
+  // Grid cell size in screen pixels.
+  cellSize?: number;
+  // At or above this zoom every point is rendered on its own.
+  maxClusterZoom?: number;
+};
+
+const TILE_SIZE = 256;
+
+/**
+ * Web Mercator pixel coordinates of a point at the given zoom
+ */
+export const projectToPixel = ({ lat, lng }: LatLng, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+/**
+ * Group points into screen-space grid cells for the given zoom, dropping
+ * anything outside the viewport
+ */
+export const clusterPoints = <T extends LatLng>(
+  points: T[],
+  { zoom, viewport, viewportPadding = 0.25, cellSize = 60, maxClusterZoom = 18 }: ClusterOptions
+): MarkerGroup<T>[] => {
+  const visibleArea = viewport ? padBounds(viewport, viewportPadding) : null;
+  const visible = visibleArea ? points.filter((p) => boundsContain(visibleArea, p)) : points;
+
+  if (zoom >= maxClusterZoom) {
+    return visible.map((item, i) => ({ type: 'point', key: `p:${i}:${item.lat},${item.lng}`, lat: item.lat, lng: item.lng, item }));
+  }
+
+  const cells = new Map<string, T[]>();
+  for (const p of visible) {
+    const { x, y } = projectToPixel(p, zoom);
+    const key = `${zoom}:${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(p);
+    else cells.set(key, [p]);
+  }
+
+  return Array.from(cells, ([key, items]): MarkerGroup<T> => {
+    if (items.length === 1) {
+      const [item] = items;
+      return { type: 'point', key, lat: item.lat, lng: item.lng, item };
+    }
+    let lat = 0;
+    let lng = 0;
+    const bounds = { south: Infinity, west: Infinity, north: -Infinity, east: -Infinity };
+    for (const p of items) {
+      lat += p.lat;
+      lng += p.lng;
+      bounds.south = Math.min(bounds.south, p.lat);
+      bounds.north = Math.max(bounds.north, p.lat);
+      bounds.west = Math.min(bounds.west, p.lng);
+      bounds.east = Math.max(bounds.east, p.lng);
+    }
+    return { type: 'cluster', key, lat: lat / items.length, lng: lng / items.length, count: items.length, items, bounds };
+  });
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { REROUTE_COOLDOWN_MS, replayTrace, shouldReroute } from './navigation';
+import type { PositionFix } from './navigation';
+import type { Route } from './routing';
+
+// North for about 1.1 km, then right (east) for about 1.1 km.
+const start: [number, number] = [12.97, 77.59];
+const corner: [number, number] = [12.98, 77.59];
+const end: [number, number] = [12.98, 77.6];
+
+const route: Route = {
+  mode: 'walk',
+  distanceMeters: 2196,
+  durationSeconds: 1800,
+  geometry: [start, corner, end],
+  steps: [
+    {
+      instruction: 'Head north',
+      name: 'MG Road',
+      distanceMeters: 1112,
+      durationSeconds: 910,
+      maneuver: { type: 'depart' },
+      location: start,
+      geometry: [start, corner],
+    },
+    {
+      instruction: 'Turn right onto Church Street',
+      name: 'Church Street',
+      distanceMeters: 1084,
+      durationSeconds: 890,
+      maneuver: { type: 'turn', modifier: 'right' },
+      location: corner,
+      geometry: [corner, end],
+    },
+    {
+      instruction: 'You have arrived',
+      name: 'Church Street',
+      distanceMeters: 0,
+      durationSeconds: 0,
+      maneuver: { type: 'arrive' },
+      location: end,
+      geometry: [end],
+    },
+  ],
+};
+
+let clock = 0;
+const fix = (lat: number, lng: number, accuracy = 5): PositionFix => ({ lat, lng, accuracy, timestamp: (clock += 1000) });
+
+// About 200 m east of the first leg.
+const offRoute = () => fix(12.974, 77.592);
+
+describe('replayTrace', () => {
+  it('snaps a fix beside the road onto the route', () => {
+    const [state] = replayTrace(route, [fix(12.975, 77.59005)]);
+
+    expect(state.status).toBe('navigating');
+    expect(state.snapped.segmentIndex).toBe(0);
+    expect(state.snapped.point.lat).toBeCloseTo(12.975, 5);
+    expect(state.snapped.point.lng).toBeCloseTo(77.59, 5);
+    expect(state.snapped.offsetMeters).toBeLessThan(10);
+    expect(state.remainingDistance).toBeGreaterThan(1600);
+  });
+
+  it('moves on to the next step once the maneuver is passed', () => {
+    const states = replayTrace(route, [fix(12.975, 77.59), fix(12.9799, 77.59), fix(12.98, 77.595)]);
+
+    expect(states.map((s) => s.stepIndex)).toEqual([1, 1, 2]);
+    expect(states[1].distanceToManeuver).toBeLessThan(20);
+    expect(states[2].snapped.segmentIndex).toBe(1);
+  });
+
+  it('declares off-route only after enough consecutive far fixes', () => {
+    const states = replayTrace(
+      route,
+      [fix(12.973, 77.59), offRoute(), offRoute(), fix(12.974, 77.59), offRoute(), offRoute(), offRoute()],
+      { offRouteFixes: 3 }
+    );
+
+    expect(states.map((s) => s.offRouteCount)).toEqual([0, 1, 2, 0, 1, 2, 3]);
+    expect(states.map((s) => s.status)).toEqual([
+      'navigating',
+      'navigating',
+      'navigating',
+      'navigating',
+      'navigating',
+      'navigating',
+      'off-route',
+    ]);
+  });
+
+  it('does not count a fuzzy fix within its own accuracy as off-route', () => {
+    const states = replayTrace(route, [fix(12.974, 77.592, 300), fix(12.974, 77.592, 300)]);
+
+    expect(states.map((s) => s.status)).toEqual(['navigating', 'navigating']);
+  });
+
+  it('arrives near the end of the route', () => {
+    const states = replayTrace(route, [fix(12.98, 77.595), fix(12.98, 77.5999)]);
+
+    expect(states.map((s) => s.status)).toEqual(['navigating', 'arrived']);
+    expect(states[1].remainingDistance).toBeLessThan(25);
+  });
+});
+
+describe('shouldReroute', () => {
+  const [, , offRouteState] = replayTrace(route, [fix(12.973, 77.59), offRoute(), offRoute()]);
+
+  it('triggers once the trace goes off-route', () => {
+    expect(offRouteState.status).toBe('off-route');
+    expect(shouldReroute(offRouteState, 0, offRouteState.fix.timestamp + REROUTE_COOLDOWN_MS)).toBe(true);
+  });
+
+  it('waits out the cooldown after a reroute', () => {
+    const now = 100_000;
+    expect(shouldReroute(offRouteState, now - 5000, now)).toBe(false);
+    expect(shouldReroute(offRouteState, now - REROUTE_COOLDOWN_MS, now)).toBe(true);
+  });
+
+  it('never triggers while on the route', () => {
+    const [onRoute] = replayTrace(route, [fix(12.975, 77.59)]);
+    expect(shouldReroute(onRoute, 0, Date.now())).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+import { distanceMeters } from './geo';
+import type { LatLng } from './geo';
+import type { Route } from './routing';
+
+export type PositionFix = LatLng & {
+  accuracy?: number;
+  timestamp: number;
+};
+
+export type SnapResult = {
+  point: LatLng;
+  segmentIndex: number;
+  // Meters between the raw fix and the polyline.
+  offsetMeters: number;
+  // Meters from the start of the polyline to the snapped point.
+  alongMeters: number;
+};
+
+export type NavigationStatus = 'navigating' | 'off-route' | 'arrived';
+
+export type NavigationState = {
+  status: NavigationStatus;
+  fix: PositionFix;
+  snapped: SnapResult;
+  // Index into route.steps of the next maneuver to perform.
+  stepIndex: number;
+  distanceToManeuver: number;
+  remainingDistance: number;
+  remainingDuration: number;
+  // Consecutive fixes that were too far from the route.
+  offRouteCount: number;
+};
+
+export type NavigationOptions = {
+  offRouteMeters?: number;
+  // How many consecutive far-away fixes before declaring off-route.
+  offRouteFixes?: number;
+  arrivalMeters?: number;
+};
+
+export type RouteIndex = {
+  route: Route;
+  points: LatLng[];
+  // Distance from the start to each polyline vertex.
+  cumulative: number[];
+  // Distance from the start to each step's maneuver, scaled to the polyline length.
+  stepStarts: number[];
+};
+
+// Don't hammer the router while the user is still wandering off the line.
+export const REROUTE_COOLDOWN_MS = 15_000;
+
+const DEFAULTS: Required<NavigationOptions> = {
+  offRouteMeters: 40,
+  offRouteFixes: 2,
+  arrivalMeters: 25,
+};
+
+export const indexRoute = (route: Route): RouteIndex => {
+  const points = route.geometry.map(([lat, lng]) => ({ lat, lng }));
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) cumulative.push(cumulative[i - 1] + distanceMeters(points[i - 1], points[i]));
+  const total = cumulative[cumulative.length - 1] ?? 0;
+
+  // Step distances come from the provider and rarely sum to exactly the polyline length.
+  const stepSum = route.steps.reduce((sum, s) => sum + s.distanceMeters, 0);
+  const scale = stepSum > 0 ? total / stepSum : 1;
+  const stepStarts: number[] = [];
+  let acc = 0;
+  for (const step of route.steps) {
+    stepStarts.push(acc * scale);
+    acc += step.distanceMeters;
+  }
+  return { route, points, cumulative, stepStarts };
+};
+
+// Equirectangular projection around the fix; accurate enough at street scale.
+const projectAround = (origin: LatLng) => {
+  const k = (Math.PI / 180) * 6371000;
+  const cos = Math.cos((origin.lat * Math.PI) / 180);
+  return (p: LatLng) => ({ x: (p.lng - origin.lng) * k * cos, y: (p.lat - origin.lat) * k });
+};
+
+const snapToSegments = (index: RouteIndex, p: LatLng, from: number, to: number): SnapResult | null => {
+  const { points, cumulative } = index;
+  const project = projectAround(p);
+  let best: SnapResult | null = null;
+  for (let i = Math.max(0, from); i < Math.min(points.length - 1, to); i++) {
+    const a = project(points[i]);
+    const b = project(points[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    const t = len2 > 0 ? Math.min(1, Math.max(0, (-a.x * dx - a.y * dy) / len2)) : 0;
+    const sx = a.x + t * dx;
+    const sy = a.y + t * dy;
+    const offset = Math.hypot(sx, sy);
+    if (!best || offset < best.offsetMeters) {
+      const segLen = cumulative[i + 1] - cumulative[i];
+      best = {
+        point: {
+          lat: points[i].lat + t * (points[i + 1].lat - points[i].lat),
+          lng: points[i].lng + t * (points[i + 1].lng - points[i].lng),
+        },
+        segmentIndex: i,
+        offsetMeters: offset,
+        alongMeters: cumulative[i] + t * segLen,
+      };
+    }
+  }
+  return best;
+};
+
+/**
+ * Closest point on the route polyline. With a hint, segments from just before
+ * the previous match onward are preferred so loops and out-and-back streets
+ * don't make the position jump backwards.
+ */
+export const snapToRoute = (index: RouteIndex, p: LatLng, hintSegment?: number, maxOffset = Infinity): SnapResult => {
+  if (index.points.length < 2) {
+    const only = index.points[0] ?? p;
+    return { point: only, segmentIndex: 0, offsetMeters: distanceMeters(p, only), alongMeters: 0 };
+  }
+  if (hintSegment != null) {
+    const ahead = snapToSegments(index, p, hintSegment - 2, index.points.length);
+    if (ahead && ahead.offsetMeters <= maxOffset) return ahead;
+  }
+  return snapToSegments(index, p, 0, index.points.length) as SnapResult;
+};
+
+/**
+ * Advance navigation by one position fix
+ */
+export const updateNavigation = (
+  index: RouteIndex,
+  prev: NavigationState | null,
+  fix: PositionFix,
+  options: NavigationOptions = {}
+): NavigationState => {
+  const opts = { ...DEFAULTS, ...options };
+  // A fuzzy fix shouldn't trip off-route detection on its own.
+  const threshold = Math.max(opts.offRouteMeters, fix.accuracy ?? 0);
+  const snapped = snapToRoute(index, fix, prev?.snapped.segmentIndex, threshold);
+
+  const total = index.cumulative[index.cumulative.length - 1] ?? 0;
+  const remainingDistance = Math.max(0, total - snapped.alongMeters);
+  const remainingDuration = total > 0 ? index.route.durationSeconds * (remainingDistance / total) : 0;
+
+  let stepIndex = index.stepStarts.findIndex((start) => start > snapped.alongMeters);
+  if (stepIndex === -1) stepIndex = Math.max(0, index.route.steps.length - 1);
+  const distanceToManeuver = Math.max(0, (index.stepStarts[stepIndex] ?? total) - snapped.alongMeters);
+
+  const offRouteCount = snapped.offsetMeters > threshold ? (prev?.offRouteCount ?? 0) + 1 : 0;
+
+  let status: NavigationStatus = 'navigating';
+  if (remainingDistance <= opts.arrivalMeters && snapped.offsetMeters <= threshold) status = 'arrived';
+  else if (offRouteCount >= opts.offRouteFixes) status = 'off-route';
+
+  return { status, fix, snapped, stepIndex, distanceToManeuver, remainingDistance, remainingDuration, offRouteCount };
+};
+
+/**
+ * Whether an off-route state should ask for a new route, given when the last one was requested
+ */
+export const shouldReroute = (state: NavigationState, lastRerouteAt: number, now: number) =>
+  state.status === 'off-route' && now - lastRerouteAt >= REROUTE_COOLDOWN_MS;
+
+/**
+ * Run a recorded GPS trace through the navigator, returning the state after
+ * each fix. Useful for reproducing field reports without going outside.
+ */
+export const replayTrace = (route: Route, fixes: PositionFix[], options?: NavigationOptions): NavigationState[] => {
+  const index = indexRoute(route);
+  const states: NavigationState[] = [];
+  let prev: NavigationState | null = null;
+  for (const fix of fixes) {
+    prev = updateNavigation(index, prev, fix, options);
+    states.push(prev);
+  }
+  return states;
+};
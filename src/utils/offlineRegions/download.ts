@@ -0,0 +1,192 @@
+import type { LatLngBounds } from '../geo';
+import { fetchOsmPlacesInBounds } from '../osm';
+import type { OsmKind, OsmPlace } from '../osm';
+import {
+  OFFLINE_PLACE_KINDS,
+  listOfflineRegions,
+  removeOfflineRegionRecord,
+  saveOfflineRegion,
+} from './store';
+import type { OfflineRegion, OfflineRegionPlaces } from './store';
+import { countTiles, offlineTileStore, tileKey, tileUrl, tilesForBounds } from './tiles';
+
+export type OfflineRegionRequest = {
+  name: string;
+  bounds: LatLngBounds;
+  minZoom: number;
+  maxZoom: number;
+};
+
+export type DownloadProgress = {
+  phase: 'tiles' | 'places';
+  done: number;
+  total: number;
+};
+
+export const describeProgress = ({ phase, done, total }: DownloadProgress) =>
+  phase === 'tiles' ? `Map tiles ${done}/${total}` : `Places ${done}/${total}`;
+
+// The OSM tile servers forbid bulk downloading; a city district at street
+// level is fine, a whole state is not.
+export const MAX_REGION_TILES = 2500;
+export const MAX_REGION_ZOOM = 16;
+const TILE_CONCURRENCY = 2;
+const PLACES_PER_QUERY = 500;
+// A kind that overflows one query is retried in quarters, down to 1/16 of the area.
+const MAX_PLACE_SPLITS = 2;
+// Rough average for a 256px OSM PNG, for size estimates before downloading.
+const AVG_TILE_BYTES = 20_000;
+
+export const estimateOfflineRegion = (bounds: LatLngBounds, minZoom: number, maxZoom: number) => {
+  const tileCount = countTiles(bounds, minZoom, Math.min(maxZoom, MAX_REGION_ZOOM));
+  return { tileCount, approxBytes: tileCount * AVG_TILE_BYTES, tooLarge: tileCount > MAX_REGION_TILES };
+};
+
+const downloadTiles = async (
+  req: OfflineRegionRequest,
+  onProgress?: (p: DownloadProgress) => void,
+  signal?: AbortSignal
+) => {
+  const tiles = tilesForBounds(req.bounds, req.minZoom, req.maxZoom);
+  let next = 0;
+  let done = 0;
+  let bytes = 0;
+  let failed = 0;
+
+  const worker = async () => {
+    while (next < tiles.length) {
+      signal?.throwIfAborted();
+      const tile = tiles[next++];
+      try {
+        // no-store tells the service worker to leave these out of its own tile cache.
+        const res = await fetch(tileUrl(tile), { signal, cache: 'no-store' });
+        if (!res.ok) throw new Error(`Tile error: ${res.status}`);
+        const blob = await res.blob();
+        await offlineTileStore.set(tileKey(tile), blob);
+        bytes += blob.size;
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        failed++;
+      }
+      onProgress?.({ phase: 'tiles', done: ++done, total: tiles.length });
+    }
+  };
+
+  await Promise.all(Array.from({ length: TILE_CONCURRENCY }, worker));
+  if (failed === tiles.length) throw new Error('Could not download map tiles. Check your connection.');
+  return { tileCount: tiles.length - failed, tileBytes: bytes };
+};
+
+const quarters = ({ south, west, north, east }: LatLngBounds): LatLngBounds[] => {
+  const midLat = (south + north) / 2;
+  const midLng = (west + east) / 2;
+  return [
+    { south, west, north: midLat, east: midLng },
+    { south, west: midLng, north: midLat, east },
+    { south: midLat, west, north, east: midLng },
+    { south: midLat, west: midLng, north, east },
+  ];
+};
+
+const downloadKind = async (
+  bounds: LatLngBounds,
+  kind: OsmKind,
+  signal?: AbortSignal,
+  depth = 0
+): Promise<{ places: OsmPlace[]; complete: boolean }> => {
+  const result = await fetchOsmPlacesInBounds(bounds, { kinds: [kind], limit: PLACES_PER_QUERY, signal });
+  if (result.complete || depth >= MAX_PLACE_SPLITS) return result;
+
+  const byId = new Map<string, OsmPlace>();
+  let complete = true;
+  for (const part of quarters(bounds)) {
+    const sub = await downloadKind(part, kind, signal, depth + 1);
+    for (const p of sub.places) byId.set(p.id, p);
+    complete &&= sub.complete;
+  }
+  return { places: [...byId.values()], complete };
+};
+
+const downloadPlaces = async (
+  bounds: LatLngBounds,
+  onProgress?: (p: DownloadProgress) => void,
+  signal?: AbortSignal
+) => {
+  const places: OfflineRegionPlaces = {};
+  const partialKinds: OsmKind[] = [];
+  let done = 0;
+  // One kind at a time keeps each Overpass query small and the mirrors happy.
+  for (const kind of OFFLINE_PLACE_KINDS) {
+    const result = await downloadKind(bounds, kind, signal);
+    places[kind] = result.places;
+    if (!result.complete) partialKinds.push(kind);
+    onProgress?.({ phase: 'places', done: ++done, total: OFFLINE_PLACE_KINDS.length });
+  }
+  return { places, partialKinds };
+};
+
+/**
+ * Download tiles and POIs for an area into IndexedDB. Passing an existing
+ * region's id refreshes it in place.
+ */
+export const downloadOfflineRegion = async (
+  req: OfflineRegionRequest,
+  {
+    id,
+    createdAt,
+    onProgress,
+    signal,
+  }: { id?: string; createdAt?: number; onProgress?: (p: DownloadProgress) => void; signal?: AbortSignal } = {}
+): Promise<OfflineRegion> => {
+  const maxZoom = Math.min(req.maxZoom, MAX_REGION_ZOOM);
+  const request = { ...req, maxZoom };
+  if (estimateOfflineRegion(req.bounds, req.minZoom, maxZoom).tooLarge) {
+    throw new Error('This area is too large to download. Zoom in or choose less detail.');
+  }
+
+  const { tileCount, tileBytes } = await downloadTiles(request, onProgress, signal);
+  const { places, partialKinds } = await downloadPlaces(req.bounds, onProgress, signal);
+
+  const now = Date.now();
+  const region: OfflineRegion = {
+    id: id ?? `region-${now.toString(36)}`,
+    name: req.name.trim() || 'Offline area',
+    bounds: req.bounds,
+    minZoom: req.minZoom,
+    maxZoom,
+    tileCount,
+    tileBytes,
+    placeCount: Object.values(places).reduce((sum, list) => sum + (list?.length ?? 0), 0),
+    placeBytes: JSON.stringify(places).length,
+    partialKinds,
+    createdAt: createdAt ?? now,
+    updatedAt: now,
+  };
+  await saveOfflineRegion(region, places);
+  return region;
+};
+
+export const updateOfflineRegion = (
+  region: OfflineRegion,
+  options: { onProgress?: (p: DownloadProgress) => void; signal?: AbortSignal } = {}
+) => downloadOfflineRegion(region, { ...options, id: region.id, createdAt: region.createdAt });
+
+/**
+ * Remove a region, keeping tiles that another downloaded region still covers
+ */
+export const deleteOfflineRegion = async (id: string) => {
+  const regions = await listOfflineRegions();
+  const target = regions.find((r) => r.id === id);
+  if (!target) return;
+
+  const keep = new Set(
+    regions
+      .filter((r) => r.id !== id)
+      .flatMap((r) => tilesForBounds(r.bounds, r.minZoom, r.maxZoom).map(tileKey))
+  );
+  for (const tile of tilesForBounds(target.bounds, target.minZoom, target.maxZoom)) {
+    const key = tileKey(tile);
+    if (!keep.has(key)) await offlineTileStore.del(key).catch(() => undefined);
+  }
+  await removeOfflineRegionRecord(id);
+};
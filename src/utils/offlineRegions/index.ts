@@ -0,0 +1,12 @@
+export {
+  MAX_REGION_TILES,
+  MAX_REGION_ZOOM,
+  deleteOfflineRegion,
+  describeProgress,
+  downloadOfflineRegion,
+  estimateOfflineRegion,
+  updateOfflineRegion,
+} from './download';
+export type { DownloadProgress, OfflineRegionRequest } from './download';
+export { OFFLINE_PLACE_KINDS, listOfflineRegions, onOfflineRegionsChange, readOfflineRegionPlaces } from './store';
+export type { OfflineRegion } from './store';
@@ -0,0 +1,109 @@
+import { fuzzyMatches } from '../fuzzy';
+import { distanceMeters } from '../geo';
+import type { LatLng, LatLngBounds } from '../geo';
+import { createIdbStore } from '../idb';
+import type { OsmKind, OsmPlace } from '../osm';
+
+export type OfflineRegion = {
+  id: string;
+  name: string;
+  bounds: LatLngBounds;
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number;
+  tileBytes: number;
+  placeCount: number;
+  placeBytes: number;
+  // Kinds with more places than were downloaded.
+  partialKinds: OsmKind[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type OfflineRegionPlaces = Partial<Record<OsmKind, OsmPlace[]>>;
+
+// What a traveller needs without signal: help, food, sights and a way out.
+export const OFFLINE_PLACE_KINDS: OsmKind[] = ['hospital', 'police', 'restaurant', 'attraction', 'bus_station'];
+
+const regionStore = createIdbStore<OfflineRegion>('local-lens-offline-regions', 'regions');
+const placeStore = createIdbStore<OfflineRegionPlaces>('local-lens-offline-places', 'places');
+
+const listeners = new Set<() => void>();
+let placesCache: Promise<Array<{ region: OfflineRegion; places: OfflineRegionPlaces }>> | null = null;
+
+const notify = () => {
+  placesCache = null;
+  for (const fn of listeners) fn();
+};
+
+export const onOfflineRegionsChange = (fn: () => void) => {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+};
+
+export const listOfflineRegions = async (): Promise<OfflineRegion[]> => {
+  const rows = await regionStore.entries().catch(() => []);
+  return rows.map(([, r]) => r).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveOfflineRegion = async (region: OfflineRegion, places: OfflineRegionPlaces) => {
+  await placeStore.set(region.id, places);
+  await regionStore.set(region.id, region);
+  notify();
+};
+
+export const removeOfflineRegionRecord = async (id: string) => {
+  await regionStore.del(id);
+  await placeStore.del(id);
+  notify();
+};
+
+const loadAllPlaces = () => {
+  if (!placesCache) {
+    placesCache = listOfflineRegions().then((regions) =>
+      Promise.all(
+        regions.map(async (region) => ({ region, places: (await placeStore.get(region.id).catch(() => undefined)) ?? {} }))
+      )
+    );
+  }
+  return placesCache;
+};
+
+const circleTouchesBounds = (b: LatLngBounds, origin: LatLng, radiusMeters: number) => {
+  const nearest = {
+    lat: Math.max(b.south, Math.min(b.north, origin.lat)),
+    lng: Math.max(b.west, Math.min(b.east, origin.lng)),
+  };
+  return distanceMeters(origin, nearest) <= radiusMeters;
+};
+
+// Mirrors the tags osm.ts matches a text query against.
+const matchesQuery = (p: OsmPlace, query: string) =>
+  fuzzyMatches(query, [p.name, p.tags['name:en'], p.tags.brand, p.tags.cuisine]);
+
+/**
+ * Downloaded places of the given kinds within the circle, nearest first
+ */
+export const readOfflineRegionPlaces = async (req: {
+  origin: LatLng;
+  radiusMeters: number;
+  kinds: OsmKind[];
+  query: string;
+  limit: number;
+}): Promise<OsmPlace[]> => {
+  const all = await loadAllPlaces().catch(() => []);
+  const byId = new Map<string, OsmPlace>();
+  for (const { region, places } of all) {
+    if (!circleTouchesBounds(region.bounds, req.origin, req.radiusMeters)) continue;
+    for (const kind of req.kinds) {
+      for (const p of places[kind] ?? []) {
+        if (distanceMeters(req.origin, p) <= req.radiusMeters && matchesQuery(p, req.query)) byId.set(p.id, p);
+      }
+    }
+  }
+  return [...byId.values()]
+    .sort((a, b) => distanceMeters(req.origin, a) - distanceMeters(req.origin, b))
+    .slice(0, req.limit);
+};
@@ -0,0 +1,56 @@
+import type { LatLngBounds } from '../geo';
+import { createIdbStore } from '../idb';
+
+export type TileCoord = { z: number; x: number; y: number };
+
+// The service worker (src/sw.js) reads this database directly to serve tiles offline.
+export const OFFLINE_TILE_DB = 'local-lens-offline-tiles';
+export const OFFLINE_TILE_STORE = 'tiles';
+
+export const offlineTileStore = createIdbStore<Blob>(OFFLINE_TILE_DB, OFFLINE_TILE_STORE);
+
+export const tileKey = ({ z, x, y }: TileCoord) => `${z}/${x}/${y}`;
+
+export const tileUrl = ({ z, x, y }: TileCoord) => `https://tile.openstreetmap.org/${z}/${x}/${y}.png`;
+
+// Web Mercator stops here.
+const MAX_LAT = 85.0511;
+
+const lngToX = (lng: number, z: number) => Math.floor(((lng + 180) / 360) * 2 ** z);
+
+const latToY = (lat: number, z: number) => {
+  const r = (Math.max(-MAX_LAT, Math.min(MAX_LAT, lat)) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(r) + 1 / Math.cos(r)) / Math.PI) / 2) * 2 ** z);
+};
+
+const tileRange = (b: LatLngBounds, z: number) => {
+  const max = 2 ** z - 1;
+  const clamp = (v: number) => Math.max(0, Math.min(max, v));
+  return {
+    x0: clamp(lngToX(b.west, z)),
+    x1: clamp(lngToX(b.east, z)),
+    // Tile rows grow southwards.
+    y0: clamp(latToY(b.north, z)),
+    y1: clamp(latToY(b.south, z)),
+  };
+};
+
+export const countTiles = (b: LatLngBounds, minZoom: number, maxZoom: number) => {
+  let total = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { x0, x1, y0, y1 } = tileRange(b, z);
+    total += (x1 - x0 + 1) * (y1 - y0 + 1);
+  }
+  return total;
+};
+
+export const tilesForBounds = (b: LatLngBounds, minZoom: number, maxZoom: number): TileCoord[] => {
+  const tiles: TileCoord[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { x0, x1, y0, y1 } = tileRange(b, z);
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { describeOpeningHours, evaluateOpeningHours } from './openingHours';
+
+const TZ = 'Asia/Kolkata';
+
+// 2025-06-02 is a Monday.
+const at = (day: 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat' | 'Sun', time: string) => {
+  const date = 2 + ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].indexOf(day);
+  return new Date(`2025-06-${String(date).padStart(2, '0')}T${time}:00+05:30`);
+};
+
+const label = (raw: string, now: Date) => describeOpeningHours(evaluateOpeningHours(raw, now, TZ));
+
+// Values as they appear on OSM objects around Bengaluru and Mumbai.
+const corpus: Array<[raw: string, now: Date, expected: string]> = [
+  ['24/7', at('Wed', '03:00'), 'Open 24/7'],
+  ['Mo-Su 11:00-23:00', at('Wed', '10:00'), 'Closed · opens 11:00'],
+  ['Mo-Su 11:00-23:00', at('Wed', '12:30'), 'Open · closes 23:00'],
+  ['Mo-Fr 09:00-13:00,14:00-18:00; Sa 09:00-13:00', at('Wed', '13:30'), 'Closed · opens 14:00'],
+  ['Mo-Fr 09:00-13:00,14:00-18:00; Sa 09:00-13:00', at('Sat', '15:00'), 'Closed · opens Mon 09:00'],
+  ['Mo-Sa 10:00-22:00; Su off', at('Sun', '12:00'), 'Closed · opens tomorrow 10:00'],
+  ['Mo-Fr 9:00-17:00', at('Tue', '16:59'), 'Open · closes 17:00'],
+  ['18:00-02:00', at('Thu', '01:00'), 'Open · closes 02:00'],
+  ['18:00-02:00', at('Thu', '23:00'), 'Open · closes 02:00'],
+  ['Mo-Fr 08:00-20:00; PH off', at('Wed', '10:00'), 'Open · closes 20:00'],
+  ['Mo-Fr 09:00-17:00, Sa 10:00-14:00', at('Sat', '11:00'), 'Open · closes 14:00'],
+  ['Tu-Su 12:00-15:00, 19:00-23:00', at('Mon', '20:00'), 'Closed · opens tomorrow 12:00'],
+  ['Tu-Su 12:00-15:00, 19:00-23:00', at('Tue', '16:00'), 'Closed · opens 19:00'],
+  ['Mo-Fr 09:00-18:00; We 09:00-13:00', at('Wed', '15:00'), 'Closed · opens tomorrow 09:00'],
+  ['Nov-Mar Mo-Su 09:00-17:00; Apr-Oct Mo-Su 08:00-19:00', at('Wed', '18:00'), 'Open · closes 19:00'],
+  ['Mo-Su 07:00-23:00 "call ahead on holidays"', at('Fri', '07:00'), 'Open · closes 23:00'],
+  ['Mo-Fr 09:00-17:00 || "by appointment"', at('Mon', '09:30'), 'Open · closes 17:00'],
+  ['Mo-Sa 10:00+', at('Sat', '21:00'), 'Open · closes 00:00'],
+  ['Mo-Su 00:00-24:00', at('Wed', '04:00'), 'Open 24/7'],
+  ['Sa,Su 10:00-16:00', at('Wed', '10:00'), 'Closed · opens Sat 10:00'],
+  ['Mo-Fr', at('Wed', '02:00'), 'Open · closes Sat 00:00'],
+  ['off', at('Wed', '10:00'), 'Closed'],
+];
+
+describe('evaluateOpeningHours', () => {
+  it.each(corpus)('%s at %s', (raw, now, expected) => {
+    expect(label(raw, now)).toBe(expected);
+  });
+
+  it.each(['sunrise-sunset', 'Mo-Fr 10:00-18:00; week 01-10 off', 'by appointment', '', 'Mo-Fr 25:99-30:00'])(
+    'gives up on unsupported value %j',
+    (raw) => {
+      expect(evaluateOpeningHours(raw, at('Wed', '12:00'), TZ).state).toBe('unknown');
+    }
+  );
+
+  it('reports the next change relative to the evaluated day', () => {
+    expect(evaluateOpeningHours('Mo 09:00-17:00', at('Wed', '12:00'), TZ).nextChange).toEqual({
+      time: '09:00',
+      dayOffset: 5,
+      weekday: 'Mon',
+    });
+  });
+});
@@ -0,0 +1,311 @@
+// Parser and evaluator for the common subset of the OSM opening_hours syntax:
+// weekday and month ranges, multiple time spans, overnight spans, "off",
+// "24/7", ";" override rules and "," additional rules.
+// Anything outside that subset (sunrise, week numbers, nth weekday, ...)
+// evaluates to "unknown" rather than guessing.
+
+export type OpeningHoursState = 'open' | 'closed' | 'unknown';
+
+export type OpeningHoursStatus = {
+  state: OpeningHoursState;
+  // Next open/close transition in the evaluated time zone, if known within a week.
+  nextChange: { time: string; dayOffset: number; weekday: string } | null;
+};
+
+type Span = { start: number; end: number };
+
+type Rule = {
+  months: boolean[] | null;
+  days: boolean[] | null;
+  spans: Span[];
+  off: boolean;
+  additional: boolean;
+};
+
+type Parsed = { alwaysOpen: true } | { alwaysOpen: false; rules: Rule[] };
+
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const DAY_MINUTES = 24 * 60;
+
+const TOKEN_RE =
+  /\s*(24\/7|"[^"]*"|\d{1,2}:\d{2}|Mo|Tu|We|Th|Fr|Sa|Su|PH|SH|Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec|off|closed|open|[-,+:])\s*/y;
+
+const tokenize = (input: string): string[] | null => {
+  const tokens: string[] = [];
+  TOKEN_RE.lastIndex = 0;
+  while (TOKEN_RE.lastIndex < input.length) {
+    const start = TOKEN_RE.lastIndex;
+    const m = TOKEN_RE.exec(input);
+    if (!m || TOKEN_RE.lastIndex === start) return null;
+    // Comments carry no schedule information.
+    if (!m[1].startsWith('"')) tokens.push(m[1]);
+  }
+  return tokens;
+};
+
+const parseTime = (t: string) => {
+  const [h, m] = t.split(':').map(Number);
+  if (!Number.isFinite(h) || !Number.isFinite(m) || h > 48 || m > 59) return null;
+  return h * 60 + m;
+};
+
+const fillRange = (size: number, from: number, to: number) => {
+  const out = new Array<boolean>(size).fill(false);
+  for (let i = from; ; i = (i + 1) % size) {
+    out[i] = true;
+    if (i === to) break;
+  }
+  return out;
+};
+
+const orInto = (target: boolean[] | null, src: boolean[]) => (target ? target.map((v, i) => v || src[i]) : src);
+
+/**
+ * Parse a single rule (no ";" or "||"). Returns one or more rules because "," can
+ * start an additional rule after a time list, e.g. "Mo-Fr 09:00-17:00, Sa 10:00-14:00".
+ */
+const parseRule = (tokens: string[]): Rule[] | null => {
+  const rules: Rule[] = [];
+  let i = 0;
+
+  while (i < tokens.length) {
+    const rule: Rule = { months: null, days: null, spans: [], off: false, additional: rules.length > 0 };
+    let sawHolidayOnly = false;
+
+    // Month selector: Jan, Mar-May, Jan,Dec
+    while (i < tokens.length && MONTHS.includes(tokens[i])) {
+      const from = MONTHS.indexOf(tokens[i]);
+      let to = from;
+      if (tokens[i + 1] === '-' && MONTHS.includes(tokens[i + 2])) {
+        to = MONTHS.indexOf(tokens[i + 2]);
+        i += 2;
+      }
+      rule.months = orInto(rule.months, fillRange(12, from, to));
+      i += 1;
+      if (tokens[i] === ',' && MONTHS.includes(tokens[i + 1])) i += 1;
+    }
+    if (tokens[i] === ':') i += 1;
+
+    // Weekday selector: Mo-Fr, Sa,Su, PH
+    while (i < tokens.length && (WEEKDAYS.includes(tokens[i]) || tokens[i] === 'PH' || tokens[i] === 'SH')) {
+      if (tokens[i] === 'PH' || tokens[i] === 'SH') {
+        // Holidays aren't known here; a holiday-only rule never applies.
+        sawHolidayOnly = rule.days == null;
+        i += 1;
+      } else {
+        const from = WEEKDAYS.indexOf(tokens[i]);
+        let to = from;
+        if (tokens[i + 1] === '-' && WEEKDAYS.includes(tokens[i + 2])) {
+          to = WEEKDAYS.indexOf(tokens[i + 2]);
+          i += 2;
+        }
+        rule.days = orInto(rule.days, fillRange(7, from, to));
+        sawHolidayOnly = false;
+        i += 1;
+      }
+      if (tokens[i] === ',' && (WEEKDAYS.includes(tokens[i + 1]) || tokens[i + 1] === 'PH' || tokens[i + 1] === 'SH')) {
+        i += 1;
+      }
+    }
+    if (tokens[i] === ':') i += 1;
+
+    // Time spans: 09:00-13:00,14:00-18:00 / 18:00+ / off / open
+    while (i < tokens.length) {
+      const t = tokens[i];
+      if (t === 'off' || t === 'closed') {
+        rule.off = true;
+        i += 1;
+      } else if (t === 'open') {
+        rule.spans.push({ start: 0, end: DAY_MINUTES });
+        i += 1;
+      } else if (t.includes(':') && t !== ':') {
+        const start = parseTime(t);
+        if (start == null) return null;
+        if (tokens[i + 1] === '-' && tokens[i + 2]?.includes(':')) {
+          let end = parseTime(tokens[i + 2]);
+          if (end == null) return null;
+          if (end <= start) end += DAY_MINUTES;
+          rule.spans.push({ start, end });
+          i += 3;
+        } else if (tokens[i + 1] === '+') {
+          // Open end: treat as open until midnight.
+          rule.spans.push({ start, end: DAY_MINUTES });
+          i += 2;
+        } else {
+          return null;
+        }
+        if (tokens[i] === '+') i += 1;
+      } else if (t === ',') {
+        if (tokens[i + 1]?.includes(':') && tokens[i + 1] !== ':') {
+          i += 1;
+          continue;
+        }
+        break;
+      } else {
+        return null;
+      }
+    }
+
+    if (!sawHolidayOnly) {
+      if (rule.spans.length === 0 && !rule.off) {
+        // A bare selector ("Mo-Fr") means open all day on those days.
+        rule.spans.push({ start: 0, end: DAY_MINUTES });
+      }
+      rules.push(rule);
+    }
+
+    if (tokens[i] === ',') {
+      i += 1;
+    } else if (i < tokens.length) {
+      return null;
+    }
+  }
+
+  return rules;
+};
+
+const parseOpeningHours = (raw: string): Parsed | null => {
+  const text = raw.trim();
+  if (!text) return null;
+  if (text === '24/7') return { alwaysOpen: true };
+
+  // "||" fallback rules are evaluated like ordinary rules. That's an approximation,
+  // but fallbacks in the wild are almost always comments like "by appointment".
+  const parts = text
+    .split(/\|\||;/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  const rules: Rule[] = [];
+  for (const part of parts) {
+    if (part === '24/7') {
+      rules.push({ months: null, days: null, spans: [{ start: 0, end: DAY_MINUTES }], off: false, additional: false });
+      continue;
+    }
+    const tokens = tokenize(part);
+    if (!tokens) return null;
+    const parsed = parseRule(tokens);
+    if (!parsed) return null;
+    rules.push(...parsed);
+  }
+  return { alwaysOpen: false, rules };
+};
+
+type LocalDate = { year: number; month: number; day: number; weekday: number; minutes: number };
+
+const WEEKDAY_INDEX: Record<string, number> = { Mon: 0, Tue: 1, Wed: 2, Thu: 3, Fri: 4, Sat: 5, Sun: 6 };
+
+const toLocal = (date: Date, timeZone?: string): LocalDate => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')) - 1,
+    day: Number(get('day')),
+    weekday: WEEKDAY_INDEX[get('weekday')] ?? 0,
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+};
+
+// Month for a day offset from the local date (only the month matters for rules).
+const monthAt = (local: LocalDate, dayOffset: number) =>
+  new Date(Date.UTC(local.year, local.month, local.day + dayOffset)).getUTCMonth();
+
+const spansForDay = (rules: Rule[], weekday: number, month: number): Span[] => {
+  let spans: Span[] = [];
+  for (const rule of rules) {
+    if (rule.days && !rule.days[weekday]) continue;
+    if (rule.months && !rule.months[month]) continue;
+    if (rule.additional) {
+      spans = rule.off ? [] : [...spans, ...rule.spans];
+    } else {
+      spans = rule.off ? [] : [...rule.spans];
+    }
+  }
+  return spans;
+};
+
+const formatMinutes = (m: number) => {
+  const mm = ((m % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES;
+  return `${String(Math.floor(mm / 60)).padStart(2, '0')}:${String(mm % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Evaluate an opening_hours value at `now` in the given IANA time zone (defaults
+ * to the device's). Unsupported or malformed values give state "unknown".
+ */
+export const evaluateOpeningHours = (
+  raw: string,
+  now: Date = new Date(),
+  timeZone?: string
+): OpeningHoursStatus => {
+  const parsed = parseOpeningHours(raw);
+  if (!parsed) return { state: 'unknown', nextChange: null };
+  if (parsed.alwaysOpen) return { state: 'open', nextChange: null };
+
+  const local = toLocal(now, timeZone);
+
+  // Timeline of absolute minutes relative to today's midnight, from yesterday
+  // (for overnight spans) through a week ahead.
+  const timeline: Span[] = [];
+  for (let offset = -1; offset <= 7; offset++) {
+    const weekday = (((local.weekday + offset) % 7) + 7) % 7;
+    for (const s of spansForDay(parsed.rules, weekday, monthAt(local, offset))) {
+      timeline.push({ start: s.start + offset * DAY_MINUTES, end: s.end + offset * DAY_MINUTES });
+    }
+  }
+  timeline.sort((a, b) => a.start - b.start);
+
+  // Merge touching spans so "22:00-24:00; 00:00-02:00" reads as one.
+  const merged: Span[] = [];
+  for (const s of timeline) {
+    const last = merged[merged.length - 1];
+    if (last && s.start <= last.end) last.end = Math.max(last.end, s.end);
+    else merged.push({ ...s });
+  }
+
+  const at = (m: number) => {
+    const dayOffset = Math.floor(m / DAY_MINUTES);
+    return {
+      time: formatMinutes(m),
+      dayOffset,
+      weekday: WEEKDAY_LABELS[(((local.weekday + dayOffset) % 7) + 7) % 7],
+    };
+  };
+
+  const current = merged.find((s) => s.start <= local.minutes && local.minutes < s.end);
+  if (current) {
+    const horizon = 7 * DAY_MINUTES;
+    return { state: 'open', nextChange: current.end >= horizon ? null : at(current.end) };
+  }
+
+  const upcoming = merged.find((s) => s.start > local.minutes);
+  return { state: 'closed', nextChange: upcoming ? at(upcoming.start) : null };
+};
+
+/**
+ * Short human label, e.g. "Open · closes 22:00" or "Closed · opens Mon 09:00"
+ */
+export const describeOpeningHours = (status: OpeningHoursStatus): string => {
+  if (status.state === 'unknown') return 'Hours unknown';
+  const change = status.nextChange;
+  if (status.state === 'open') {
+    if (!change) return 'Open 24/7';
+    // Overnight closings (dayOffset 1) still read naturally as just a time.
+    return `Open · closes ${change.dayOffset <= 1 ? '' : `${change.weekday} `}${change.time}`;
+  }
+  if (!change) return 'Closed';
+  const when = change.dayOffset === 0 ? '' : change.dayOffset === 1 ? 'tomorrow ' : `${change.weekday} `;
+  return `Closed · opens ${when}${change.time}`;
+};
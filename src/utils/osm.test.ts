@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchNearbyOsmPlaces } from './osm';
+
+const overpassJson = {
+  elements: [{ type: 'node', id: 7, lat: 12.9716, lon: 77.5946, tags: { amenity: 'police', name: 'Cubbon Park Police' } }],
+};
+
+// A fetch that only answers when told to, so callers can join and leave while it runs.
+const deferredFetch = () => {
+  let respond: () => void = () => {};
+  const fetchMock = vi.fn(
+    (_url: string, init: RequestInit) =>
+      new Promise<Response>((resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        respond = () => resolve(new Response(JSON.stringify(overpassJson), { status: 200 }));
+      })
+  );
+  return { fetchMock, respond: () => respond() };
+};
+
+const search = (radiusMeters: number, signal: AbortSignal) =>
+  fetchNearbyOsmPlaces({ lat: 12.97, lng: 77.59 }, { radiusMeters, kinds: ['police'], signal });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('shared in-flight requests', () => {
+  it('keeps the fetch running while any caller still wants it', async () => {
+    const { fetchMock, respond } = deferredFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = search(1000, first.signal);
+    const b = search(1000, second.signal);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    first.abort();
+    await expect(a).rejects.toThrow();
+    respond();
+
+    expect((await b).map((p) => p.name)).toEqual(['Cubbon Park Police']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].signal?.aborted).toBe(false);
+  });
+
+  it('cancels the fetch once every caller has left', async () => {
+    const { fetchMock } = deferredFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = search(2000, first.signal);
+    const b = search(2000, second.signal);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    first.abort();
+    second.abort();
+
+    await expect(a).rejects.toThrow();
+    await expect(b).rejects.toThrow();
+    expect(fetchMock.mock.calls[0][1].signal?.aborted).toBe(true);
+  });
+});
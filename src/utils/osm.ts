@@ -1,3 +1,21 @@
+import { overpassCacheKey, readLastKnownOverpassPlaces, readOverpassCache, writeOverpassCache } from './overpassCache';
+import type { OverpassCacheRequest } from './overpassCache';
+import {
+  isMirrorFailureStatus,
+  parseRetryAfter,
+  recordOverpassFailure,
+  recordOverpassSuccess,
+  selectOverpassEndpoint,
+} from './overpassEndpoints';
+import { OSM_PRESETS } from './overpassPresets';
+import type { OsmKind } from './overpassPresets';
+import { buildOverpassQuery, tag } from './overpassQuery';
+import type { OverpassSelector } from './overpassQuery';
+import { fuzzyMatches, spellingPattern } from './fuzzy';
+import { distanceMeters } from './geo';
+import type { LatLngBounds } from './geo';
+import { readOfflineRegionPlaces } from './offlineRegions/store';
+
 export type OsmLatLng = {
   lat: number;
   lng: number;
@@ -12,29 +30,51 @@ export type OsmPlace = {
   tags: Record<string, string>;
 };
 
+export type { OsmKind } from './overpassPresets';
+
+type OverpassElement = {
+  type: string;
+  id: number;
+  lat?: number;
+  lon?: number;
+  // Ways and relations with `out center`.
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+};
+
+type OverpassResponse = { elements?: OverpassElement[] };
+
 export const getOsmDirectionsUrl = (origin: OsmLatLng, destination: OsmLatLng) => {
   const o = `${origin.lat},${origin.lng}`;
   const d = `${destination.lat},${destination.lng}`;
   return `https://www.openstreetmap.org/directions?engine=fossgis_osrm_car&route=${encodeURIComponent(o)}%3B${encodeURIComponent(d)}`;
 };
 
-const OVERPASS_ENDPOINTS = [
-  'https://overpass-api.de/api/interpreter',
-  'https://overpass.kumi.systems/api/interpreter',
-  'https://overpass.nchc.org.tw/api/interpreter',
-];
-
-const cache = new Map<string, { at: number; data: OsmPlace[] }>();
+class QueryRejectedError extends Error {}
 
 const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
-const overpassFetch = async (query: string): Promise<any> => {
+// Longest we'll wait for a cooled-down mirror before giving up on the request.
+const MAX_ENDPOINT_WAIT_MS = 5000;
+
+const overpassFetch = async (query: string, signal?: AbortSignal): Promise<OverpassResponse> => {
   let lastErr: unknown;
+  const tried: string[] = [];
 
   for (let attempt = 0; attempt < 3; attempt++) {
-    const endpoint = OVERPASS_ENDPOINTS[attempt % OVERPASS_ENDPOINTS.length];
+    signal?.throwIfAborted();
+    const { url: endpoint, waitMs } = selectOverpassEndpoint(tried);
+    if (waitMs > MAX_ENDPOINT_WAIT_MS) {
+      throw new Error(`Overpass servers are busy. Try again in ${Math.ceil(waitMs / 1000)}s.`);
+    }
+    if (waitMs > 0) await sleep(waitMs);
+    tried.push(endpoint);
+
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 12_000);
+    const onCallerAbort = () => controller.abort();
+    signal?.addEventListener('abort', onCallerAbort);
+    const startedAt = Date.now();
 
     try {
       const res = await fetch(endpoint, {
@@ -45,83 +85,222 @@ const overpassFetch = async (query: string): Promise<any> => {
       });
       clearTimeout(timeoutId);
 
+      if (!res.ok && !isMirrorFailureStatus(res.status)) {
+        // Bad query: every mirror would reject it, and none of them is unhealthy.
+        throw new QueryRejectedError(`Overpass rejected the query: ${res.status}`);
+      }
       if (!res.ok) {
-        // 429/504 etc: retry other endpoint with backoff
-        throw new Error(`Overpass error: ${res.status}`);
+        // 429/5xx: mark the mirror and move on to the next healthiest one
+        recordOverpassFailure(endpoint, {
+          status: res.status,
+          retryAfterMs: parseRetryAfter(res.headers.get('Retry-After')),
+        });
+        lastErr = new Error(`Overpass error: ${res.status}`);
+        continue;
       }
 
-      return await res.json();
+      const json = (await res.json()) as OverpassResponse;
+      recordOverpassSuccess(endpoint, Date.now() - startedAt);
+      return json;
     } catch (e) {
       clearTimeout(timeoutId);
+      // Cancelled by the caller, or a rejected query: not the mirror's fault, and no point retrying.
+      if (signal?.aborted || e instanceof QueryRejectedError) throw e;
+      recordOverpassFailure(endpoint, {});
       lastErr = e;
-      await sleep(400 * (attempt + 1));
+    } finally {
+      signal?.removeEventListener('abort', onCallerAbort);
     }
   }
 
   throw lastErr instanceof Error ? lastErr : new Error('Overpass request failed');
 };
 
+// Tags a free-text query is matched against. Overpass can't OR tags inside one
+// selector, so each base selector is repeated once per tag.
+const TEXT_QUERY_KEYS = ['name', 'name:en', 'brand', 'cuisine'];
+// The spelling pattern also catches near misses ("Burn Cafe" for biryani) that
+// fuzzy scoring drops afterwards, so text searches ask Overpass for more.
+const TEXT_QUERY_OVERFETCH = 5;
+const MAX_OVERPASS_OUT = 1000;
+
+const withTextFilter = (selectors: OverpassSelector[], queryLower: string): OverpassSelector[] => {
+  if (!queryLower) return selectors;
+  const pattern = spellingPattern(queryLower);
+  if (!pattern) return selectors;
+  return selectors.flatMap((sel) =>
+    TEXT_QUERY_KEYS.map((key) => ({
+      ...sel,
+      predicates: [...sel.predicates, tag.regex(key, pattern, { caseInsensitive: true })],
+    }))
+  );
+};
+
+/**
+ * Places of the given kinds around `origin`, nearest first. A text query is applied
+ * server-side so matches beyond the first page of unfiltered results aren't lost,
+ * as a loose spelling pattern whose hits are then checked with fuzzy scoring.
+ */
 export const fetchNearbyOsmPlaces = async (
   origin: OsmLatLng,
   options: {
     radiusMeters: number;
-    kinds: Array<'restaurant' | 'hospital' | 'police' | 'attraction' | 'bus_station'>;
+    kinds: OsmKind[];
     limit?: number;
     query?: string;
+    signal?: AbortSignal;
   }
 ): Promise<OsmPlace[]> => {
   const radius = Math.max(100, Math.min(options.radiusMeters, 50_000));
-  const limit = Math.max(1, Math.min(options.limit ?? 30, 50));
-
-  const kindToOverpass: Record<string, string[]> = {
-    restaurant: ['node[amenity=restaurant]', 'way[amenity=restaurant]', 'relation[amenity=restaurant]'],
-    hospital: ['node[amenity=hospital]', 'way[amenity=hospital]', 'relation[amenity=hospital]'],
-    police: ['node[amenity=police]', 'way[amenity=police]', 'relation[amenity=police]'],
-    bus_station: [
-      'node[amenity=bus_station]',
-      'way[amenity=bus_station]',
-      'relation[amenity=bus_station]',
-      'node[highway=bus_stop]',
-      'way[highway=bus_stop]',
-      'relation[highway=bus_stop]',
-    ],
-    attraction: [
-      'node[tourism=attraction]',
-      'way[tourism=attraction]',
-      'relation[tourism=attraction]',
-      'node[tourism=museum]',
-      'way[tourism=museum]',
-      'relation[tourism=museum]',
-      'node[historic]',
-      'way[historic]',
-      'relation[historic]',
-      'node[amenity=place_of_worship]',
-      'way[amenity=place_of_worship]',
-      'relation[amenity=place_of_worship]',
-    ],
-  };
-
-  const parts = options.kinds.flatMap((k) => kindToOverpass[k] ?? []);
-  if (parts.length === 0) return [];
-
-  const around = `(around:${radius},${origin.lat},${origin.lng})`;
-  const q = `[
-    out:json
-  ][timeout:25];(
-    ${parts.map((p) => `${p}${around};`).join('\n    ')}
-  );out center ${limit};`;
+  const limit = Math.max(1, Math.min(options.limit ?? 30, 200));
 
   const queryLower = (options.query ?? '').trim().toLowerCase();
-  const cacheKey = `${origin.lat.toFixed(5)},${origin.lng.toFixed(5)}|${radius}|${options.kinds.join(',')}|${queryLower}`;
-  const cached = cache.get(cacheKey);
-  if (cached && Date.now() - cached.at < 60_000) {
+  const selectors = withTextFilter(
+    options.kinds.flatMap((k) => OSM_PRESETS[k]?.selectors ?? []),
+    queryLower
+  );
+  if (selectors.length === 0) return [];
+
+  const outLimit = queryLower ? Math.min(limit * TEXT_QUERY_OVERFETCH, MAX_OVERPASS_OUT) : limit;
+  const q = buildOverpassQuery({
+    selectors,
+    area: { type: 'around', lat: origin.lat, lng: origin.lng, radiusMeters: radius },
+    output: { mode: 'center', limit: outLimit },
+  });
+
+  const cacheReq: OverpassCacheRequest = { origin, radiusMeters: radius, kinds: options.kinds, query: queryLower, limit };
+
+  const cached = await readOverpassCache(cacheReq);
+  if (cached) {
+    // Stale-while-revalidate: answer from cache now, refresh in the background.
+    if (cached.stale) revalidate(q, outLimit, cacheReq);
     return cached.data;
   }
 
-  const data = (await overpassFetch(q)) as { elements?: any[] };
+  // No point walking the mirror list when the device knows it has no network.
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    const offline = await readOffline(cacheReq);
+    if (offline) return offline;
+  }
+
+  try {
+    return await loadAndCache(q, outLimit, cacheReq, options.signal);
+  } catch (e) {
+    if (options.signal?.aborted) throw e;
+    const offline = await readOffline(cacheReq);
+    if (offline) return offline;
+    throw e;
+  }
+};
+
+/**
+ * Places of the given kinds inside a bounding box, uncached. Used to download
+ * regions for offline use. `complete` is false when Overpass hit `limit`, i.e.
+ * some places in the box were left out.
+ */
+export const fetchOsmPlacesInBounds = async (
+  bounds: LatLngBounds,
+  options: { kinds: OsmKind[]; limit?: number; signal?: AbortSignal }
+): Promise<{ places: OsmPlace[]; complete: boolean }> => {
+  const selectors = options.kinds.flatMap((k) => OSM_PRESETS[k]?.selectors ?? []);
+  if (selectors.length === 0) return { places: [], complete: true };
+
+  const limit = options.limit ?? 500;
+  const q = buildOverpassQuery({
+    selectors,
+    area: { type: 'bbox', ...bounds },
+    output: { mode: 'center', limit },
+  });
+  const data = await overpassFetch(q, options.signal);
   const elements = Array.isArray(data.elements) ? data.elements : [];
+  return { places: mapElements(elements), complete: elements.length < limit };
+};
+
+// Last-known responses plus downloaded regions, for when Overpass is out of reach.
+const readOffline = async (req: OverpassCacheRequest): Promise<OsmPlace[] | null> => {
+  const [lastKnown, downloaded] = await Promise.all([readLastKnownOverpassPlaces(req), readOfflineRegionPlaces(req)]);
+  const byId = new Map<string, OsmPlace>();
+  for (const p of [...downloaded, ...(lastKnown ?? [])]) byId.set(p.id, p);
+  if (!byId.size) return null;
+  return [...byId.values()]
+    .sort((a, b) => distanceMeters(req.origin, a) - distanceMeters(req.origin, b))
+    .slice(0, req.limit);
+};
+
+// One fetch per cache key, shared by every caller that asks while it runs. It has
+// its own controller so one caller navigating away doesn't cancel it for the rest.
+type SharedLoad = { promise: Promise<OsmPlace[]>; controller: AbortController; callers: number };
+
+const inFlight = new Map<string, SharedLoad>();
+
+const revalidate = (q: string, outLimit: number, req: OverpassCacheRequest) => {
+  loadAndCache(q, outLimit, req).catch(() => {
+    // Keep serving the stale entry; the next read will try again.
+  });
+};
+
+const loadAndCache = (
+  q: string,
+  outLimit: number,
+  req: OverpassCacheRequest,
+  signal?: AbortSignal
+): Promise<OsmPlace[]> => {
+  const key = overpassCacheKey(req);
+  let shared = inFlight.get(key);
+
+  if (!shared || shared.controller.signal.aborted) {
+    const controller = new AbortController();
+    const promise = (async () => {
+      const data = await overpassFetch(q, controller.signal);
+      const elements = Array.isArray(data.elements) ? data.elements : [];
+      const matches = mapElements(elements)
+        .filter((p) => fuzzyMatches(req.query, TEXT_QUERY_KEYS.map((k) => p.tags[k]).concat(p.name)))
+        .sort((a, b) => distanceMeters(req.origin, a) - distanceMeters(req.origin, b));
+      const result = matches.slice(0, req.limit);
+      // Complete only if Overpass didn't stop early and the slice above kept every match.
+      await writeOverpassCache(req, result, elements.length < outLimit && matches.length <= req.limit);
+      return result;
+    })().finally(() => {
+      if (inFlight.get(key) === entry) inFlight.delete(key);
+    });
+    const entry: SharedLoad = { promise, controller, callers: 0 };
+    inFlight.set(key, entry);
+    shared = entry;
+  }
+
+  return joinSharedLoad(shared, signal);
+};
+
+// Callers without a signal (background revalidation) keep the fetch alive until it ends.
+const joinSharedLoad = (shared: SharedLoad, signal?: AbortSignal): Promise<OsmPlace[]> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    shared.callers += 1;
+
+    const onAbort = () => {
+      shared.callers -= 1;
+      if (shared.callers === 0) shared.controller.abort();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
 
-  const mapped: OsmPlace[] = elements
+    shared.promise.then(
+      (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      (e) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(e);
+      }
+    );
+  });
+
+const mapElements = (elements: OverpassElement[]): OsmPlace[] =>
+  elements
     .map((el) => {
       const tags: Record<string, string> = el.tags ?? {};
       const lat = typeof el.lat === 'number' ? el.lat : el.center?.lat;
@@ -150,12 +329,3 @@ export const fetchNearbyOsmPlaces = async (
       } satisfies OsmPlace;
     })
     .filter(Boolean) as OsmPlace[];
-
-  const filtered = queryLower
-    ? mapped.filter((p) => p.name.toLowerCase().includes(queryLower) || p.address.toLowerCase().includes(queryLower))
-    : mapped;
-
-  const result = filtered.slice(0, limit);
-  cache.set(cacheKey, { at: Date.now(), data: result });
-  return result;
-};
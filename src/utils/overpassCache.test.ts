@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { readOverpassCache, writeOverpassCache } from './overpassCache';
+import type { OverpassCacheRequest } from './overpassCache';
+import type { OsmPlace } from './osm';
+
+const origin = { lat: 12.97, lng: 77.59 };
+
+// Pharmacies every ~110 m heading north from the origin.
+const places: OsmPlace[] = Array.from({ length: 20 }, (_, i) => ({
+  id: `node/${i}`,
+  name: `Pharmacy ${i}`,
+  address: '',
+  lat: origin.lat + i * 0.001,
+  lng: origin.lng,
+  tags: { amenity: 'pharmacy' },
+}));
+
+const request = (query: string, radiusMeters: number, limit = 5): OverpassCacheRequest => ({
+  origin,
+  radiusMeters,
+  kinds: ['pharmacy'],
+  query,
+  limit,
+});
+
+describe('readOverpassCache', () => {
+  it('serves a smaller circle from a complete entry', async () => {
+    await writeOverpassCache(request('complete', 8000), places, true);
+
+    const hit = await readOverpassCache(request('complete', 500));
+    expect(hit?.data.map((p) => p.id)).toEqual(['node/0', 'node/1', 'node/2', 'node/3', 'node/4']);
+  });
+
+  it('answers only the identical request from a truncated entry', async () => {
+    await writeOverpassCache(request('truncated', 8000), places, false);
+
+    expect(await readOverpassCache(request('truncated', 500))).toBeNull();
+    expect(await readOverpassCache(request('truncated', 8000, 30))).toBeNull();
+    expect((await readOverpassCache(request('truncated', 8000)))?.data).toHaveLength(5);
+  });
+});
@@ -0,0 +1,214 @@
+import { distanceMeters } from './geo';
+import type { LatLng } from './geo';
+import { createIdbStore } from './idb';
+import { isSearchHistoryEnabled } from './searchHistory';
+import type { OsmKind, OsmPlace } from './osm';
+
+export type OverpassCacheRequest = {
+  origin: LatLng;
+  radiusMeters: number;
+  kinds: OsmKind[];
+  query: string;
+  limit: number;
+};
+
+type CacheEntry = {
+  key: string;
+  origin: LatLng;
+  radiusMeters: number;
+  kinds: string;
+  query: string;
+  // true when nothing was cut off: Overpass stopped short of its limit and every match was kept.
+  complete: boolean;
+  data: OsmPlace[];
+  fetchedAt: number;
+  accessedAt: number;
+};
+
+export type CachedOsmPlaces = {
+  data: OsmPlace[];
+  stale: boolean;
+  fetchedAt: number;
+};
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// fresh: served without revalidation. maxAge: still served (and revalidated) until then.
+const KIND_TTL: Record<OsmKind, { fresh: number; maxAge: number }> = {
+  restaurant: { fresh: 6 * HOUR, maxAge: 7 * DAY },
+  hospital: { fresh: 7 * DAY, maxAge: 60 * DAY },
+  police: { fresh: 7 * DAY, maxAge: 60 * DAY },
+  cafe: { fresh: 6 * HOUR, maxAge: 7 * DAY },
+  fast_food: { fresh: 6 * HOUR, maxAge: 7 * DAY },
+  pharmacy: { fresh: DAY, maxAge: 30 * DAY },
+  shop: { fresh: DAY, maxAge: 14 * DAY },
+  atm: { fresh: DAY, maxAge: 30 * DAY },
+  fuel: { fresh: DAY, maxAge: 30 * DAY },
+  toilets: { fresh: 7 * DAY, maxAge: 60 * DAY },
+  hotel: { fresh: DAY, maxAge: 30 * DAY },
+  attraction: { fresh: 7 * DAY, maxAge: 60 * DAY },
+  bus_station: { fresh: DAY, maxAge: 30 * DAY },
+};
+
+const MAX_ENTRIES = 200;
+
+const store = createIdbStore<CacheEntry>('local-lens-overpass', 'responses');
+const memory = new Map<string, CacheEntry>();
+let hydrated: Promise<void> | null = null;
+
+const hydrate = () => {
+  if (!hydrated) {
+    hydrated = store
+      .entries()
+      .then((rows) => {
+        for (const [key, entry] of rows) {
+          if (!memory.has(key)) memory.set(key, entry);
+        }
+      })
+      .catch(() => {
+        // IndexedDB unavailable or blocked: memory-only cache.
+      });
+  }
+  return hydrated;
+};
+
+const kindsKey = (kinds: OsmKind[]) => [...kinds].sort().join(',');
+
+const ttlFor = (kinds: string) => {
+  const list = kinds.split(',').filter(Boolean) as OsmKind[];
+  return list.reduce(
+    (acc, k) => ({
+      fresh: Math.min(acc.fresh, KIND_TTL[k]?.fresh ?? HOUR),
+      maxAge: Math.min(acc.maxAge, KIND_TTL[k]?.maxAge ?? DAY),
+    }),
+    { fresh: Infinity, maxAge: Infinity }
+  );
+};
+
+export const overpassCacheKey = (req: OverpassCacheRequest) =>
+  `${req.origin.lat.toFixed(5)},${req.origin.lng.toFixed(5)}|${req.radiusMeters}|${kindsKey(req.kinds)}|${req.query}`;
+
+const evict = async () => {
+  if (memory.size <= MAX_ENTRIES) return;
+  const victims = [...memory.values()]
+    .sort((a, b) => a.accessedAt - b.accessedAt)
+    .slice(0, memory.size - MAX_ENTRIES);
+  for (const v of victims) {
+    memory.delete(v.key);
+    await store.del(v.key).catch(() => undefined);
+  }
+};
+
+// Free-text searches are kept in memory only while search history is off.
+const persists = (query: string) => !query || isSearchHistoryEnabled();
+
+const touch = (entry: CacheEntry) => {
+  entry.accessedAt = Date.now();
+  if (persists(entry.query)) store.set(entry.key, entry).catch(() => undefined);
+};
+
+/**
+ * Answer a request from cache. Any complete entry with the same kinds and query whose
+ * circle fully contains the requested circle can answer it, so a cached 8 km search
+ * also serves a 5 km search a little way off.
+ */
+export const readOverpassCache = async (req: OverpassCacheRequest): Promise<CachedOsmPlaces | null> => {
+  await hydrate();
+
+  const key = overpassCacheKey(req);
+  const kinds = kindsKey(req.kinds);
+  const now = Date.now();
+  const { fresh, maxAge } = ttlFor(kinds);
+
+  let best: { entry: CacheEntry; data: OsmPlace[] } | null = null;
+  for (const entry of memory.values()) {
+    if (entry.kinds !== kinds || entry.query !== req.query) continue;
+    if (now - entry.fetchedAt > maxAge) continue;
+
+    const offset = distanceMeters(req.origin, entry.origin);
+    if (offset + req.radiusMeters > entry.radiusMeters) continue;
+
+    const data = entry.data
+      .filter((p) => distanceMeters(req.origin, p) <= req.radiusMeters)
+      .sort((a, b) => distanceMeters(req.origin, a) - distanceMeters(req.origin, b));
+    // A truncated result may be missing places anywhere in its circle, so it only
+    // answers the exact request it came from.
+    if (!entry.complete && (entry.key !== key || data.length < req.limit)) continue;
+
+    if (!best || entry.fetchedAt > best.entry.fetchedAt) {
+      best = { entry, data };
+    }
+  }
+
+  if (!best) return null;
+
+  touch(best.entry);
+  return {
+    data: best.data.slice(0, req.limit),
+    stale: now - best.entry.fetchedAt > fresh,
+    fetchedAt: best.entry.fetchedAt,
+  };
+};
+
+/**
+ * Best-effort answer for when Overpass can't be reached: every cached entry for
+ * the same kinds and query that overlaps the circle, however old or partial,
+ * merged and cut down to the requested circle.
+ */
+export const readLastKnownOverpassPlaces = async (req: OverpassCacheRequest): Promise<OsmPlace[] | null> => {
+  await hydrate();
+
+  const kinds = kindsKey(req.kinds);
+  const byId = new Map<string, OsmPlace>();
+  for (const entry of memory.values()) {
+    if (entry.kinds !== kinds || entry.query !== req.query) continue;
+    if (distanceMeters(req.origin, entry.origin) > req.radiusMeters + entry.radiusMeters) continue;
+    for (const p of entry.data) {
+      if (distanceMeters(req.origin, p) <= req.radiusMeters) byId.set(p.id, p);
+    }
+  }
+  if (!byId.size) return null;
+
+  return [...byId.values()]
+    .sort((a, b) => distanceMeters(req.origin, a) - distanceMeters(req.origin, b))
+    .slice(0, req.limit);
+};
+
+export const writeOverpassCache = async (req: OverpassCacheRequest, data: OsmPlace[], complete: boolean) => {
+  await hydrate();
+
+  const key = overpassCacheKey(req);
+  const now = Date.now();
+  const entry: CacheEntry = {
+    key,
+    origin: { lat: req.origin.lat, lng: req.origin.lng },
+    radiusMeters: req.radiusMeters,
+    kinds: kindsKey(req.kinds),
+    query: req.query,
+    complete,
+    data,
+    fetchedAt: now,
+    accessedAt: now,
+  };
+
+  memory.set(key, entry);
+  if (persists(req.query)) await store.set(key, entry).catch(() => undefined);
+  await evict();
+};
+
+/**
+ * Drop entries for free-text searches, keeping plain category lookups
+ */
+export const forgetOverpassQueries = async () => {
+  await hydrate();
+  for (const entry of [...memory.values()].filter((e) => e.query)) {
+    memory.delete(entry.key);
+    await store.del(entry.key).catch(() => undefined);
+  }
+};
+
+export const clearOverpassCache = async () => {
+  memory.clear();
+  await store.clear().catch(() => undefined);
+};
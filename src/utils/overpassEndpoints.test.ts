@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getOverpassEndpointHealth,
+  parseRetryAfter,
+  recordOverpassFailure,
+  recordOverpassSuccess,
+  resetOverpassEndpointHealth,
+  selectOverpassEndpoint,
+} from './overpassEndpoints';
+import { fetchOsmPlacesInBounds } from './osm';
+
+const A = 'https://a.example/api/interpreter';
+const B = 'https://b.example/api/interpreter';
+
+const bounds = { south: 12.97, west: 77.59, north: 12.98, east: 77.6 };
+
+const overpassJson = {
+  elements: [{ type: 'node', id: 1, lat: 12.975, lon: 77.595, tags: { amenity: 'hospital', name: 'City Hospital' } }],
+};
+
+const respond = (status: number, body: unknown = {}, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+const healthOf = (url: string) => getOverpassEndpointHealth().find((h) => h.url === url)!;
+
+beforeEach(() => {
+  resetOverpassEndpointHealth([A, B]);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('endpoint selection', () => {
+  it('prefers the lower-latency mirror', () => {
+    recordOverpassSuccess(A, 2000);
+    recordOverpassSuccess(B, 300);
+    expect(selectOverpassEndpoint().url).toBe(B);
+  });
+
+  it('opens the circuit after repeated failures and half-opens it later', () => {
+    const now = 1_000_000;
+    for (let i = 0; i < 3; i++) recordOverpassFailure(A, { status: 504 }, now);
+    expect(healthOf(A).circuit).toBe('open');
+    expect(selectOverpassEndpoint([], now).url).toBe(B);
+
+    selectOverpassEndpoint([B], now + 31_000);
+    expect(healthOf(A).circuit).toBe('half-open');
+  });
+
+  it('waits out a Retry-After cooldown when every mirror is cooling down', () => {
+    const now = 1_000_000;
+    recordOverpassFailure(A, { status: 429, retryAfterMs: 2000 }, now);
+    recordOverpassFailure(B, { status: 429, retryAfterMs: 5000 }, now);
+    expect(selectOverpassEndpoint([], now)).toEqual({ url: A, waitMs: 2000 });
+  });
+
+  it('parses Retry-After seconds and dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('7', now)).toBe(7000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10_000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('requests against mocked mirrors', () => {
+  it('moves to the next mirror after a 429 and records it', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(respond(429, {}, { 'Retry-After': '1' }))
+      .mockResolvedValueOnce(respond(200, overpassJson));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { places } = await fetchOsmPlacesInBounds(bounds, { kinds: ['hospital'] });
+
+    expect(places.map((p) => p.name)).toEqual(['City Hospital']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [first, second] = fetchMock.mock.calls.map((c) => c[0]);
+    expect(first).not.toBe(second);
+    expect(healthOf(first).recent429).toHaveLength(1);
+    expect(healthOf(first).cooldownUntil).toBeGreaterThan(0);
+    expect(healthOf(second).latencyMs).not.toBeNull();
+  });
+
+  it('treats 5xx and network errors as mirror failures', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValue(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(respond(504));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(fetchOsmPlacesInBounds(bounds, { kinds: ['hospital'] })).rejects.toThrow('Failed to fetch');
+
+    const first = fetchMock.mock.calls[0][0];
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(healthOf(first).recent504).toHaveLength(1);
+    expect(healthOf(A).consecutiveFailures + healthOf(B).consecutiveFailures).toBe(3);
+  });
+
+  it('does not blame mirrors for a rejected query', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(respond(400));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(fetchOsmPlacesInBounds(bounds, { kinds: ['hospital'] })).rejects.toThrow('400');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(healthOf(A).consecutiveFailures).toBe(0);
+    expect(healthOf(B).consecutiveFailures).toBe(0);
+  });
+});
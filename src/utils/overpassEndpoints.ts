@@ -0,0 +1,140 @@
+// Health tracking for the public Overpass mirrors. Each endpoint keeps a latency
+// estimate, recent 429/504 counts, a Retry-After cooldown and a circuit breaker,
+// and requests go to whichever healthy mirror currently scores best.
+
+const DEFAULT_ENDPOINTS = [
+  'https://overpass-api.de/api/interpreter',
+  'https://overpass.kumi.systems/api/interpreter',
+  'https://overpass.nchc.org.tw/api/interpreter',
+];
+
+const ERROR_WINDOW_MS = 10 * 60_000;
+const FAILURES_TO_OPEN = 3;
+const BASE_OPEN_MS = 30_000;
+const MAX_OPEN_MS = 10 * 60_000;
+const UNKNOWN_LATENCY_MS = 1500;
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type EndpointHealth = {
+  url: string;
+  latencyMs: number | null;
+  recent429: number[];
+  recent504: number[];
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  circuit: CircuitState;
+  openUntil: number;
+  openMs: number;
+};
+
+const parseEndpoints = (raw: string | undefined) => {
+  const list = (raw ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : DEFAULT_ENDPOINTS;
+};
+
+export const OVERPASS_ENDPOINTS = parseEndpoints(import.meta.env.VITE_OVERPASS_ENDPOINTS);
+
+const newHealth = (url: string): EndpointHealth => ({
+  url,
+  latencyMs: null,
+  recent429: [],
+  recent504: [],
+  consecutiveFailures: 0,
+  cooldownUntil: 0,
+  circuit: 'closed',
+  openUntil: 0,
+  openMs: BASE_OPEN_MS,
+});
+
+let health = new Map(OVERPASS_ENDPOINTS.map((url) => [url, newHealth(url)]));
+
+const prune = (h: EndpointHealth, now: number) => {
+  h.recent429 = h.recent429.filter((t) => now - t < ERROR_WINDOW_MS);
+  h.recent504 = h.recent504.filter((t) => now - t < ERROR_WINDOW_MS);
+};
+
+const availableAt = (h: EndpointHealth) => Math.max(h.cooldownUntil, h.circuit === 'open' ? h.openUntil : 0);
+
+const score = (h: EndpointHealth) =>
+  (h.latencyMs ?? UNKNOWN_LATENCY_MS) + h.recent429.length * 3000 + h.recent504.length * 2000 + h.consecutiveFailures * 1000;
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds from now
+ */
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(value);
+  return Number.isFinite(at) ? Math.max(0, at - now) : null;
+};
+
+/**
+ * Pick the healthiest endpoint not in `exclude`. Returns the endpoint and how long
+ * the caller must wait before using it (0 when one is available right away).
+ */
+export const selectOverpassEndpoint = (exclude: string[] = [], now = Date.now()) => {
+  const candidates = [...health.values()].filter((h) => !exclude.includes(h.url));
+  const pool = candidates.length > 0 ? candidates : [...health.values()];
+
+  for (const h of pool) {
+    prune(h, now);
+    if (h.circuit === 'open' && now >= h.openUntil) h.circuit = 'half-open';
+  }
+
+  const ready = pool.filter((h) => availableAt(h) <= now).sort((a, b) => score(a) - score(b));
+  if (ready.length > 0) return { url: ready[0].url, waitMs: 0 };
+
+  const soonest = [...pool].sort((a, b) => availableAt(a) - availableAt(b))[0];
+  return { url: soonest.url, waitMs: availableAt(soonest) - now };
+};
+
+/**
+ * Whether an HTTP status says something about the mirror rather than the query.
+ * A 400 is our fault and would fail on every mirror alike.
+ */
+export const isMirrorFailureStatus = (status: number) => status === 429 || status >= 500;
+
+export const recordOverpassSuccess = (url: string, latencyMs: number) => {
+  const h = health.get(url);
+  if (!h) return;
+  // Exponentially weighted so one slow response doesn't bury a mirror.
+  h.latencyMs = h.latencyMs == null ? latencyMs : Math.round(h.latencyMs * 0.7 + latencyMs * 0.3);
+  h.consecutiveFailures = 0;
+  h.circuit = 'closed';
+  h.openMs = BASE_OPEN_MS;
+};
+
+export const recordOverpassFailure = (
+  url: string,
+  failure: { status?: number; retryAfterMs?: number | null },
+  now = Date.now()
+) => {
+  const h = health.get(url);
+  if (!h) return;
+
+  if (failure.status === 429) h.recent429.push(now);
+  if (failure.status === 504) h.recent504.push(now);
+  if (failure.retryAfterMs != null) h.cooldownUntil = now + failure.retryAfterMs;
+
+  h.consecutiveFailures += 1;
+  if (h.circuit === 'half-open') {
+    // Trial request failed: re-open for longer.
+    h.openMs = Math.min(h.openMs * 2, MAX_OPEN_MS);
+    h.circuit = 'open';
+    h.openUntil = now + h.openMs;
+  } else if (h.consecutiveFailures >= FAILURES_TO_OPEN) {
+    h.circuit = 'open';
+    h.openUntil = now + h.openMs;
+  }
+};
+
+export const getOverpassEndpointHealth = (): EndpointHealth[] => [...health.values()].map((h) => ({ ...h }));
+
+export const resetOverpassEndpointHealth = (urls: string[] = OVERPASS_ENDPOINTS) => {
+  health = new Map(urls.map((url) => [url, newHealth(url)]));
+};
@@ -0,0 +1,57 @@
+import { anyElement, matchesSelector, tag } from './overpassQuery';
+import type { OverpassSelector } from './overpassQuery';
+
+export type OsmPreset = {
+  label: string;
+  selectors: OverpassSelector[];
+};
+
+// Named place categories expressed as Overpass selectors. Order matters for
+// inferOsmKind: more specific presets come before broad ones like attraction.
+export const OSM_PRESETS = {
+  restaurant: { label: 'Restaurants', selectors: [anyElement(tag.eq('amenity', 'restaurant'))] },
+  hospital: { label: 'Hospitals', selectors: [anyElement(tag.eq('amenity', 'hospital'))] },
+  police: { label: 'Police', selectors: [anyElement(tag.eq('amenity', 'police'))] },
+  cafe: { label: 'Cafes', selectors: [anyElement(tag.eq('amenity', 'cafe'))] },
+  fast_food: { label: 'Fast food', selectors: [anyElement(tag.eq('amenity', 'fast_food'))] },
+  pharmacy: { label: 'Pharmacies', selectors: [anyElement(tag.eq('amenity', 'pharmacy'))] },
+  atm: {
+    label: 'ATMs',
+    selectors: [anyElement(tag.eq('amenity', 'atm')), anyElement(tag.eq('amenity', 'bank'), tag.eq('atm', 'yes'))],
+  },
+  fuel: { label: 'Fuel', selectors: [anyElement(tag.eq('amenity', 'fuel'))] },
+  toilets: { label: 'Toilets', selectors: [anyElement(tag.eq('amenity', 'toilets'))] },
+  hotel: {
+    label: 'Hotels',
+    selectors: [anyElement(tag.regex('tourism', '^(hotel|guest_house|hostel|motel)$'))],
+  },
+  shop: {
+    label: 'Shops',
+    selectors: [anyElement(tag.exists('shop'), tag.neq('shop', 'vacant')), anyElement(tag.eq('amenity', 'marketplace'))],
+  },
+  bus_station: {
+    label: 'Bus stations',
+    selectors: [anyElement(tag.eq('amenity', 'bus_station')), anyElement(tag.eq('highway', 'bus_stop'))],
+  },
+  attraction: {
+    label: 'Attractions',
+    selectors: [
+      anyElement(tag.eq('tourism', 'attraction')),
+      anyElement(tag.eq('tourism', 'museum')),
+      anyElement(tag.exists('historic')),
+      anyElement(tag.eq('amenity', 'place_of_worship')),
+    ],
+  },
+} satisfies Record<string, OsmPreset>;
+
+export type OsmKind = keyof typeof OSM_PRESETS;
+
+export const OSM_KINDS = Object.keys(OSM_PRESETS) as OsmKind[];
+
+export const isOsmKind = (v: string): v is OsmKind => v in OSM_PRESETS;
+
+/**
+ * Find the first preset an element's tags satisfy
+ */
+export const inferOsmKind = (tags: Record<string, string>): OsmKind | null =>
+  OSM_KINDS.find((k) => OSM_PRESETS[k].selectors.some((sel) => matchesSelector(tags, sel))) ?? null;
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { anyElement, buildOverpassQuery, escapeOverpassRegex, matchesSelector, tag } from './overpassQuery';
+import { inferOsmKind, OSM_KINDS, OSM_PRESETS } from './overpassPresets';
+
+const around = { type: 'around', lat: 12.9716, lng: 77.5946, radiusMeters: 1500.4 } as const;
+const bbox = { type: 'bbox', south: 12.9, west: 77.5, north: 13.1, east: 77.7 } as const;
+
+describe('buildOverpassQuery', () => {
+  it('defaults to center output with a 25s timeout', () => {
+    expect(buildOverpassQuery({ selectors: [anyElement(tag.eq('amenity', 'cafe'))], area: around })).toMatchSnapshot();
+  });
+
+  it('formats every predicate kind', () => {
+    const query = buildOverpassQuery({
+      selectors: [
+        {
+          types: ['nwr'],
+          predicates: [
+            tag.eq('amenity', 'restaurant'),
+            tag.neq('diet:vegan', 'no'),
+            tag.exists('name'),
+            tag.missing('disused'),
+            tag.regex('cuisine', '^(indian|south_indian)$'),
+            tag.not(tag.regex('name', 'closed', { caseInsensitive: true })),
+          ],
+        },
+      ],
+      area: bbox,
+      output: { mode: 'geom', sort: 'qt', limit: 10 },
+      timeoutSec: 60,
+    });
+    expect(query).toMatchSnapshot();
+  });
+
+  it('quotes keys and values that contain quotes and backslashes', () => {
+    const query = buildOverpassQuery({
+      selectors: [anyElement(tag.regex('name', escapeOverpassRegex('Joe\'s "Diner" (old)\\new'), { caseInsensitive: true }))],
+      area: around,
+      output: { mode: 'count' },
+    });
+    expect(query).toMatchSnapshot();
+  });
+});
+
+describe('presets', () => {
+  it.each(OSM_KINDS)('%s', (kind) => {
+    expect(
+      buildOverpassQuery({ selectors: OSM_PRESETS[kind].selectors, area: around, output: { mode: 'center', limit: 30 } })
+    ).toMatchSnapshot();
+  });
+
+  it('infers the most specific kind', () => {
+    expect(inferOsmKind({ amenity: 'bank', atm: 'yes' })).toBe('atm');
+    expect(inferOsmKind({ tourism: 'guest_house' })).toBe('hotel');
+    expect(inferOsmKind({ shop: 'vacant' })).toBeNull();
+    expect(inferOsmKind({ historic: 'fort' })).toBe('attraction');
+  });
+
+  it('matches regex selectors client-side like Overpass', () => {
+    const sel = anyElement(tag.regex('name', 'biryani', { caseInsensitive: true }));
+    expect(matchesSelector({ name: 'Meghana Biryani' }, sel)).toBe(true);
+    expect(matchesSelector({}, anyElement(tag.not(tag.regex('name', 'x'))))).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+// Typed builder for Overpass QL. Selectors combine element types with tag
+// predicates; the area (around / bbox) and output mode are applied to the whole union.
+
+export type OsmElementType = 'node' | 'way' | 'relation' | 'nwr';
+
+export type TagPredicate =
+  | { op: 'eq'; key: string; value: string }
+  | { op: 'neq'; key: string; value: string }
+  | { op: 'exists'; key: string }
+  | { op: 'notExists'; key: string }
+  | { op: 'regex'; key: string; pattern: string; caseInsensitive?: boolean }
+  | { op: 'notRegex'; key: string; pattern: string; caseInsensitive?: boolean };
+
+export type OverpassSelector = {
+  types: OsmElementType[];
+  predicates: TagPredicate[];
+};
+
+export type OverpassArea =
+  | { type: 'around'; lat: number; lng: number; radiusMeters: number }
+  | { type: 'bbox'; south: number; west: number; north: number; east: number };
+
+export type OverpassOutput = {
+  mode: 'center' | 'geom' | 'body' | 'tags' | 'ids' | 'count';
+  limit?: number;
+  sort?: 'qt' | 'asc';
+};
+
+export type OverpassQuery = {
+  selectors: OverpassSelector[];
+  area: OverpassArea;
+  output?: OverpassOutput;
+  timeoutSec?: number;
+};
+
+export const tag = {
+  eq: (key: string, value: string): TagPredicate => ({ op: 'eq', key, value }),
+  neq: (key: string, value: string): TagPredicate => ({ op: 'neq', key, value }),
+  exists: (key: string): TagPredicate => ({ op: 'exists', key }),
+  missing: (key: string): TagPredicate => ({ op: 'notExists', key }),
+  regex: (key: string, pattern: string, opts: { caseInsensitive?: boolean } = {}): TagPredicate => ({
+    op: 'regex',
+    key,
+    pattern,
+    caseInsensitive: opts.caseInsensitive,
+  }),
+  not: (p: TagPredicate): TagPredicate => {
+    switch (p.op) {
+      case 'eq':
+        return { op: 'neq', key: p.key, value: p.value };
+      case 'neq':
+        return { op: 'eq', key: p.key, value: p.value };
+      case 'exists':
+        return { op: 'notExists', key: p.key };
+      case 'notExists':
+        return { op: 'exists', key: p.key };
+      case 'regex':
+        return { ...p, op: 'notRegex' };
+      case 'notRegex':
+        return { ...p, op: 'regex' };
+    }
+  },
+};
+
+/**
+ * Shorthand for a selector over node, way and relation
+ */
+export const anyElement = (...predicates: TagPredicate[]): OverpassSelector => ({
+  types: ['node', 'way', 'relation'],
+  predicates,
+});
+
+const quote = (s: string) => `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Escape user text for use inside a regex predicate
+ */
+export const escapeOverpassRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const formatPredicate = (p: TagPredicate): string => {
+  switch (p.op) {
+    case 'eq':
+      return `[${quote(p.key)}=${quote(p.value)}]`;
+    case 'neq':
+      return `[${quote(p.key)}!=${quote(p.value)}]`;
+    case 'exists':
+      return `[${quote(p.key)}]`;
+    case 'notExists':
+      return `[!${quote(p.key)}]`;
+    case 'regex':
+      return `[${quote(p.key)}~${quote(p.pattern)}${p.caseInsensitive ? ',i' : ''}]`;
+    case 'notRegex':
+      return `[${quote(p.key)}!~${quote(p.pattern)}${p.caseInsensitive ? ',i' : ''}]`;
+  }
+};
+
+const formatArea = (a: OverpassArea) =>
+  a.type === 'around'
+    ? `(around:${Math.round(a.radiusMeters)},${a.lat},${a.lng})`
+    : `(${a.south},${a.west},${a.north},${a.east})`;
+
+const formatOutput = (o: OverpassOutput) =>
+  ['out', o.mode, o.sort, o.limit != null ? String(o.limit) : undefined].filter(Boolean).join(' ') + ';';
+
+export const buildOverpassQuery = (q: OverpassQuery): string => {
+  const area = formatArea(q.area);
+  const statements = q.selectors.flatMap((sel) =>
+    sel.types.map((type) => `${type}${sel.predicates.map(formatPredicate).join('')}${area};`)
+  );
+  const output = formatOutput(q.output ?? { mode: 'center' });
+
+  return `[out:json][timeout:${q.timeoutSec ?? 25}];\n(\n  ${statements.join('\n  ')}\n);\n${output}`;
+};
+
+/**
+ * Evaluate a predicate against an element's tags (client-side mirror of Overpass semantics)
+ */
+export const matchesPredicate = (tags: Record<string, string>, p: TagPredicate): boolean => {
+  const v = tags[p.key];
+  switch (p.op) {
+    case 'eq':
+      return v === p.value;
+    case 'neq':
+      return v !== p.value;
+    case 'exists':
+      return v != null;
+    case 'notExists':
+      return v == null;
+    case 'regex':
+      return v != null && new RegExp(p.pattern, p.caseInsensitive ? 'i' : '').test(v);
+    case 'notRegex':
+      return v == null || !new RegExp(p.pattern, p.caseInsensitive ? 'i' : '').test(v);
+  }
+};
+
+export const matchesSelector = (tags: Record<string, string>, sel: OverpassSelector) =>
+  sel.predicates.every((p) => matchesPredicate(tags, p));
@@ -0,0 +1,87 @@
+import { describeOpeningHours, evaluateOpeningHours } from './openingHours';
+import type { OpeningHoursStatus } from './openingHours';
+import type { NormalizedPlace } from './places';
+
+export type DietLevel = 'only' | 'yes' | 'limited' | 'no';
+
+export type EnrichedPlace = NormalizedPlace & {
+  openingHours: { raw: string; status: OpeningHoursStatus; label: string } | null;
+  phone: { display: string; tel: string } | null;
+  website: string | null;
+  cuisines: string[];
+  diet: { vegetarian: DietLevel | null; vegan: DietLevel | null; halal: DietLevel | null; jain: DietLevel | null };
+  wheelchair: 'yes' | 'limited' | 'no' | null;
+};
+
+const firstValue = (v: string | undefined) => v?.split(';')[0]?.trim() || null;
+
+const normalizePhone = (tags: Record<string, string>): EnrichedPlace['phone'] => {
+  const raw = firstValue(tags.phone) ?? firstValue(tags['contact:phone']) ?? firstValue(tags['contact:mobile']);
+  if (!raw) return null;
+  const tel = raw.replace(/(?!^\+)[^\d]/g, '');
+  if (tel.replace('+', '').length < 5) return null;
+  return { display: raw, tel };
+};
+
+const normalizeWebsite = (tags: Record<string, string>) => {
+  const raw = firstValue(tags.website) ?? firstValue(tags['contact:website']) ?? firstValue(tags.url);
+  if (!raw) return null;
+  try {
+    const url = new URL(/^https?:\/\//i.test(raw) ? raw : `https://${raw}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+const humanize = (v: string) =>
+  v
+    .trim()
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+
+const parseCuisines = (tags: Record<string, string>) =>
+  (tags.cuisine ?? '')
+    .split(/[;,]/)
+    .map((c) => c.trim())
+    .filter(Boolean)
+    .map(humanize);
+
+const parseDiet = (v: string | undefined): DietLevel | null => {
+  const value = v?.trim().toLowerCase();
+  return value === 'only' || value === 'yes' || value === 'limited' || value === 'no' ? value : null;
+};
+
+const parseWheelchair = (v: string | undefined): EnrichedPlace['wheelchair'] => {
+  const value = v?.trim().toLowerCase();
+  if (value === 'designated') return 'yes';
+  return value === 'yes' || value === 'limited' || value === 'no' ? value : null;
+};
+
+/**
+ * Derive typed contact, hours, cuisine and accessibility fields from OSM tags.
+ * Opening hours are evaluated at `now` in `timeZone` (the device zone by default).
+ */
+export const enrichPlace = (
+  place: NormalizedPlace,
+  opts: { now?: Date; timeZone?: string } = {}
+): EnrichedPlace => {
+  const { tags } = place;
+  const hoursRaw = tags.opening_hours?.trim();
+  const status = hoursRaw ? evaluateOpeningHours(hoursRaw, opts.now, opts.timeZone) : null;
+
+  return {
+    ...place,
+    openingHours: hoursRaw && status ? { raw: hoursRaw, status, label: describeOpeningHours(status) } : null,
+    phone: normalizePhone(tags),
+    website: normalizeWebsite(tags),
+    cuisines: parseCuisines(tags),
+    diet: {
+      vegetarian: parseDiet(tags['diet:vegetarian']),
+      vegan: parseDiet(tags['diet:vegan']),
+      halal: parseDiet(tags['diet:halal']),
+      jain: parseDiet(tags['diet:jain']),
+    },
+    wheelchair: parseWheelchair(tags.wheelchair),
+  };
+};
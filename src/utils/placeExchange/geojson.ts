@@ -0,0 +1,74 @@
+import type { ExchangePlace } from './types';
+import { validCoords } from './xml';
+
+type Feature = {
+  type: 'Feature';
+  geometry: { type: string; coordinates?: unknown } | null;
+  properties?: Record<string, unknown> | null;
+};
+
+const str = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : undefined);
+
+const list = (v: unknown) =>
+  Array.isArray(v) ? v.filter((x): x is string => typeof x === 'string') : typeof v === 'string' ? v.split(',').map((s) => s.trim()).filter(Boolean) : undefined;
+
+export const placesToGeoJson = (places: ExchangePlace[]) =>
+  JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: places.map((p) => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [p.lng, p.lat] },
+        properties: {
+          name: p.name,
+          type: p.type,
+          address: p.address,
+          notes: p.notes,
+          tags: p.tags,
+          collections: p.collections,
+        },
+      })),
+    },
+    null,
+    2
+  );
+
+/**
+ * Point and MultiPoint features. Common property spellings from other tools
+ * (`title`, `description`) are accepted too.
+ */
+export const parseGeoJsonPlaces = (text: string): ExchangePlace[] => {
+  let data: { type?: string; features?: Feature[]; geometry?: Feature['geometry']; properties?: Feature['properties'] };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a valid GeoJSON file');
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error('Not a valid GeoJSON file');
+  const features: Feature[] =
+    data.type === 'FeatureCollection' ? data.features ?? [] : data.type === 'Feature' ? [data as Feature] : [];
+
+  return features.flatMap((f) => {
+    const props = f.properties ?? {};
+    const coords =
+      f.geometry?.type === 'Point'
+        ? [f.geometry.coordinates as number[]]
+        : f.geometry?.type === 'MultiPoint'
+          ? (f.geometry.coordinates as number[][])
+          : [];
+    return coords
+      .filter((c) => Array.isArray(c) && validCoords(Number(c[1]), Number(c[0])))
+      .map(
+        (c): ExchangePlace => ({
+          lat: Number(c[1]),
+          lng: Number(c[0]),
+          name: str(props.name) ?? str(props.title) ?? 'Imported place',
+          type: str(props.type),
+          address: str(props.address),
+          notes: str(props.notes) ?? str(props.description),
+          tags: list(props.tags),
+          collections: list(props.collections),
+        })
+      );
+  });
+};
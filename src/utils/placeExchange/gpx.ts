@@ -0,0 +1,67 @@
+import type { ExchangePlace } from './types';
+import { childText, childTexts, escapeXml, parseXml, validCoords } from './xml';
+
+// Fields GPX has no slot for travel in our own namespace; other apps ignore it.
+const NS = 'https://local-lens.app/xmlns/gpx/1';
+
+const el = (tag: string, value: string | undefined) => (value ? `<${tag}>${escapeXml(value)}</${tag}>` : '');
+
+const els = (tag: string, values: string[] | undefined) => (values ?? []).map((v) => el(tag, v)).join('');
+
+/**
+ * Waypoints. <type> holds the first collection, which OsmAnd shows as the
+ * favourites group.
+ */
+export const placesToGpx = (places: ExchangePlace[], name = 'Local Lens places') => {
+  const wpts = places.map((p) => {
+    const extensions = [
+      el('ll:type', p.type),
+      els('ll:tag', p.tags),
+      els('ll:collection', p.collections),
+    ].join('');
+    return [
+      `  <wpt lat="${p.lat}" lon="${p.lng}">`,
+      el('name', p.name),
+      el('cmt', p.address),
+      el('desc', p.notes),
+      el('type', p.collections?.[0]),
+      extensions ? `<extensions>${extensions}</extensions>` : '',
+      '</wpt>',
+    ].join('');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="Local Lens" xmlns="http://www.topografix.com/GPX/1/1" xmlns:ll="${NS}">`,
+    `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+    ...wpts,
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+export const parseGpxPlaces = (text: string): ExchangePlace[] => {
+  const doc = parseXml(text, 'GPX');
+  return Array.from(doc.getElementsByTagName('wpt')).flatMap((wpt): ExchangePlace[] => {
+    const lat = Number(wpt.getAttribute('lat'));
+    const lng = Number(wpt.getAttribute('lon'));
+    if (!validCoords(lat, lng)) return [];
+
+    const ext = Array.from(wpt.children).find((c) => c.localName === 'extensions');
+    const own = (name: string) => (ext ? childText(ext, name) : undefined);
+    const ownList = (name: string) => (ext ? childTexts(ext, name) : []);
+    const collections = ownList('collection');
+    const group = childText(wpt, 'type');
+    return [
+      {
+        lat,
+        lng,
+        name: childText(wpt, 'name') ?? 'Imported place',
+        type: own('type'),
+        address: childText(wpt, 'cmt'),
+        notes: childText(wpt, 'desc'),
+        tags: ownList('tag'),
+        collections: collections.length ? collections : group ? [group] : [],
+      },
+    ];
+  });
+};
@@ -0,0 +1,62 @@
+import type { PlaceCollection, SavedPlace } from '../savedPlaces';
+import { parseGeoJsonPlaces, placesToGeoJson } from './geojson';
+import { parseGpxPlaces, placesToGpx } from './gpx';
+import { parseKmlPlaces, placesToKml } from './kml';
+import type { ExchangeFormat, ExchangePlace } from './types';
+
+export type { ExchangeFormat, ExchangePlace } from './types';
+export type { ImportConflict, ImportConflictReason, ImportPlan, ImportResolution, ImportResult } from './plan';
+export { applyPlaceImport, normalizePlaceName, planPlaceImport } from './plan';
+
+export const EXCHANGE_FORMATS: Record<ExchangeFormat, { label: string; extension: string; mimeType: string }> = {
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+};
+
+export const IMPORT_ACCEPT = '.geojson,.json,.gpx,.kml';
+
+export const toExchangePlaces = (places: SavedPlace[], collections: PlaceCollection[]): ExchangePlace[] => {
+  const names = new Map(collections.map((c) => [c.id, c.name]));
+  return places.map((p) => ({
+    lat: p.lat,
+    lng: p.lng,
+    name: p.name,
+    type: p.type,
+    address: p.address,
+    notes: p.notes || undefined,
+    tags: p.tags,
+    collections: p.collectionIds.flatMap((id) => names.get(id) ?? []),
+  }));
+};
+
+export const exportPlaces = (
+  format: ExchangeFormat,
+  places: SavedPlace[],
+  collections: PlaceCollection[],
+  title = 'Local Lens places'
+) => {
+  const items = toExchangePlaces(places, collections);
+  const content =
+    format === 'gpx' ? placesToGpx(items, title) : format === 'kml' ? placesToKml(items, title) : placesToGeoJson(items);
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'places';
+  return { content, filename: `${slug}.${EXCHANGE_FORMATS[format].extension}`, mimeType: EXCHANGE_FORMATS[format].mimeType };
+};
+
+export const detectExchangeFormat = (text: string, filename = ''): ExchangeFormat | null => {
+  const ext = filename.toLowerCase().split('.').pop();
+  if (ext === 'gpx' || ext === 'kml') return ext;
+  if (ext === 'geojson' || ext === 'json') return 'geojson';
+
+  const head = text.trimStart().slice(0, 500);
+  if (head.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/.test(head)) return 'gpx';
+  if (/<kml[\s>]/.test(head)) return 'kml';
+  return null;
+};
+
+export const parsePlacesFile = (text: string, filename?: string): ExchangePlace[] => {
+  const format = detectExchangeFormat(text, filename);
+  if (!format) throw new Error('Unsupported file. Use GeoJSON, GPX or KML.');
+  return format === 'gpx' ? parseGpxPlaces(text) : format === 'kml' ? parseKmlPlaces(text) : parseGeoJsonPlaces(text);
+};
@@ -0,0 +1,97 @@
+import type { ExchangePlace } from './types';
+import { childText, escapeXml, parseXml, validCoords } from './xml';
+
+const data = (name: string, value: string | undefined) =>
+  value ? `<Data name="${name}"><value>${escapeXml(value)}</value></Data>` : '';
+
+const dataList = (name: string, values: string[] | undefined) => (values ?? []).map((v) => data(name, v)).join('');
+
+const placemark = (p: ExchangePlace, indent: string) =>
+  [
+    `${indent}<Placemark>`,
+    `<name>${escapeXml(p.name)}</name>`,
+    p.notes ? `<description>${escapeXml(p.notes)}</description>` : '',
+    p.address ? `<address>${escapeXml(p.address)}</address>` : '',
+    `<ExtendedData>${data('type', p.type)}${dataList('tag', p.tags)}${dataList('collection', p.collections)}</ExtendedData>`,
+    `<Point><coordinates>${p.lng},${p.lat},0</coordinates></Point>`,
+    '</Placemark>',
+  ].join('');
+
+/**
+ * One Folder per collection, which Google My Maps imports as layers. Places in
+ * several collections appear in each folder and collapse again on import.
+ */
+export const placesToKml = (places: ExchangePlace[], name = 'Local Lens places') => {
+  const folders = new Map<string, ExchangePlace[]>();
+  const loose: ExchangePlace[] = [];
+  for (const p of places) {
+    if (!p.collections?.length) loose.push(p);
+    for (const c of p.collections ?? []) folders.set(c, [...(folders.get(c) ?? []), p]);
+  }
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `  <name>${escapeXml(name)}</name>`,
+    ...[...folders].flatMap(([folder, list]) => [
+      `  <Folder><name>${escapeXml(folder)}</name>`,
+      ...list.map((p) => placemark(p, '    ')),
+      '  </Folder>',
+    ]),
+    ...loose.map((p) => placemark(p, '  ')),
+    '</Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+};
+
+// Google My Maps puts HTML in descriptions.
+const stripHtml = (s: string | undefined) =>
+  s
+    ?.replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .trim() || undefined;
+
+export const parseKmlPlaces = (text: string): ExchangePlace[] => {
+  const doc = parseXml(text, 'KML');
+  const byKey = new Map<string, ExchangePlace>();
+
+  for (const pm of Array.from(doc.getElementsByTagName('Placemark'))) {
+    const point = pm.getElementsByTagName('Point')[0];
+    const raw = point?.getElementsByTagName('coordinates')[0]?.textContent?.trim();
+    if (!raw) continue;
+    const [lng, lat] = raw.split(/[\s,]+/).map(Number);
+    if (!validCoords(lat, lng)) continue;
+
+    const extended: Record<string, string[]> = {};
+    for (const d of Array.from(pm.getElementsByTagName('Data'))) {
+      const name = d.getAttribute('name');
+      const value = d.getElementsByTagName('value')[0]?.textContent?.trim();
+      if (name && value) extended[name] = [...(extended[name] ?? []), value];
+    }
+
+    const folder = pm.parentElement?.localName === 'Folder' ? childText(pm.parentElement, 'name') : undefined;
+    const collections = [...(extended.collection ?? [])];
+    if (folder && !collections.includes(folder)) collections.push(folder);
+
+    const name = childText(pm, 'name') ?? 'Imported place';
+    const key = `${lat.toFixed(6)},${lng.toFixed(6)}|${name}`;
+    const seen = byKey.get(key);
+    if (seen) {
+      // Same placemark repeated across folders.
+      seen.collections = [...new Set([...(seen.collections ?? []), ...collections])];
+      continue;
+    }
+    byKey.set(key, {
+      lat,
+      lng,
+      name,
+      type: extended.type?.[0],
+      address: childText(pm, 'address'),
+      notes: stripHtml(childText(pm, 'description')),
+      tags: extended.tag ?? [],
+      collections,
+    });
+  }
+  return [...byKey.values()];
+};
@@ -0,0 +1,100 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { applyPlaceImport, parsePlacesFile, planPlaceImport } from '.';
+import type { ExchangePlace } from '.';
+import { parseGeoJsonPlaces, placesToGeoJson } from './geojson';
+import { parseGpxPlaces, placesToGpx } from './gpx';
+import { parseKmlPlaces, placesToKml } from './kml';
+import type { SavedPlace } from '../savedPlaces';
+
+const places: ExchangePlace[] = [
+  {
+    lat: 15.5527,
+    lng: 73.7517,
+    name: 'Britto\'s <Baga> & "Bar"',
+    type: 'Restaurant',
+    address: 'Baga Beach, Goa',
+    notes: 'Sunset table\nask for the prawn curry',
+    tags: ['seafood', 'beach'],
+    collections: ['Goa, Dec 2025', 'Favourites'],
+  },
+  {
+    lat: 12.9716,
+    lng: 77.5946,
+    name: 'Cubbon Park',
+    type: 'Park',
+    tags: [],
+    collections: [],
+  },
+];
+
+// Parsers leave out fields the file didn't have.
+const comparable = (list: ExchangePlace[]) =>
+  list.map((p) => ({
+    ...p,
+    address: p.address ?? undefined,
+    notes: p.notes ?? undefined,
+    tags: p.tags ?? [],
+    collections: [...(p.collections ?? [])].sort(),
+  }));
+
+describe.each([
+  ['GeoJSON', placesToGeoJson, parseGeoJsonPlaces],
+  ['GPX', placesToGpx, parseGpxPlaces],
+  ['KML', placesToKml, parseKmlPlaces],
+] as const)('%s', (_label, write, read) => {
+  it('round-trips places, including commas in collection names', () => {
+    expect(comparable(read(write(places)))).toEqual(comparable(places));
+  });
+
+  it('is picked up by parsePlacesFile without a file name', () => {
+    expect(parsePlacesFile(write(places))).toHaveLength(2);
+  });
+});
+
+describe('parsing files from other tools', () => {
+  it('rejects JSON that is not an object', () => {
+    for (const text of ['null', '3', '"x"', '[]']) {
+      expect(() => parseGeoJsonPlaces(text)).toThrow('Not a valid GeoJSON file');
+    }
+  });
+
+  it('uses KML folders as collections and collapses repeated placemarks', () => {
+    const kml = `<?xml version="1.0"?>
+<kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+  <Folder><name>Food</name><Placemark><name>Cafe</name><description>Good&lt;br&gt;coffee</description><Point><coordinates>77.6,12.97,0</coordinates></Point></Placemark></Folder>
+  <Folder><name>Work spots</name><Placemark><name>Cafe</name><Point><coordinates>77.6,12.97,0</coordinates></Point></Placemark></Folder>
+</Document></kml>`;
+    const [cafe, ...rest] = parseKmlPlaces(kml);
+    expect(rest).toHaveLength(0);
+    expect(cafe).toMatchObject({ name: 'Cafe', notes: 'Good\ncoffee', collections: ['Food', 'Work spots'] });
+  });
+});
+
+describe('applyPlaceImport', () => {
+  const saved: SavedPlace = {
+    id: 'geo:15.55270,73.75170',
+    lat: 15.5527,
+    lng: 73.7517,
+    name: 'Brittos',
+    type: 'Restaurant',
+    notes: 'mine',
+    tags: [],
+    collectionIds: [],
+    createdAt: 1,
+    updatedAt: 1,
+  };
+
+  it('keeps both copies when asked to', () => {
+    const incoming = { lat: 15.5527, lng: 73.7517, name: 'Tito\'s' };
+    const plan = planPlaceImport([saved], [], [incoming]);
+    expect(plan.conflicts.map((c) => c.reason)).toEqual(['name']);
+
+    const result = applyPlaceImport([saved], [], plan, ['both'], 10);
+
+    expect(result).toMatchObject({ added: 1, updated: 0 });
+    expect(result.places.map((p) => p.name).sort()).toEqual(['Brittos', "Tito's"]);
+    expect(new Set(result.places.map((p) => p.id)).size).toBe(2);
+    expect(result.places.find((p) => p.id === saved.id)).toEqual(saved);
+  });
+});
@@ -0,0 +1,193 @@
+import { normalizeText } from '../fuzzy';
+import { distanceMeters } from '../geo';
+import { normalizeTags, savedPlaceId, upsertSavedPlace } from '../savedPlaces';
+import type { PlaceCollection, SavedPlace } from '../savedPlaces';
+import type { ExchangePlace } from './types';
+
+export type ImportConflictReason =
+  // Same place, but the file has different notes, address, tags or collections.
+  | 'details'
+  // Something else is already saved at that spot.
+  | 'name'
+  // Same name saved a short distance away; possibly the same place, moved.
+  | 'location';
+
+export type ImportConflict = {
+  incoming: ExchangePlace;
+  existing: SavedPlace;
+  reason: ImportConflictReason;
+  fields: string[];
+};
+
+// skip: keep what's saved. replace: update the saved place from the file. both: save the import separately.
+export type ImportResolution = 'skip' | 'replace' | 'both';
+
+export type ImportPlan = {
+  added: ExchangePlace[];
+  duplicates: ExchangePlace[];
+  conflicts: ImportConflict[];
+};
+
+export type ImportResult = {
+  places: SavedPlace[];
+  collections: PlaceCollection[];
+  added: number;
+  updated: number;
+};
+
+const SAME_PLACE_METERS = 50;
+const MOVED_PLACE_METERS = 2000;
+
+export const normalizePlaceName = (name: string) => normalizeText(name);
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((x) => b.includes(x));
+
+// Fields the file sets to something other than what's saved. Blank fields in the file never count.
+const changedFields = (incoming: ExchangePlace, existing: SavedPlace, collections: PlaceCollection[]) => {
+  const fields: string[] = [];
+  if (incoming.address && incoming.address !== existing.address) fields.push('address');
+  if (incoming.notes && incoming.notes !== existing.notes) fields.push('notes');
+  if (incoming.tags?.length && !sameList(normalizeTags(incoming.tags), existing.tags)) fields.push('tags');
+  const savedIn = collections.filter((c) => existing.collectionIds.includes(c.id)).map((c) => normalizePlaceName(c.name));
+  if (incoming.collections?.some((c) => !savedIn.includes(normalizePlaceName(c)))) fields.push('collections');
+  return fields;
+};
+
+/**
+ * Sort each imported place into new, already saved, or needing a decision.
+ * A match is a save within 50 m with the same name (ignoring case, accents and
+ * punctuation); places repeated inside the file count as duplicates too.
+ */
+export const planPlaceImport = (
+  existing: SavedPlace[],
+  collections: PlaceCollection[],
+  incoming: ExchangePlace[],
+  radiusMeters = SAME_PLACE_METERS
+): ImportPlan => {
+  const plan: ImportPlan = { added: [], duplicates: [], conflicts: [] };
+
+  for (const place of incoming) {
+    const name = normalizePlaceName(place.name);
+    const seen = [...plan.added, ...plan.conflicts.map((c) => c.incoming)].some(
+      (p) => normalizePlaceName(p.name) === name && distanceMeters(p, place) <= radiusMeters
+    );
+    if (seen) {
+      plan.duplicates.push(place);
+      continue;
+    }
+
+    const nearby = existing
+      .map((p) => ({ p, d: distanceMeters(p, place) }))
+      .filter(({ d }) => d <= MOVED_PLACE_METERS)
+      .sort((a, b) => a.d - b.d);
+
+    const match = nearby.find(({ p, d }) => d <= radiusMeters && normalizePlaceName(p.name) === name);
+    if (match) {
+      const fields = changedFields(place, match.p, collections);
+      if (fields.length) plan.conflicts.push({ incoming: place, existing: match.p, reason: 'details', fields });
+      else plan.duplicates.push(place);
+      continue;
+    }
+
+    const sameSpot = nearby.find(({ d }) => d <= radiusMeters);
+    if (sameSpot) {
+      plan.conflicts.push({ incoming: place, existing: sameSpot.p, reason: 'name', fields: ['name'] });
+      continue;
+    }
+
+    const sameName = nearby.find(({ p }) => normalizePlaceName(p.name) === name);
+    if (sameName) {
+      plan.conflicts.push({ incoming: place, existing: sameName.p, reason: 'location', fields: ['location'] });
+      continue;
+    }
+
+    plan.added.push(place);
+  }
+
+  return plan;
+};
+
+/**
+ * Apply a plan to the library. Collections are matched by name and created
+ * when missing. Conflicts without a resolution are skipped.
+ */
+export const applyPlaceImport = (
+  places: SavedPlace[],
+  collections: PlaceCollection[],
+  plan: ImportPlan,
+  resolutions: ImportResolution[],
+  now = Date.now()
+): ImportResult => {
+  const nextCollections = [...collections];
+  const collectionIds = (names: string[] | undefined) =>
+    (names ?? []).map((name) => {
+      const key = normalizePlaceName(name);
+      let col = nextCollections.find((c) => normalizePlaceName(c.name) === key);
+      if (!col) {
+        col = { id: `col-${now.toString(36)}-${nextCollections.length}`, name: name.trim(), createdAt: now };
+        nextCollections.push(col);
+      }
+      return col.id;
+    });
+
+  let next = places;
+  let added = 0;
+  let updated = 0;
+
+  const toInput = (p: ExchangePlace) => ({
+    lat: p.lat,
+    lng: p.lng,
+    name: p.name,
+    type: p.type || 'Imported',
+    address: p.address,
+    source: { provider: 'import', id: `${p.lat},${p.lng}` },
+    notes: p.notes,
+    tags: p.tags,
+    collectionIds: collectionIds(p.collections),
+  });
+
+  const add = (p: ExchangePlace) => {
+    const input = toInput(p);
+    const isNew = !next.some((s) => s.id === savedPlaceId(input));
+    next = upsertSavedPlace(next, input, now);
+    if (isNew) added += 1;
+    else updated += 1;
+  };
+
+  // "Keep both": a separate save even when the rounded coordinates give the same id.
+  const addCopy = (p: ExchangePlace) => {
+    const input = toInput(p);
+    const base = savedPlaceId(input);
+    let id = base;
+    for (let n = 2; next.some((s) => s.id === id); n++) id = `${base}#${n}`;
+    const [place] = upsertSavedPlace([], input, now);
+    next = [{ ...place, id }, ...next];
+    added += 1;
+  };
+
+  plan.added.forEach(add);
+
+  plan.conflicts.forEach((conflict, i) => {
+    const resolution = resolutions[i] ?? 'skip';
+    if (resolution === 'both') addCopy(conflict.incoming);
+    if (resolution !== 'replace') return;
+
+    const { incoming, existing } = conflict;
+    const merged: SavedPlace = {
+      ...existing,
+      // Names only differ in case or accents unless that's the conflict.
+      name: conflict.reason === 'name' ? incoming.name : existing.name,
+      lat: incoming.lat,
+      lng: incoming.lng,
+      address: incoming.address || existing.address,
+      notes: incoming.notes || existing.notes,
+      tags: normalizeTags([...existing.tags, ...(incoming.tags ?? [])]),
+      collectionIds: [...new Set([...existing.collectionIds, ...collectionIds(incoming.collections)])],
+      updatedAt: now,
+    };
+    next = next.map((p) => (p.id === existing.id ? merged : p));
+    updated += 1;
+  });
+
+  return { places: next, collections: nextCollections, added, updated };
+};
@@ -0,0 +1,14 @@
+import type { LatLng } from '../geo';
+
+export type ExchangeFormat = 'geojson' | 'gpx' | 'kml';
+
+// Format-neutral place as written to / read from files. Collections are
+// carried by name since ids are local to one device.
+export type ExchangePlace = LatLng & {
+  name: string;
+  type?: string;
+  address?: string;
+  notes?: string;
+  tags?: string[];
+  collections?: string[];
+};
@@ -0,0 +1,24 @@
+export const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+export const parseXml = (text: string, label: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error(`Not a valid ${label} file`);
+  return doc;
+};
+
+// Direct child by local name, ignoring namespace prefixes.
+export const childText = (el: Element, localName: string) => {
+  for (const child of Array.from(el.children)) {
+    if (child.localName === localName) return child.textContent?.trim() || undefined;
+  }
+  return undefined;
+};
+
+export const childTexts = (el: Element, localName: string) =>
+  Array.from(el.children)
+    .filter((child) => child.localName === localName)
+    .flatMap((child) => child.textContent?.trim() || []);
+
+export const validCoords = (lat: number, lng: number) =>
+  Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
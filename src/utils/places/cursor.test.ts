@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createNearbyCursor } from './cursor';
+import { distanceMeters } from '../geo';
+import type { NormalizedPlace, PlaceProvider } from './types';
+
+const origin = { lat: 12.97, lng: 77.59 };
+const METERS_PER_DEG_LAT = 111_195;
+
+// 200 places in a line north of the origin, one every 10m.
+const places: NormalizedPlace[] = Array.from({ length: 200 }, (_, i) => ({
+  id: `p${i}`,
+  provider: 'fixture',
+  name: `Place ${i}`,
+  address: '',
+  lat: origin.lat + ((i + 1) * 10) / METERS_PER_DEG_LAT,
+  lng: origin.lng,
+  kind: 'restaurant',
+  tags: {},
+}));
+
+// Like Overpass: everything in range, cut to the limit in no particular order (here, farthest first).
+const truncatingProvider = (): PlaceProvider => ({
+  id: 'fixture',
+  label: 'Test',
+  searchNearby: vi.fn(async (from, { radiusMeters, limit = 30 }) =>
+    places
+      .filter((p) => distanceMeters(from, p) <= radiusMeters)
+      .reverse()
+      .slice(0, limit)
+  ),
+});
+
+describe('createNearbyCursor', () => {
+  it('serves nearest-first pages even when the provider truncates', async () => {
+    const cursor = createNearbyCursor(truncatingProvider(), origin, { kinds: ['restaurant'], pageSize: 25 });
+
+    const first = await cursor.next();
+    const second = await cursor.next();
+
+    expect([...first, ...second].map((p) => p.id)).toEqual(places.slice(0, 50).map((p) => p.id));
+  });
+
+  it('returns every place exactly once', async () => {
+    const cursor = createNearbyCursor(truncatingProvider(), origin, {
+      kinds: ['restaurant'],
+      pageSize: 40,
+      maxRadiusMeters: 5000,
+    });
+
+    const ids: string[] = [];
+    while (cursor.hasMore()) ids.push(...(await cursor.next()).map((p) => p.id));
+
+    expect(ids).toEqual(places.map((p) => p.id));
+  });
+
+  it('splits a ring that comes back full instead of trusting it', async () => {
+    const provider = truncatingProvider();
+    const cursor = createNearbyCursor(provider, origin, { kinds: ['restaurant'], pageSize: 5 });
+
+    expect((await cursor.next()).map((p) => p.id)).toEqual(['p0', 'p1', 'p2', 'p3', 'p4']);
+    const radii = vi.mocked(provider.searchNearby).mock.calls.map(([, opts]) => opts.radiusMeters);
+    expect(radii).toEqual([1000, 500, 250]);
+  });
+});
@@ -0,0 +1,89 @@
+import { distanceMeters } from '../geo';
+import type { LatLng } from '../geo';
+import type { NormalizedPlace, PlaceKind, PlaceProvider } from './types';
+
+export type NearbyCursorOptions = {
+  kinds: PlaceKind[];
+  query?: string;
+  pageSize?: number;
+  maxRadiusMeters?: number;
+};
+
+export type NearbyCursor = {
+  next: () => Promise<NormalizedPlace[]>;
+  hasMore: () => boolean;
+};
+
+const RADIUS_STEPS = [1000, 2500, 5000, 10_000, 25_000, 50_000];
+// Per-step fetch size; the largest page the providers will return.
+const STEP_LIMIT = 50;
+// Narrowest ring worth splitting further when a fetch comes back full.
+const MIN_RING_METERS = 100;
+
+/**
+ * Distance-ordered pagination over a provider. Each page is served from rings that
+ * have been fully searched, widening the radius one step at a time as needed.
+ *
+ * Providers cap a fetch at STEP_LIMIT and don't promise those are the nearest ones,
+ * so a full response means the ring may have been cut short. The step is then
+ * split in half and retried until it comes back under the cap.
+ */
+export const createNearbyCursor = (
+  provider: PlaceProvider,
+  origin: LatLng,
+  options: NearbyCursorOptions
+): NearbyCursor => {
+  const pageSize = Math.max(1, options.pageSize ?? 10);
+  const maxRadius = options.maxRadiusMeters ?? 25_000;
+  const steps = [...RADIUS_STEPS.filter((r) => r < maxRadius), maxRadius];
+
+  let stepIndex = 0;
+  // Everything within this distance has been fetched.
+  let searchedRadius = 0;
+  const seen = new Set<string>();
+  let buffer: Array<{ place: NormalizedPlace; distance: number }> = [];
+
+  const fillStep = async () => {
+    const radius = steps[stepIndex];
+    const results = await provider.searchNearby(origin, {
+      radiusMeters: radius,
+      kinds: options.kinds,
+      query: options.query,
+      limit: STEP_LIMIT,
+    });
+    for (const place of results) {
+      if (seen.has(place.id)) continue;
+      seen.add(place.id);
+      buffer.push({ place, distance: distanceMeters(origin, place) });
+    }
+    buffer.sort((a, b) => a.distance - b.distance);
+
+    const truncated = results.length >= STEP_LIMIT;
+    if (truncated && radius - searchedRadius > MIN_RING_METERS * 2) {
+      steps.splice(stepIndex, 0, Math.round((searchedRadius + radius) / 2));
+      return;
+    }
+    // Under the cap, or as narrow as it gets: take the ring as searched.
+    searchedRadius = radius;
+    stepIndex += 1;
+  };
+
+  const ready = () => {
+    if (stepIndex >= steps.length) return buffer.length;
+    const i = buffer.findIndex((b) => b.distance > searchedRadius);
+    return i === -1 ? buffer.length : i;
+  };
+
+  return {
+    next: async () => {
+      while (ready() < pageSize && stepIndex < steps.length) {
+        await fillStep();
+      }
+      const count = Math.min(pageSize, ready());
+      const page = buffer.slice(0, count).map((b) => b.place);
+      buffer = buffer.slice(count);
+      return page;
+    },
+    hasMore: () => buffer.length > 0 || stepIndex < steps.length,
+  };
+};
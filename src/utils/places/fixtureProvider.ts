@@ -0,0 +1,142 @@
+import { fuzzyMatches } from '../fuzzy';
+import { distanceMeters } from '../geo';
+import type { NormalizedPlace, PlaceProvider } from './types';
+
+// Static places around central Bengaluru, used for local development and tests.
+export const FIXTURE_PLACES: NormalizedPlace[] = [
+  {
+    id: 'fixture/mtr',
+    provider: 'fixture',
+    name: 'Mavalli Tiffin Rooms',
+    address: 'Lalbagh Road, Mavalli, Bengaluru',
+    lat: 12.9553,
+    lng: 77.5853,
+    kind: 'restaurant',
+    tags: { amenity: 'restaurant', cuisine: 'south_indian' },
+  },
+  {
+    id: 'fixture/vidyarthi-bhavan',
+    provider: 'fixture',
+    name: 'Vidyarthi Bhavan',
+    address: 'Gandhi Bazaar Main Road, Basavanagudi, Bengaluru',
+    lat: 12.9452,
+    lng: 77.5714,
+    kind: 'restaurant',
+    tags: { amenity: 'restaurant', cuisine: 'indian' },
+  },
+  {
+    id: 'fixture/meghana-foods',
+    provider: 'fixture',
+    name: 'Meghana Foods',
+    address: 'Residency Road, Bengaluru',
+    lat: 12.9668,
+    lng: 77.6069,
+    kind: 'restaurant',
+    tags: { amenity: 'restaurant', cuisine: 'biryani' },
+  },
+  {
+    id: 'fixture/victoria-hospital',
+    provider: 'fixture',
+    name: 'Victoria Hospital',
+    address: 'Fort Road, Kalasipalya, Bengaluru',
+    lat: 12.9592,
+    lng: 77.5736,
+    kind: 'hospital',
+    tags: { amenity: 'hospital', emergency: 'yes' },
+  },
+  {
+    id: 'fixture/bowring-hospital',
+    provider: 'fixture',
+    name: 'Bowring and Lady Curzon Hospital',
+    address: 'Shivajinagar, Bengaluru',
+    lat: 12.9846,
+    lng: 77.6033,
+    kind: 'hospital',
+    tags: { amenity: 'hospital', emergency: 'yes' },
+  },
+  {
+    id: 'fixture/upparpet-police',
+    provider: 'fixture',
+    name: 'Upparpet Police Station',
+    address: 'Gandhi Nagar, Bengaluru',
+    lat: 12.9779,
+    lng: 77.5748,
+    kind: 'police',
+    tags: { amenity: 'police' },
+  },
+  {
+    id: 'fixture/cubbon-park-police',
+    provider: 'fixture',
+    name: 'Cubbon Park Police Station',
+    address: 'Kasturba Road, Bengaluru',
+    lat: 12.9722,
+    lng: 77.5966,
+    kind: 'police',
+    tags: { amenity: 'police' },
+  },
+  {
+    id: 'fixture/apollo-pharmacy',
+    provider: 'fixture',
+    name: 'Apollo Pharmacy',
+    address: 'Gandhi Nagar, Bengaluru',
+    lat: 12.9751,
+    lng: 77.5775,
+    kind: 'pharmacy',
+    tags: { amenity: 'pharmacy' },
+  },
+  {
+    id: 'fixture/lalbagh',
+    provider: 'fixture',
+    name: 'Lalbagh Botanical Garden',
+    address: 'Mavalli, Bengaluru',
+    lat: 12.9507,
+    lng: 77.5848,
+    kind: 'attraction',
+    tags: { tourism: 'attraction', leisure: 'garden' },
+  },
+  {
+    id: 'fixture/tipu-palace',
+    provider: 'fixture',
+    name: "Tipu Sultan's Summer Palace",
+    address: 'Albert Victor Road, Chamrajpet, Bengaluru',
+    lat: 12.9593,
+    lng: 77.5737,
+    kind: 'attraction',
+    tags: { tourism: 'museum', historic: 'palace' },
+  },
+  {
+    id: 'fixture/kempegowda-bus-station',
+    provider: 'fixture',
+    name: 'Kempegowda Bus Station',
+    address: 'Majestic, Gandhi Nagar, Bengaluru',
+    lat: 12.9767,
+    lng: 77.5713,
+    kind: 'bus_station',
+    tags: { amenity: 'bus_station', operator: 'KSRTC' },
+  },
+  {
+    id: 'fixture/shivajinagar-bus-station',
+    provider: 'fixture',
+    name: 'Shivajinagar Bus Station',
+    address: 'Shivajinagar, Bengaluru',
+    lat: 12.9857,
+    lng: 77.6047,
+    kind: 'bus_station',
+    tags: { amenity: 'bus_station', operator: 'BMTC' },
+  },
+];
+
+export const fixtureProvider: PlaceProvider = {
+  id: 'fixture',
+  label: 'Local fixtures',
+  searchNearby: async (origin, options) => {
+    const limit = Math.max(1, Math.min(options.limit ?? 30, 50));
+    const query = options.query ?? '';
+
+    return FIXTURE_PLACES.filter((p) => p.kind != null && options.kinds.includes(p.kind))
+      .filter((p) => distanceMeters(origin, p) <= options.radiusMeters)
+      .filter((p) => fuzzyMatches(query, [p.name, p.tags.cuisine]))
+      .sort((a, b) => distanceMeters(origin, a) - distanceMeters(origin, b))
+      .slice(0, limit);
+  },
+};
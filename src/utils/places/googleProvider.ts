@@ -0,0 +1,63 @@
+import { getNearbyPlaces } from '../googleMaps';
+import type { Place } from '../googleMaps';
+import type { NormalizedPlace, PlaceKind, PlaceProvider } from './types';
+
+// Kinds without a Places API type (e.g. toilets) are skipped.
+const kindToGoogleType: Partial<Record<PlaceKind, string>> = {
+  restaurant: 'restaurant',
+  hospital: 'hospital',
+  police: 'police',
+  cafe: 'cafe',
+  fast_food: 'meal_takeaway',
+  pharmacy: 'pharmacy',
+  shop: 'store',
+  atm: 'atm',
+  fuel: 'gas_station',
+  hotel: 'lodging',
+  attraction: 'tourist_attraction',
+  bus_station: 'bus_station',
+};
+
+const normalize = (place: Place, kind: PlaceKind): NormalizedPlace => ({
+  id: place.place_id,
+  provider: 'google',
+  name: place.name,
+  address: place.vicinity ?? '',
+  lat: place.geometry.location.lat,
+  lng: place.geometry.location.lng,
+  kind,
+  rating: place.rating,
+  tags: {},
+});
+
+export const googleProvider: PlaceProvider = {
+  id: 'google',
+  label: 'Google Places',
+  searchNearby: async (origin, options) => {
+    const limit = Math.max(1, Math.min(options.limit ?? 30, 50));
+    const radius = Math.max(100, Math.min(options.radiusMeters, 50_000));
+    const keyword = options.query?.trim() || undefined;
+
+    // One kind failing (e.g. ZERO_RESULTS) shouldn't sink the others.
+    const settled = await Promise.allSettled(
+      options.kinds.map(async (kind) => {
+        const type = kindToGoogleType[kind];
+        if (!type) return [];
+        const results = await getNearbyPlaces(origin, type, radius, keyword);
+        return results.map((p) => normalize(p, kind));
+      })
+    );
+    const failures = settled.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (settled.length > 0 && failures.length === settled.length) throw failures[0].reason;
+
+    const seen = new Set<string>();
+    return settled
+      .flatMap((r) => (r.status === 'fulfilled' ? r.value : []))
+      .filter((p) => {
+        if (seen.has(p.id)) return false;
+        seen.add(p.id);
+        return true;
+      })
+      .slice(0, limit);
+  },
+};
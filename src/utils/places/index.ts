@@ -0,0 +1,63 @@
+import { boundsCenter, boundsContain, boundsRadiusMeters } from '../geo';
+import type { LatLng, LatLngBounds } from '../geo';
+import { createNearbyCursor } from './cursor';
+import type { NearbyCursor, NearbyCursorOptions } from './cursor';
+import { fixtureProvider } from './fixtureProvider';
+import { googleProvider } from './googleProvider';
+import { overpassProvider } from './overpassProvider';
+import type { NearbySearchOptions, NormalizedPlace, PlaceProvider, PlaceProviderId } from './types';
+
+export type { NearbyCursor, NearbyCursorOptions } from './cursor';
+export type { NearbySearchOptions, NormalizedPlace, PlaceKind, PlaceProvider, PlaceProviderId } from './types';
+
+const providers: Record<PlaceProviderId, PlaceProvider> = {
+  overpass: overpassProvider,
+  google: googleProvider,
+  fixture: fixtureProvider,
+};
+
+const isProviderId = (v: string): v is PlaceProviderId => v in providers;
+
+// Backend is chosen per deployment via VITE_PLACE_PROVIDER (overpass | google | fixture).
+const configured = (import.meta.env.VITE_PLACE_PROVIDER ?? '').trim().toLowerCase();
+let activeProviderId: PlaceProviderId = isProviderId(configured) ? configured : 'overpass';
+
+export const getPlaceProvider = (): PlaceProvider => providers[activeProviderId];
+
+/**
+ * Switch the active provider at runtime (e.g. tests forcing the fixture provider)
+ */
+export const setPlaceProvider = (id: PlaceProviderId) => {
+  activeProviderId = id;
+};
+
+/**
+ * Replace the implementation behind a provider id
+ */
+export const registerPlaceProvider = (provider: PlaceProvider) => {
+  providers[provider.id] = provider;
+};
+
+export const searchNearbyPlaces = (origin: LatLng, options: NearbySearchOptions): Promise<NormalizedPlace[]> =>
+  getPlaceProvider().searchNearby(origin, options);
+
+/**
+ * Distance-ordered, paginated search against the active provider
+ */
+export const openNearbyCursor = (origin: LatLng, options: NearbyCursorOptions): NearbyCursor =>
+  createNearbyCursor(getPlaceProvider(), origin, options);
+
+/**
+ * Places inside a map viewport: searches the circle covering the bounds (so the
+ * provider's caching applies) and drops results outside the box
+ */
+export const searchPlacesInBounds = async (
+  bounds: LatLngBounds,
+  options: Omit<NearbySearchOptions, 'radiusMeters'>
+): Promise<NormalizedPlace[]> => {
+  const results = await searchNearbyPlaces(boundsCenter(bounds), {
+    ...options,
+    radiusMeters: boundsRadiusMeters(bounds),
+  });
+  return results.filter((p) => boundsContain(bounds, p));
+};
@@ -0,0 +1,28 @@
+import { fetchNearbyOsmPlaces } from '../osm';
+import type { OsmPlace } from '../osm';
+import { inferOsmKind } from '../overpassPresets';
+import type { NormalizedPlace, PlaceKind, PlaceProvider } from './types';
+
+const normalize = (place: OsmPlace, kinds: PlaceKind[]): NormalizedPlace => {
+  const rating = Number(place.tags.rating);
+  return {
+    id: place.id,
+    provider: 'overpass',
+    name: place.name,
+    address: place.address,
+    lat: place.lat,
+    lng: place.lng,
+    kind: kinds.length === 1 ? kinds[0] : inferOsmKind(place.tags),
+    rating: Number.isFinite(rating) ? rating : undefined,
+    tags: place.tags,
+  };
+};
+
+export const overpassProvider: PlaceProvider = {
+  id: 'overpass',
+  label: 'OpenStreetMap (Overpass)',
+  searchNearby: async (origin, options) => {
+    const places = await fetchNearbyOsmPlaces(origin, options);
+    return places.map((p) => normalize(p, options.kinds));
+  },
+};
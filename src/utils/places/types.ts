@@ -0,0 +1,33 @@
+import type { LatLng } from '../geo';
+import type { OsmKind } from '../osm';
+
+export type PlaceProviderId = 'overpass' | 'google' | 'fixture';
+
+export type PlaceKind = OsmKind;
+
+// Provider-neutral place shape used by pages and hooks.
+export type NormalizedPlace = {
+  id: string;
+  provider: PlaceProviderId;
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  kind: PlaceKind | null;
+  rating?: number;
+  tags: Record<string, string>;
+};
+
+export type NearbySearchOptions = {
+  radiusMeters: number;
+  kinds: PlaceKind[];
+  limit?: number;
+  query?: string;
+  signal?: AbortSignal;
+};
+
+export type PlaceProvider = {
+  id: PlaceProviderId;
+  label: string;
+  searchNearby: (origin: LatLng, options: NearbySearchOptions) => Promise<NormalizedPlace[]>;
+};
@@ -0,0 +1,139 @@
+import type { LatLng } from '../geo';
+import { formatInstruction } from './instructions';
+import type { Route, RouteManeuver, RouteMatrix, RouteStep, RoutingProvider, TravelMode } from './types';
+
+// Works against graphhopper.com (needs VITE_GRAPHHOPPER_KEY) or a self-hosted
+// GraphHopper server exposing the same /route and /matrix API.
+const GRAPHHOPPER_URL = (import.meta.env.VITE_GRAPHHOPPER_URL ?? 'https://graphhopper.com/api/1').replace(/\/+$/, '');
+const GRAPHHOPPER_KEY = import.meta.env.VITE_GRAPHHOPPER_KEY ?? '';
+
+const GH_PROFILES: Record<TravelMode, string> = {
+  drive: 'car',
+  walk: 'foot',
+  cycle: 'bike',
+};
+
+type GhInstruction = {
+  distance: number;
+  time: number;
+  text?: string;
+  street_name?: string;
+  sign: number;
+  interval: [number, number];
+  exit_number?: number;
+};
+
+type GhPath = {
+  distance: number;
+  time: number;
+  points?: { coordinates?: [number, number][] };
+  instructions?: GhInstruction[];
+};
+
+// GraphHopper instruction signs, see the Routing API docs.
+const SIGN_MANEUVERS: Record<number, RouteManeuver> = {
+  [-98]: { type: 'turn', modifier: 'uturn' },
+  [-8]: { type: 'turn', modifier: 'uturn' },
+  [-7]: { type: 'fork', modifier: 'left' },
+  [-3]: { type: 'turn', modifier: 'sharp left' },
+  [-2]: { type: 'turn', modifier: 'left' },
+  [-1]: { type: 'turn', modifier: 'slight left' },
+  0: { type: 'continue', modifier: 'straight' },
+  1: { type: 'turn', modifier: 'slight right' },
+  2: { type: 'turn', modifier: 'right' },
+  3: { type: 'turn', modifier: 'sharp right' },
+  4: { type: 'arrive' },
+  5: { type: 'continue' },
+  6: { type: 'roundabout' },
+  7: { type: 'fork', modifier: 'right' },
+  8: { type: 'turn', modifier: 'uturn' },
+};
+
+const buildUrl = (path: string, params: Array<[string, string]>) => {
+  const search = new URLSearchParams(params);
+  if (GRAPHHOPPER_KEY) search.set('key', GRAPHHOPPER_KEY);
+  return `${GRAPHHOPPER_URL}/${path}?${search.toString()}`;
+};
+
+const pointParams = (points: LatLng[]): Array<[string, string]> => points.map((p) => ['point', `${p.lat},${p.lng}`]);
+
+const readJson = async <T>(res: Response, fallback: string): Promise<T> => {
+  const data = (await res.json().catch(() => null)) as (T & { message?: string }) | null;
+  if (!res.ok || !data) throw new Error(data?.message || `${fallback} (${res.status})`);
+  return data;
+};
+
+const mapPath = (path: GhPath, mode: TravelMode): Route => {
+  // points_encoded=false gives GeoJSON [lng, lat]
+  const geometry: [number, number][] = (path.points?.coordinates ?? []).map((c) => [c[1], c[0]]);
+  const steps = (path.instructions ?? []).map((ins, i): RouteStep => {
+    const name = ins.street_name ?? '';
+    const base = SIGN_MANEUVERS[ins.sign] ?? { type: 'continue' };
+    const maneuver = i === 0 ? { type: 'depart' } : { ...base, exit: ins.exit_number };
+    const [from, to] = ins.interval;
+    const stepGeometry = geometry.slice(from, to + 1);
+    return {
+      instruction: ins.text || formatInstruction(maneuver, name),
+      name,
+      distanceMeters: ins.distance,
+      durationSeconds: ins.time / 1000,
+      maneuver,
+      location: geometry[from] ?? geometry[0],
+      geometry: stepGeometry,
+    };
+  });
+  return { mode, distanceMeters: path.distance, durationSeconds: path.time / 1000, geometry, steps };
+};
+
+const fetchPaths = async (
+  origin: LatLng,
+  destination: LatLng,
+  mode: TravelMode,
+  maxRoutes: number,
+  signal?: AbortSignal
+): Promise<Route[]> => {
+  const params: Array<[string, string]> = [
+    ...pointParams([origin, destination]),
+    ['profile', GH_PROFILES[mode]],
+    ['points_encoded', 'false'],
+    ['instructions', 'true'],
+    ['locale', 'en'],
+  ];
+  if (maxRoutes > 1) {
+    params.push(['algorithm', 'alternative_route'], ['alternative_route.max_paths', String(maxRoutes)]);
+  }
+  const res = await fetch(buildUrl('route', params), { signal });
+  const data = await readJson<{ paths?: GhPath[] }>(res, 'Routing failed');
+  if (!data.paths?.length) throw new Error('No route found');
+  return data.paths.map((p) => mapPath(p, mode));
+};
+
+export const graphhopperProvider: RoutingProvider = {
+  id: 'graphhopper',
+  label: 'GraphHopper',
+  route: async ({ origin, destination, mode, signal }) => {
+    const [first] = await fetchPaths(origin, destination, mode, 1, signal);
+    return first;
+  },
+  alternatives: async ({ origin, destination, mode, signal, maxRoutes = 3 }) =>
+    (await fetchPaths(origin, destination, mode, maxRoutes, signal)).slice(0, maxRoutes),
+  matrix: async (points, mode, signal): Promise<RouteMatrix> => {
+    if (points.length === 0) return { durationsSeconds: [], distancesMeters: [] };
+    const params: Array<[string, string]> = [
+      ...pointParams(points),
+      ['profile', GH_PROFILES[mode]],
+      ['out_array', 'times'],
+      ['out_array', 'distances'],
+    ];
+    const res = await fetch(buildUrl('matrix', params), { signal });
+    const data = await readJson<{ times?: (number | null)[][]; distances?: (number | null)[][] }>(
+      res,
+      'Routing matrix failed'
+    );
+    if (!data.times) throw new Error('Routing matrix unavailable');
+    return {
+      durationsSeconds: data.times,
+      distancesMeters: data.distances ?? data.times.map((row) => row.map(() => null)),
+    };
+  },
+};
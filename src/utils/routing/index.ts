@@ -0,0 +1,63 @@
+import type { LatLng } from '../geo';
+import { graphhopperProvider } from './graphhopperProvider';
+import { osrmProvider } from './osrmProvider';
+import { stubProvider } from './stubProvider';
+import type {
+  AlternativesRequest,
+  Route,
+  RouteMatrix,
+  RouteRequest,
+  RoutingProvider,
+  RoutingProviderId,
+  TravelMode,
+} from './types';
+
+export { TRAVEL_MODES, isTravelMode } from './types';
+export { mainRoads } from './summary';
+export type {
+  AlternativesRequest,
+  Route,
+  RouteManeuver,
+  RouteMatrix,
+  RouteRequest,
+  RouteStep,
+  RoutingProvider,
+  RoutingProviderId,
+  TravelMode,
+} from './types';
+
+const providers: Record<RoutingProviderId, RoutingProvider> = {
+  osrm: osrmProvider,
+  graphhopper: graphhopperProvider,
+  stub: stubProvider,
+};
+
+const isProviderId = (v: string): v is RoutingProviderId => v in providers;
+
+// Backend is chosen per deployment via VITE_ROUTING_PROVIDER (osrm | graphhopper | stub).
+const configured = (import.meta.env.VITE_ROUTING_PROVIDER ?? '').trim().toLowerCase();
+let activeProviderId: RoutingProviderId = isProviderId(configured) ? configured : 'osrm';
+
+export const getRoutingProvider = (): RoutingProvider => providers[activeProviderId];
+
+/**
+ * Switch the active provider at runtime (e.g. tests forcing the stub)
+ */
+export const setRoutingProvider = (id: RoutingProviderId) => {
+  activeProviderId = id;
+};
+
+/**
+ * Replace the implementation behind a provider id
+ */
+export const registerRoutingProvider = (provider: RoutingProvider) => {
+  providers[provider.id] = provider;
+};
+
+export const fetchRoute = (req: RouteRequest): Promise<Route> => getRoutingProvider().route(req);
+
+export const fetchRouteAlternatives = (req: AlternativesRequest): Promise<Route[]> =>
+  getRoutingProvider().alternatives(req);
+
+export const fetchRouteMatrix = (points: LatLng[], mode: TravelMode, signal?: AbortSignal): Promise<RouteMatrix> =>
+  getRoutingProvider().matrix(points, mode, signal);
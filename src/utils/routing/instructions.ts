@@ -0,0 +1,58 @@
+import type { RouteManeuver } from './types';
+
+const onto = (name: string) => (name ? ` onto ${name}` : '');
+
+const ordinal = (n: number) => {
+  const rem = n % 100;
+  if (rem >= 11 && rem <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
+};
+
+const direction = (modifier?: string) => {
+  if (!modifier) return '';
+  if (modifier === 'straight') return 'straight';
+  return modifier;
+};
+
+/**
+ * Human-readable instruction for an OSRM-style maneuver
+ */
+export const formatInstruction = (maneuver: RouteManeuver, name: string): string => {
+  const dir = direction(maneuver.modifier);
+
+  if (maneuver.modifier === 'uturn' && maneuver.type !== 'arrive' && maneuver.type !== 'depart') {
+    return `Make a U-turn${onto(name)}`;
+  }
+
+  switch (maneuver.type) {
+    case 'depart':
+      return name ? `Head out on ${name}` : 'Head out';
+    case 'arrive':
+      return dir && dir !== 'straight' ? `Arrive at your destination on the ${dir}` : 'Arrive at your destination';
+    case 'turn':
+      return dir === 'straight' ? `Continue straight${onto(name)}` : `Turn ${dir}${onto(name)}`;
+    case 'new name':
+      return `Continue${onto(name)}`;
+    case 'merge':
+      return `Merge${dir ? ` ${dir}` : ''}${onto(name)}`;
+    case 'on ramp':
+      return `Take the ramp${dir && dir !== 'straight' ? ` on the ${dir}` : ''}${onto(name)}`;
+    case 'off ramp':
+      return `Take the exit${dir && dir !== 'straight' ? ` on the ${dir}` : ''}${onto(name)}`;
+    case 'fork':
+      return `Keep ${dir || 'straight'} at the fork${onto(name)}`;
+    case 'end of road':
+      return `At the end of the road, turn ${dir || 'ahead'}${onto(name)}`;
+    case 'roundabout':
+    case 'rotary':
+    case 'exit roundabout':
+    case 'exit rotary':
+      return maneuver.exit
+        ? `At the roundabout, take the ${ordinal(maneuver.exit)} exit${onto(name)}`
+        : `Go through the roundabout${onto(name)}`;
+    case 'roundabout turn':
+      return `At the roundabout, turn ${dir || 'ahead'}${onto(name)}`;
+    default:
+      return dir && dir !== 'straight' ? `Keep ${dir}${onto(name)}` : `Continue${onto(name)}`;
+  }
+};
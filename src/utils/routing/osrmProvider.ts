@@ -0,0 +1,99 @@
+import type { LatLng } from '../geo';
+import { formatInstruction } from './instructions';
+import type { Route, RouteMatrix, RouteStep, RoutingProvider, TravelMode } from './types';
+
+// The OSRM demo server only has a car profile; the FOSSGIS instances host
+// separate car, bike and foot graphs behind the same API.
+const OSRM_PROFILES: Record<TravelMode, { host: string; profile: string }> = {
+  drive: { host: 'https://router.project-osrm.org', profile: 'driving' },
+  walk: { host: 'https://routing.openstreetmap.de/routed-foot', profile: 'foot' },
+  cycle: { host: 'https://routing.openstreetmap.de/routed-bike', profile: 'bike' },
+};
+
+type OsrmStep = {
+  distance: number;
+  duration: number;
+  name?: string;
+  geometry?: { coordinates?: [number, number][] };
+  maneuver: { type: string; modifier?: string; exit?: number; location: [number, number] };
+};
+
+type OsrmRoute = {
+  distance: number;
+  duration: number;
+  geometry?: { coordinates?: [number, number][] };
+  legs?: Array<{ steps?: OsrmStep[] }>;
+};
+
+const osrmUrl = (service: 'route' | 'table', mode: TravelMode, points: LatLng[], query: string) => {
+  const { host, profile } = OSRM_PROFILES[mode];
+  const coords = points.map((p) => `${p.lng},${p.lat}`).join(';');
+  return `${host}/${service}/v1/${profile}/${coords}?${query}`;
+};
+
+// OSRM returns [lng, lat]
+const toLatLngs = (coords: [number, number][] | undefined): [number, number][] =>
+  (coords ?? []).filter((c) => Array.isArray(c) && c.length >= 2).map((c) => [c[1], c[0]]);
+
+const mapStep = (s: OsrmStep): RouteStep => {
+  const name = s.name ?? '';
+  const maneuver = { type: s.maneuver.type, modifier: s.maneuver.modifier, exit: s.maneuver.exit };
+  return {
+    instruction: formatInstruction(maneuver, name),
+    name,
+    distanceMeters: s.distance,
+    durationSeconds: s.duration,
+    maneuver,
+    location: [s.maneuver.location[1], s.maneuver.location[0]],
+    geometry: toLatLngs(s.geometry?.coordinates),
+  };
+};
+
+export const mapOsrmRoute = (r: OsrmRoute, mode: TravelMode): Route => ({
+  mode,
+  distanceMeters: r.distance,
+  durationSeconds: r.duration,
+  geometry: toLatLngs(r.geometry?.coordinates),
+  steps: (r.legs ?? []).flatMap((leg) => (leg.steps ?? []).map(mapStep)),
+});
+
+const fetchOsrmRoutes = async (
+  origin: LatLng,
+  destination: LatLng,
+  mode: TravelMode,
+  alternatives: number,
+  signal?: AbortSignal
+): Promise<Route[]> => {
+  const query = `overview=full&geometries=geojson&steps=true&alternatives=${alternatives > 0 ? alternatives : 'false'}`;
+  const res = await fetch(osrmUrl('route', mode, [origin, destination], query), { signal });
+  if (!res.ok) throw new Error(`Routing failed (${res.status})`);
+  const data = (await res.json()) as { code?: string; routes?: OsrmRoute[] };
+  if (data.code !== 'Ok' || !data.routes?.length) throw new Error('No route found');
+  return data.routes.map((r) => mapOsrmRoute(r, mode));
+};
+
+export const osrmProvider: RoutingProvider = {
+  id: 'osrm',
+  label: 'OSRM',
+  route: async ({ origin, destination, mode, signal }) => {
+    const [first] = await fetchOsrmRoutes(origin, destination, mode, 0, signal);
+    return first;
+  },
+  alternatives: async ({ origin, destination, mode, signal, maxRoutes = 3 }) =>
+    (await fetchOsrmRoutes(origin, destination, mode, Math.max(0, maxRoutes - 1), signal)).slice(0, maxRoutes),
+  matrix: async (points, mode, signal): Promise<RouteMatrix> => {
+    if (points.length === 0) return { durationsSeconds: [], distancesMeters: [] };
+    const res = await fetch(osrmUrl('table', mode, points, 'annotations=duration,distance'), { signal });
+    if (!res.ok) throw new Error(`Routing matrix failed (${res.status})`);
+    const data = (await res.json()) as {
+      code?: string;
+      durations?: (number | null)[][];
+      distances?: (number | null)[][];
+    };
+    if (data.code !== 'Ok' || !data.durations) throw new Error('Routing matrix unavailable');
+    return {
+      durationsSeconds: data.durations,
+      distancesMeters: data.distances ?? data.durations.map((row) => row.map(() => null)),
+    };
+  },
+};
@@ -0,0 +1,92 @@
+import { distanceMeters } from '../geo';
+import type { LatLng } from '../geo';
+import { formatInstruction } from './instructions';
+import type { Route, RouteManeuver, RouteStep, RoutingProvider, TravelMode } from './types';
+
+// Deterministic routing with no network: routes follow a north/south then
+// east/west grid (or a straight line) at a fixed speed per mode.
+const SPEED_MPS: Record<TravelMode, number> = {
+  drive: 11, // ~40 km/h urban average
+  walk: 1.4,
+  cycle: 4.2,
+};
+
+export type StubShape = 'grid-lat-first' | 'grid-lng-first' | 'straight';
+
+const toTuple = (p: LatLng): [number, number] => [p.lat, p.lng];
+
+const waypointsFor = (origin: LatLng, destination: LatLng, shape: StubShape): LatLng[] => {
+  if (shape === 'straight') return [origin, destination];
+  const corner =
+    shape === 'grid-lat-first'
+      ? { lat: destination.lat, lng: origin.lng }
+      : { lat: origin.lat, lng: destination.lng };
+  const degenerate = distanceMeters(origin, corner) < 1 || distanceMeters(corner, destination) < 1;
+  return degenerate ? [origin, destination] : [origin, corner, destination];
+};
+
+const pathLength = (points: LatLng[]) =>
+  points.slice(1).reduce((sum, p, i) => sum + distanceMeters(points[i], p), 0);
+
+// Sign of the cross product of consecutive legs (x = lng, y = lat) gives the turn side.
+const turnModifier = (a: LatLng, b: LatLng, c: LatLng) => {
+  const cross = (b.lng - a.lng) * (c.lat - b.lat) - (b.lat - a.lat) * (c.lng - b.lng);
+  if (Math.abs(cross) < 1e-12) return 'straight';
+  return cross > 0 ? 'left' : 'right';
+};
+
+const streetName = (shape: StubShape, leg: number) =>
+  shape === 'straight' ? 'Direct Path' : `${leg === 0 ? 'First' : 'Second'} ${shape === 'grid-lat-first' ? 'Avenue' : 'Street'}`;
+
+export const buildStubRoute = (origin: LatLng, destination: LatLng, mode: TravelMode, shape: StubShape): Route => {
+  const points = waypointsFor(origin, destination, shape);
+  const speed = SPEED_MPS[mode];
+
+  const step = (maneuver: RouteManeuver, name: string, from: LatLng, to: LatLng | null): RouteStep => {
+    const d = to ? distanceMeters(from, to) : 0;
+    return {
+      instruction: formatInstruction(maneuver, name),
+      name,
+      distanceMeters: d,
+      durationSeconds: d / speed,
+      maneuver,
+      location: toTuple(from),
+      geometry: to ? [toTuple(from), toTuple(to)] : [toTuple(from)],
+    };
+  };
+
+  const steps: RouteStep[] = points.slice(0, -1).map((p, i) =>
+    i === 0
+      ? step({ type: 'depart' }, streetName(shape, i), p, points[i + 1])
+      : step({ type: 'turn', modifier: turnModifier(points[i - 1], p, points[i + 1]) }, streetName(shape, i), p, points[i + 1])
+  );
+  steps.push(step({ type: 'arrive' }, '', destination, null));
+
+  const distance = pathLength(points);
+  return {
+    mode,
+    distanceMeters: distance,
+    durationSeconds: distance / speed,
+    geometry: points.map(toTuple),
+    steps,
+  };
+};
+
+const DEFAULT_SHAPES: StubShape[] = ['grid-lat-first', 'grid-lng-first', 'straight'];
+
+export const stubProvider: RoutingProvider = {
+  id: 'stub',
+  label: 'Offline stub',
+  route: async ({ origin, destination, mode }) => buildStubRoute(origin, destination, mode, DEFAULT_SHAPES[0]),
+  alternatives: async ({ origin, destination, mode, maxRoutes = 3 }) =>
+    DEFAULT_SHAPES.slice(0, Math.max(1, maxRoutes)).map((shape) => buildStubRoute(origin, destination, mode, shape)),
+  matrix: async (points, mode) => {
+    const distancesMeters = points.map((a) =>
+      points.map((b) => pathLength(waypointsFor(a, b, DEFAULT_SHAPES[0])))
+    );
+    return {
+      distancesMeters,
+      durationsSeconds: distancesMeters.map((row) => row.map((d) => (d == null ? null : d / SPEED_MPS[mode]))),
+    };
+  },
+};
@@ -0,0 +1,20 @@
+import type { Route } from './types';
+
+/**
+ * Names of the roads a route spends the most distance on, in travel order
+ */
+export const mainRoads = (route: Route, count = 2): string[] => {
+  const totals = new Map<string, { distance: number; firstIndex: number }>();
+  route.steps.forEach((step, i) => {
+    const name = step.name.trim();
+    if (!name) return;
+    const entry = totals.get(name);
+    if (entry) entry.distance += step.distanceMeters;
+    else totals.set(name, { distance: step.distanceMeters, firstIndex: i });
+  });
+  return Array.from(totals)
+    .sort((a, b) => b[1].distance - a[1].distance)
+    .slice(0, count)
+    .sort((a, b) => a[1].firstIndex - b[1].firstIndex)
+    .map(([name]) => name);
+};
@@ -0,0 +1,60 @@
+import type { LatLng } from '../geo';
+
+export type TravelMode = 'drive' | 'walk' | 'cycle';
+
+export const TRAVEL_MODES: TravelMode[] = ['drive', 'walk', 'cycle'];
+
+export const isTravelMode = (v: string | null): v is TravelMode => v != null && (TRAVEL_MODES as string[]).includes(v);
+
+export type RouteManeuver = {
+  type: string;
+  modifier?: string;
+  exit?: number;
+};
+
+export type RouteStep = {
+  instruction: string;
+  name: string;
+  distanceMeters: number;
+  durationSeconds: number;
+  maneuver: RouteManeuver;
+  // [lat, lng] where the maneuver happens and the stretch that follows it.
+  location: [number, number];
+  geometry: [number, number][];
+};
+
+export type Route = {
+  mode: TravelMode;
+  distanceMeters: number;
+  durationSeconds: number;
+  geometry: [number, number][];
+  steps: RouteStep[];
+};
+
+export type RoutingProviderId = 'osrm' | 'graphhopper' | 'stub';
+
+export type RouteRequest = {
+  origin: LatLng;
+  destination: LatLng;
+  mode: TravelMode;
+  signal?: AbortSignal;
+};
+
+export type AlternativesRequest = RouteRequest & {
+  // Upper bound on returned routes, including the primary one.
+  maxRoutes?: number;
+};
+
+// Row i, column j is the trip from points[i] to points[j]; null when unroutable.
+export type RouteMatrix = {
+  durationsSeconds: (number | null)[][];
+  distancesMeters: (number | null)[][];
+};
+
+export type RoutingProvider = {
+  id: RoutingProviderId;
+  label: string;
+  route: (req: RouteRequest) => Promise<Route>;
+  alternatives: (req: AlternativesRequest) => Promise<Route[]>;
+  matrix: (points: LatLng[], mode: TravelMode, signal?: AbortSignal) => Promise<RouteMatrix>;
+};
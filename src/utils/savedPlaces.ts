@@ -0,0 +1,97 @@
+import type { LatLng } from './geo';
+
+export type SavedPlaceSource = {
+  // Place provider ("overpass", "google") or "search" / "pin" / "import" for ad-hoc points.
+  provider: string;
+  id: string;
+};
+
+export type SavedPlace = LatLng & {
+  id: string;
+  name: string;
+  type: string;
+  address?: string;
+  source?: SavedPlaceSource;
+  notes: string;
+  tags: string[];
+  collectionIds: string[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type PlaceCollection = {
+  id: string;
+  name: string;
+  createdAt: number;
+};
+
+export type SavePlaceInput = LatLng & {
+  name: string;
+  type: string;
+  address?: string;
+  source?: SavedPlaceSource;
+  notes?: string;
+  tags?: string[];
+  collectionIds?: string[];
+};
+
+export const SAVED_PLACES_VERSION = 1;
+export const PLACE_COLLECTIONS_VERSION = 1;
+
+const AD_HOC_PROVIDERS = ['search', 'pin', 'import'];
+
+/**
+ * Stable id for a save: the provider's id when there is one, so saving the same
+ * POI twice updates it, otherwise the rounded coordinates
+ */
+export const savedPlaceId = ({ lat, lng, source }: LatLng & { source?: SavedPlaceSource }) =>
+  source && !AD_HOC_PROVIDERS.includes(source.provider)
+    ? `${source.provider}:${source.id}`
+    : `geo:${lat.toFixed(5)},${lng.toFixed(5)}`;
+
+export const normalizeTags = (tags: string[]) =>
+  [...new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean))];
+
+export const parseTags = (raw: string) => normalizeTags(raw.split(','));
+
+/**
+ * Insert a place, or refresh an existing save of the same place while keeping
+ * the user's notes, tags and collections unless new ones are given
+ */
+export const upsertSavedPlace = (list: SavedPlace[], input: SavePlaceInput, now = Date.now()): SavedPlace[] => {
+  const id = savedPlaceId(input);
+  const existing = list.find((p) => p.id === id);
+  const place: SavedPlace = {
+    id,
+    lat: input.lat,
+    lng: input.lng,
+    name: input.name.trim() || existing?.name || 'Saved place',
+    type: input.type,
+    address: input.address ?? existing?.address,
+    source: input.source ?? existing?.source,
+    notes: input.notes ?? existing?.notes ?? '',
+    tags: normalizeTags(input.tags ?? existing?.tags ?? []),
+    collectionIds: input.collectionIds ?? existing?.collectionIds ?? [],
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  return existing ? list.map((p) => (p.id === id ? place : p)) : [place, ...list];
+};
+
+/**
+ * Union of two lists by id, keeping whichever copy was updated last
+ */
+export const mergeSavedPlaces = (a: SavedPlace[], b: SavedPlace[]): SavedPlace[] => {
+  const byId = new Map(a.map((p) => [p.id, p]));
+  for (const p of b) {
+    const other = byId.get(p.id);
+    if (!other || p.updatedAt >= other.updatedAt) byId.set(p.id, p);
+  }
+  return [...byId.values()].sort((x, y) => y.createdAt - x.createdAt);
+};
+
+export const mergeCollections = (a: PlaceCollection[], b: PlaceCollection[]): PlaceCollection[] => {
+  const byId = new Map(a.map((c) => [c.id, c]));
+  for (const c of b) byId.set(c.id, c);
+  return [...byId.values()].sort((x, y) => x.createdAt - y.createdAt);
+};
@@ -0,0 +1,141 @@
+import { FUZZY_MATCH_THRESHOLD, fuzzyScore, normalizeText } from '../fuzzy';
+import { distanceMeters } from '../geo';
+import type { LatLng } from '../geo';
+import { suggestPlaces } from '../geocoding';
+import { mapFocusUrl, mapKindUrl, mapSearchUrl } from '../mapLinks';
+import type { SavedPlace } from '../savedPlaces';
+import type { SearchHistoryEntry } from '../searchHistory';
+import { matchCategoryIntents } from './intents';
+import type { IntentMatch } from './intents';
+import type { UnifiedResult, UnifiedResultGroup, UnifiedResultSection } from './types';
+
+export type { CategoryIntent, IntentMatch } from './intents';
+export { CATEGORY_INTENTS, matchCategoryIntents } from './intents';
+export type { UnifiedResult, UnifiedResultGroup, UnifiedResultSection } from './types';
+
+const GROUP_LABELS: Record<UnifiedResultGroup, string> = {
+  category: 'Nearby',
+  saved: 'Saved',
+  recent: 'Recent',
+  place: 'Places',
+};
+
+const GROUP_LIMITS: Record<UnifiedResultGroup, number> = { category: 3, saved: 4, recent: 3, place: 6 };
+
+
+const intentUrl = ({ intent, dish }: IntentMatch) => {
+  if (intent.kind === 'hospital' || intent.kind === 'police') return '/emergency';
+  if (intent.kind === 'restaurant') return dish ? `/restaurants?${new URLSearchParams({ q: dish })}` : '/restaurants';
+  if (intent.kind === 'bus_station') return '/bus';
+  return mapKindUrl(intent.kind);
+};
+
+const scoreSavedPlace = (query: string, p: SavedPlace) =>
+  Math.max(
+    fuzzyScore(query, p.name),
+    ...p.tags.map((t) => fuzzyScore(query, t) * 0.95),
+    p.address ? fuzzyScore(query, p.address) * 0.85 : 0,
+    p.notes ? fuzzyScore(query, p.notes) * 0.8 : 0
+  );
+
+/**
+ * Results that need no network: category intents, saved places and search
+ * history. Cheap enough to run on every keystroke.
+ */
+export const searchLocal = (
+  query: string,
+  { saved, history }: { saved: SavedPlace[]; history: SearchHistoryEntry[] }
+): UnifiedResult[] => {
+  const categories = matchCategoryIntents(query).map(
+    (match): UnifiedResult => ({
+      group: 'category',
+      id: `category:${match.intent.kind}:${match.dish ?? ''}`,
+      title: match.dish ? `${match.dish[0].toUpperCase()}${match.dish.slice(1)} nearby` : `${match.intent.label} nearby`,
+      subtitle: match.dish ? match.intent.label : undefined,
+      score: match.score,
+      to: intentUrl(match),
+      match,
+    })
+  );
+
+  const savedResults = saved.map(
+    (place): UnifiedResult => ({
+      group: 'saved',
+      id: `saved:${place.id}`,
+      title: place.name,
+      subtitle: place.address ?? place.type,
+      score: scoreSavedPlace(query, place),
+      to: mapFocusUrl(place),
+      place,
+    })
+  );
+
+  const recent = history.map(
+    (entry): UnifiedResult => ({
+      group: 'recent',
+      id: `recent:${entry.id}`,
+      title: entry.query,
+      subtitle: entry.result?.label,
+      // Slightly below saved places: a save is a stronger signal than a past search.
+      score: Math.max(fuzzyScore(query, entry.query), entry.result ? fuzzyScore(query, entry.result.label) * 0.9 : 0) * 0.9,
+      to: entry.result ? mapFocusUrl({ ...entry.result, name: entry.result.label }) : mapSearchUrl(entry.query, entry.near),
+      entry,
+    })
+  );
+
+  return [...categories, ...savedResults, ...recent].filter((r) => r.score >= FUZZY_MATCH_THRESHOLD);
+};
+
+/**
+ * Geocoder matches as unified results. The backend's own order counts, with a
+ * name match able to lift a result above it.
+ */
+export const searchPlaces = async (
+  query: string,
+  { near, signal }: { near?: LatLng; signal?: AbortSignal } = {}
+): Promise<UnifiedResult[]> => {
+  const results = await suggestPlaces(query, { limit: GROUP_LIMITS.place, near, signal });
+  return results.map(
+    (place, i): UnifiedResult => ({
+      group: 'place',
+      id: `place:${place.provider}:${place.id}`,
+      title: place.name ?? place.label.split(',')[0],
+      subtitle: place.label,
+      score: Math.max(0.75 - i * 0.05, fuzzyScore(query, place.name ?? place.label) * 0.8),
+      to: mapFocusUrl({ lat: place.lat, lng: place.lng, name: place.label }),
+      place,
+    })
+  );
+};
+
+const pointOf = (r: UnifiedResult): LatLng | null =>
+  r.group === 'saved' || r.group === 'place' ? r.place : r.group === 'recent' ? r.entry.result : null;
+
+/**
+ * Rank everything together, drop geocoder hits that repeat a saved place or a
+ * past search, and split into sections ordered by their best result.
+ */
+export const groupResults = (results: UnifiedResult[]): UnifiedResultSection[] => {
+  const ranked = [...results].sort((a, b) => b.score - a.score);
+  const known = ranked.filter((r) => r.group === 'saved' || r.group === 'recent');
+  const deduped = ranked.filter((r) => {
+    if (r.group !== 'place') return true;
+    return !known.some((k) => {
+      const p = pointOf(k);
+      return (
+        p &&
+        distanceMeters(p, r.place) < 100 &&
+        (normalizeText(k.title) === normalizeText(r.title) ||
+          (k.group === 'recent' && k.entry.result?.label === r.place.label))
+      );
+    });
+  });
+
+  const sections = new Map<UnifiedResultGroup, UnifiedResult[]>();
+  for (const r of deduped) {
+    const list = sections.get(r.group) ?? [];
+    if (list.length < GROUP_LIMITS[r.group]) sections.set(r.group, [...list, r]);
+  }
+  // Map keeps insertion order, which is the order of each group's best result.
+  return [...sections].map(([group, list]) => ({ group, label: GROUP_LABELS[group], results: list }));
+};
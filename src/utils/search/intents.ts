@@ -0,0 +1,79 @@
+import type { OsmKind } from '../overpassPresets';
+import { fuzzyScore } from '../fuzzy';
+
+export type CategoryIntent = {
+  kind: OsmKind;
+  label: string;
+  // Phrases people type for this kind, including common Indian usage.
+  keywords: string[];
+  // Dishes or cuisines: searched for by name/cuisine within the kind.
+  dishes?: string[];
+};
+
+export const CATEGORY_INTENTS: CategoryIntent[] = [
+  {
+    kind: 'hospital',
+    label: 'Hospitals',
+    keywords: ['hospital', 'clinic', 'emergency', 'doctor', 'medical', 'ambulance'],
+  },
+  { kind: 'police', label: 'Police', keywords: ['police', 'police station', 'thana', 'chowki'] },
+  { kind: 'pharmacy', label: 'Pharmacies', keywords: ['pharmacy', 'chemist', 'medical store', 'medicine'] },
+  {
+    kind: 'restaurant',
+    label: 'Restaurants',
+    keywords: ['restaurant', 'food', 'eat', 'dinner', 'lunch', 'dhaba', 'mess'],
+    dishes: [
+      'biryani',
+      'dosa',
+      'idli',
+      'thali',
+      'pizza',
+      'burger',
+      'chinese',
+      'north indian',
+      'south indian',
+      'kebab',
+      'seafood',
+      'vegetarian',
+      'momos',
+      'paratha',
+      'chaat',
+    ],
+  },
+  { kind: 'cafe', label: 'Cafes', keywords: ['cafe', 'coffee', 'tea', 'chai', 'bakery'] },
+  { kind: 'fast_food', label: 'Fast food', keywords: ['fast food', 'snacks', 'takeaway'] },
+  { kind: 'bus_station', label: 'Bus stands', keywords: ['bus stand', 'bus station', 'bus stop', 'bus depot', 'ksrtc'] },
+  { kind: 'atm', label: 'ATMs', keywords: ['atm', 'cash', 'bank'] },
+  { kind: 'fuel', label: 'Fuel', keywords: ['petrol', 'petrol pump', 'petrol bunk', 'fuel', 'diesel', 'gas station', 'cng'] },
+  { kind: 'toilets', label: 'Toilets', keywords: ['toilet', 'restroom', 'washroom', 'bathroom'] },
+  { kind: 'hotel', label: 'Hotels', keywords: ['hotel', 'stay', 'lodge', 'guest house', 'hostel', 'homestay'] },
+  { kind: 'shop', label: 'Shops', keywords: ['shop', 'market', 'store', 'mall', 'supermarket', 'grocery', 'kirana'] },
+  {
+    kind: 'attraction',
+    label: 'Things to see',
+    keywords: ['attraction', 'sightseeing', 'museum', 'temple', 'church', 'mosque', 'fort', 'monument', 'park'],
+  },
+];
+
+export type IntentMatch = {
+  intent: CategoryIntent;
+  score: number;
+  // Set when the match came from a dish, e.g. "biryani" within restaurants.
+  dish?: string;
+};
+
+// Intents only kick in from a couple of letters, and a dish needs a closer match than a keyword.
+const MIN_QUERY = 2;
+
+export const matchCategoryIntents = (query: string): IntentMatch[] => {
+  if (query.trim().length < MIN_QUERY) return [];
+  return CATEGORY_INTENTS.flatMap((intent): IntentMatch[] => {
+    const keyword = Math.max(fuzzyScore(query, intent.label), ...intent.keywords.map((k) => fuzzyScore(query, k)));
+    const dishes = (intent.dishes ?? [])
+      .map((dish) => ({ dish, score: fuzzyScore(query, dish) }))
+      .filter((d) => d.score >= 0.8)
+      .sort((a, b) => b.score - a.score);
+    if (dishes[0] && dishes[0].score > keyword) return [{ intent, score: dishes[0].score, dish: dishes[0].dish }];
+    return keyword > 0 ? [{ intent, score: keyword }] : [];
+  }).sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,27 @@
+import type { GeocodeResult } from '../geocoding';
+import type { SavedPlace } from '../savedPlaces';
+import type { SearchHistoryEntry } from '../searchHistory';
+import type { IntentMatch } from './intents';
+
+export type UnifiedResultGroup = 'category' | 'saved' | 'recent' | 'place';
+
+type ResultBase = {
+  id: string;
+  title: string;
+  subtitle?: string;
+  score: number;
+  // Where picking the result goes, with the target page's state in the URL.
+  to: string;
+};
+
+export type UnifiedResult =
+  | (ResultBase & { group: 'category'; match: IntentMatch })
+  | (ResultBase & { group: 'saved'; place: SavedPlace })
+  | (ResultBase & { group: 'recent'; entry: SearchHistoryEntry })
+  | (ResultBase & { group: 'place'; place: GeocodeResult });
+
+export type UnifiedResultSection = {
+  group: UnifiedResultGroup;
+  label: string;
+  results: UnifiedResult[];
+};
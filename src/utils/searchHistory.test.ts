@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { geocode } from './geocoding';
+import { fetchNearbyOsmPlaces } from './osm';
+import { SEARCH_HISTORY_ENABLED_KEY } from './searchHistory';
+
+const writes = vi.hoisted(() => [] as Array<{ dbName: string; key: string }>);
+
+vi.mock('./idb', () => ({
+  isIdbAvailable: () => true,
+  createIdbStore: (dbName: string) => ({
+    get: async () => undefined,
+    set: async (key: string) => {
+      writes.push({ dbName, key });
+    },
+    del: async () => undefined,
+    entries: async () => [],
+    clear: async () => undefined,
+  }),
+}));
+
+const respond = (url: string) => {
+  const body = url.includes('nominatim')
+    ? [{ place_id: 1, lat: '12.97', lon: '77.59', display_name: 'Masala Dosa Corner, Bengaluru', address: {} }]
+    : { elements: [{ type: 'node', id: 7, lat: 12.9716, lon: 77.5946, tags: { amenity: 'restaurant', name: 'Dosa Camp' } }] };
+  return Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+};
+
+const near = { lat: 12.97, lng: 77.59 };
+
+beforeEach(() => {
+  writes.length = 0;
+  vi.stubGlobal('fetch', vi.fn(respond));
+});
+
+afterEach(() => {
+  localStorage.clear();
+  vi.unstubAllGlobals();
+});
+
+describe('search caches with history off', () => {
+  it('keeps typed queries out of IndexedDB', async () => {
+    localStorage.setItem(SEARCH_HISTORY_ENABLED_KEY, 'false');
+
+    await geocode('masala dosa', { near });
+    await fetchNearbyOsmPlaces(near, { radiusMeters: 1000, kinds: ['restaurant'], query: 'dosa' });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(writes).toEqual([]);
+  });
+
+  it('persists them again once history is back on', async () => {
+    await fetchNearbyOsmPlaces(near, { radiusMeters: 1000, kinds: ['restaurant'], query: 'camp' });
+
+    expect(writes.map((w) => w.dbName)).toEqual(['local-lens-overpass']);
+  });
+});
@@ -0,0 +1,53 @@
+import type { LatLng } from './geo';
+
+export type SearchHistoryResult = LatLng & {
+  label: string;
+  // Geocoder that resolved the query, e.g. "nominatim".
+  provider: string;
+};
+
+export type SearchHistoryEntry = {
+  id: string;
+  query: string;
+  // null when the search found nothing; re-running it searches again.
+  result: SearchHistoryResult | null;
+  // Map centre at the time, so a re-run searches the same area.
+  near?: LatLng;
+  searchedAt: number;
+};
+
+export const SEARCH_HISTORY_VERSION = 1;
+export const SEARCH_HISTORY_LIMIT = 50;
+export const SEARCH_HISTORY_ENABLED_KEY = 'local-lens:search-history-enabled';
+
+/**
+ * Read the history switch straight from storage, for code outside React (the
+ * geocoding and Overpass caches) that must not persist typed queries while it is off
+ */
+export const isSearchHistoryEnabled = () => {
+  try {
+    return localStorage.getItem(SEARCH_HISTORY_ENABLED_KEY) !== 'false';
+  } catch {
+    return true;
+  }
+};
+
+const sameEntry = (a: SearchHistoryEntry, b: SearchHistoryEntry) =>
+  a.query.trim().toLowerCase() === b.query.trim().toLowerCase() &&
+  (a.result && b.result
+    ? a.result.lat.toFixed(4) === b.result.lat.toFixed(4) && a.result.lng.toFixed(4) === b.result.lng.toFixed(4)
+    : !a.result && !b.result);
+
+/**
+ * Put a search at the top, dropping an older copy of the same query and result
+ */
+export const pushSearchHistory = (list: SearchHistoryEntry[], entry: SearchHistoryEntry): SearchHistoryEntry[] => [
+  entry,
+  ...list.filter((e) => !sameEntry(e, entry)).slice(0, SEARCH_HISTORY_LIMIT - 1),
+];
+
+export const mergeSearchHistory = (a: SearchHistoryEntry[], b: SearchHistoryEntry[]): SearchHistoryEntry[] =>
+  [...b, ...a]
+    .sort((x, y) => y.searchedAt - x.searchedAt)
+    .reduce<SearchHistoryEntry[]>((acc, e) => (acc.some((x) => sameEntry(x, e)) ? acc : [...acc, e]), [])
+    .slice(0, SEARCH_HISTORY_LIMIT);
@@ -0,0 +1,12 @@
+/**
+ * Register the offline service worker. Only production builds emit sw.js;
+ * in dev it would serve stale modules over Vite's HMR.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((e) => {
+      console.warn('Service worker registration failed:', e);
+    });
+  });
+};
@@ -0,0 +1,21 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_PLACE_PROVIDER?: string;
+  // Comma-separated Overpass interpreter URLs, in preference order.
+  readonly VITE_OVERPASS_ENDPOINTS?: string;
+  readonly VITE_ROUTING_PROVIDER?: string;
+  // Base URL of a GraphHopper-compatible routing API; the key is only needed for graphhopper.com.
+  readonly VITE_GRAPHHOPPER_URL?: string;
+  readonly VITE_GRAPHHOPPER_KEY?: string;
+  readonly VITE_LOCATION_PROVIDER?: string;
+  readonly VITE_GEOCODER?: string;
+  readonly VITE_NOMINATIM_URL?: string;
+  // Contact address sent with Nominatim requests, as its usage policy asks.
+  readonly VITE_NOMINATIM_EMAIL?: string;
+  readonly VITE_PHOTON_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
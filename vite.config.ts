@@ -1,7 +1,38 @@
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Public files the app shell needs offline, besides the bundle itself.
+const STATIC_PRECACHE = [
+  '/',
+  '/index.html',
+  '/manifest.webmanifest',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/icons/apple-touch-icon.png',
+]
+
+// Emits sw.js with this build's files (including lazy route chunks) baked in,
+// so each deploy ships a new service worker that precaches exactly that build.
+const serviceWorker = (): Plugin => ({
+  name: 'local-lens-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const built = Object.keys(bundle)
+      .filter((file) => !file.endsWith('.map') && file !== 'index.html')
+      .map((file) => `/${file}`)
+    const precache = [...STATIC_PRECACHE, ...built]
+    const version = createHash('sha256').update(precache.join('\n')).digest('hex').slice(0, 12)
+    const source = readFileSync(new URL('./src/sw.js', import.meta.url), 'utf8')
+      .replace('self.__PRECACHE_MANIFEST', JSON.stringify(precache))
+      .replace('self.__CACHE_VERSION', JSON.stringify(version))
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+  },
+})
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 })